@@ -17,10 +17,65 @@ export type {
   MarkerOptions,
   ControlPosition,
   IStreetViewProvider,
+  CoverageLayers,
+  ImageryCache,
+  ImageryCacheOptions,
+  ImageryCacheStats,
+  ThumbnailLoader,
+  PrefetchAreaOptions,
+  RetryOptions,
+  RateLimitOptions,
+  RequestPolicy,
+  StreetViewCredentials,
+  FallbackStrategy,
+  FollowMode,
+  RouteInput,
+  RouteOptions,
+  RouteProgress,
+  DateRange,
+  ImageryFilters,
+  Transport,
+  RequestParameters,
+  TransformRequestFunction,
 } from './lib/core/types';
 
+// Error exports
+export {
+  StreetViewError,
+  QuotaExceededError,
+  AuthError,
+  NetworkError,
+  NoCoverageError,
+} from './lib/core/errors';
+export type { StreetViewErrorOptions } from './lib/core/errors';
+
 // Provider exports
-export { GoogleStreetViewProvider, MapillaryProvider } from './lib/providers';
+export {
+  BaseProvider,
+  GoogleStreetViewProvider,
+  GoogleMapsJsProvider,
+  MapillaryProvider,
+  KartaViewProvider,
+  PanoramaxProvider,
+  LocalPanoramaProvider,
+} from './lib/providers';
+export type {
+  GoogleStreetViewProviderOptions,
+  MapillaryProviderOptions,
+  KartaViewProviderOptions,
+  PanoramaxProviderOptions,
+  LocalPanoramaProviderOptions,
+  PanoramaCatalog,
+  PanoramaCatalogFeature,
+  PanoramaCatalogProperties,
+} from './lib/providers';
+
+// Cache exports
+export { MemoryImageryCache, ImageryQueryCache, IndexedDBImageryCache } from './lib/utils';
+export type { IndexedDBImageryCacheOptions } from './lib/utils';
+
+// Request exports
+export { TokenBucket } from './lib/utils';
 
 // Component exports (for advanced usage)
 export { StreetViewMarker } from './lib/components';
@@ -32,8 +87,16 @@ export {
   debounce,
   throttle,
   normalizeHeading,
+  headingDifference,
   toLngLat,
   createBbox,
   calculateDistance,
   calculateBearing,
+  destinationPoint,
+  createGrid,
+  sampleLine,
+  zoomToFieldOfView,
+  isAbortError,
+  isInDateRange,
+  matchesFilters,
 } from './lib/utils';
@@ -1,7 +1,32 @@
-import { Marker as MapLibreMarker, type LngLatLike, type Map as MapLibreMap } from 'maplibre-gl';
+import {
+  Marker as MapLibreMarker,
+  type LngLat,
+  type LngLatLike,
+  type Map as MapLibreMap,
+  type GeoJSONSource,
+} from 'maplibre-gl';
 import { CSS_CLASSES, DEFAULT_MARKER_OPTIONS } from '../core/constants';
 import type { MarkerOptions } from '../core/types';
-import { createElement, normalizeHeading } from '../utils/helpers';
+import { clamp, createElement, generateId, normalizeHeading } from '../utils/helpers';
+import { toLngLat, destinationPoint } from '../utils/geo';
+
+/** Number of arc segments used to draw the view cone */
+const VIEW_CONE_STEPS = 16;
+
+/** Shortest cone length, as a fraction of the configured length, when looking up or down */
+const VIEW_CONE_MIN_SCALE = 0.25;
+
+/**
+ * Callbacks for dragging the marker.
+ */
+export interface MarkerDragHandlers {
+  /** Called when the user starts dragging the marker */
+  onDragStart?: () => void;
+  /** Called as the marker moves while dragged */
+  onDrag?: (lngLat: LngLat) => void;
+  /** Called when the marker is dropped */
+  onDragEnd?: (lngLat: LngLat) => void;
+}
 
 /**
  * Street view location marker with direction indicator.
@@ -12,23 +37,102 @@ export class StreetViewMarker {
   private _direction: HTMLElement;
   private _heading = 0;
   private _showDirection: boolean;
+  private _map: MapLibreMap | null = null;
+  private _lngLat: LngLat | null = null;
+  private _pitch = 0;
+  private _fieldOfView = 90;
+  private _showViewCone: boolean;
+  private _viewConeLength: number;
+  private _viewConeOpacity: number;
+  private _viewConeColor: string;
+  private _viewConeId = generateId('streetview-cone');
+  private _snapTarget: LngLat | null = null;
+  private _snapTargetColor: string;
+  private _snapTargetId = generateId('streetview-snap');
+  private _onDragStart?: () => void;
+  private _onDrag?: (lngLat: LngLat) => void;
+  private _onDragEnd?: (lngLat: LngLat) => void;
 
   /**
    * Creates a new StreetViewMarker.
    *
    * @param options - Marker configuration options
+   * @param handlers - Drag callbacks
    */
-  constructor(options: MarkerOptions = {}) {
+  constructor(options: MarkerOptions = {}, handlers: MarkerDragHandlers = {}) {
     const mergedOptions = { ...DEFAULT_MARKER_OPTIONS, ...options };
 
     this._showDirection = mergedOptions.showDirection;
+    this._showViewCone = mergedOptions.showViewCone;
+    this._viewConeLength = mergedOptions.viewConeLength;
+    this._viewConeOpacity = mergedOptions.viewConeOpacity;
+    this._viewConeColor = mergedOptions.viewConeColor;
     this._element = this.createMarkerElement(mergedOptions);
     this._direction = this._element.querySelector(`.${CSS_CLASSES.MARKER_DIRECTION}`)!;
 
+    this._snapTargetColor = mergedOptions.directionColor;
+    this._onDragStart = handlers.onDragStart;
+    this._onDrag = handlers.onDrag;
+    this._onDragEnd = handlers.onDragEnd;
+
     this._marker = new MapLibreMarker({
       element: this._element,
       anchor: 'center',
+      draggable: mergedOptions.draggable,
     });
+    this._marker.on('dragstart', this.handleDragStart);
+    this._marker.on('drag', this.handleDrag);
+    this._marker.on('dragend', this.handleDragEnd);
+
+    if (mergedOptions.draggable) {
+      this._element.classList.add('draggable');
+    }
+  }
+
+  /**
+   * Handles the start of a drag.
+   */
+  private handleDragStart = (): void => {
+    this._element.classList.add('dragging');
+    this._onDragStart?.();
+  };
+
+  /**
+   * Keeps the view cone attached to the marker while dragging.
+   */
+  private handleDrag = (): void => {
+    this._lngLat = this._marker.getLngLat();
+    this.updateViewCone();
+    this.updateSnapTarget();
+    this._onDrag?.(this._lngLat);
+  };
+
+  /**
+   * Handles the marker drop.
+   */
+  private handleDragEnd = (): void => {
+    this._element.classList.remove('dragging');
+    this._lngLat = this._marker.getLngLat();
+    this.updateViewCone();
+    this._onDragEnd?.(this._lngLat);
+  };
+
+  /**
+   * Enables or disables dragging the marker.
+   *
+   * @param draggable - Whether the marker can be dragged
+   */
+  setDraggable(draggable: boolean): this {
+    this._marker.setDraggable(draggable);
+    this._element.classList.toggle('draggable', draggable);
+    return this;
+  }
+
+  /**
+   * Checks if the marker is being dragged.
+   */
+  isDragging(): boolean {
+    return this._element.classList.contains('dragging');
   }
 
   /**
@@ -64,7 +168,10 @@ export class StreetViewMarker {
    * @param lngLat - The location to place the marker
    */
   addTo(map: MapLibreMap, lngLat: LngLatLike): this {
+    this._map = map;
+    this._lngLat = toLngLat(lngLat);
     this._marker.setLngLat(lngLat).addTo(map);
+    this.updateViewCone();
     return this;
   }
 
@@ -73,6 +180,9 @@ export class StreetViewMarker {
    */
   remove(): this {
     this._marker.remove();
+    this.removeViewCone();
+    this.removeSnapTarget();
+    this._map = null;
     return this;
   }
 
@@ -82,7 +192,9 @@ export class StreetViewMarker {
    * @param lngLat - The new location
    */
   setLngLat(lngLat: LngLatLike): this {
+    this._lngLat = toLngLat(lngLat);
     this._marker.setLngLat(lngLat);
+    this.updateViewCone();
     return this;
   }
 
@@ -96,6 +208,7 @@ export class StreetViewMarker {
     if (this._showDirection) {
       this._direction.style.transform = `translateX(-50%) rotate(${this._heading}deg)`;
     }
+    this.updateViewCone();
     return this;
   }
 
@@ -106,6 +219,250 @@ export class StreetViewMarker {
     return this._heading;
   }
 
+  /**
+   * Sets the camera pitch. Looking up or down shortens the view cone.
+   *
+   * @param pitch - The pitch in degrees (-90 to 90)
+   */
+  setPitch(pitch: number): this {
+    this._pitch = clamp(pitch, -90, 90);
+    this.updateViewCone();
+    return this;
+  }
+
+  /**
+   * Sets the horizontal field of view shown by the view cone.
+   *
+   * @param fov - The field of view in degrees
+   */
+  setFieldOfView(fov: number): this {
+    this._fieldOfView = clamp(fov, 1, 360);
+    this.updateViewCone();
+    return this;
+  }
+
+  /**
+   * Gets the current field of view.
+   */
+  getFieldOfView(): number {
+    return this._fieldOfView;
+  }
+
+  /**
+   * Shows or hides the view cone.
+   *
+   * @param show - Whether to show the view cone
+   */
+  setViewConeVisible(show: boolean): this {
+    this._showViewCone = show;
+    if (show) {
+      this.updateViewCone();
+    } else {
+      this.removeViewCone();
+    }
+    return this;
+  }
+
+  /**
+   * Sets the view cone length when looking straight ahead.
+   *
+   * @param length - The cone length in meters
+   */
+  setViewConeLength(length: number): this {
+    this._viewConeLength = length;
+    this.updateViewCone();
+    return this;
+  }
+
+  /**
+   * Sets the view cone fill opacity.
+   *
+   * @param opacity - The opacity (0-1)
+   */
+  setViewConeOpacity(opacity: number): this {
+    this._viewConeOpacity = opacity;
+    this.setViewConePaint('fill-opacity', opacity);
+    return this;
+  }
+
+  /**
+   * Sets the view cone fill color.
+   *
+   * @param color - The cone color
+   */
+  setViewConeColor(color: string): this {
+    this._viewConeColor = color;
+    this.setViewConePaint('fill-color', color);
+    return this;
+  }
+
+  /**
+   * Updates a paint property of the view cone layer, if it is shown.
+   */
+  private setViewConePaint(property: 'fill-color' | 'fill-opacity', value: string | number): void {
+    if (this._map?.getLayer(this._viewConeId)) {
+      this._map.setPaintProperty(this._viewConeId, property, value);
+    }
+  }
+
+  /**
+   * Builds the view cone polygon around the current heading.
+   */
+  private createViewConeFeature(center: LngLat): GeoJSON.Feature<GeoJSON.Polygon> {
+    const length =
+      this._viewConeLength *
+      Math.max(VIEW_CONE_MIN_SCALE, Math.cos((this._pitch * Math.PI) / 180));
+    const start = this._heading - this._fieldOfView / 2;
+    const ring: GeoJSON.Position[] = [[center.lng, center.lat]];
+
+    for (let i = 0; i <= VIEW_CONE_STEPS; i++) {
+      const point = destinationPoint(center, length, start + (this._fieldOfView * i) / VIEW_CONE_STEPS);
+      ring.push([point.lng, point.lat]);
+    }
+    ring.push([center.lng, center.lat]);
+
+    return {
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'Polygon', coordinates: [ring] },
+    };
+  }
+
+  /**
+   * Adds or updates the view cone layer on the map.
+   */
+  private updateViewCone(): void {
+    const map = this._map;
+    if (!this._showViewCone || !map || !this._lngLat) return;
+
+    const feature = this.createViewConeFeature(this._lngLat);
+    const source = map.getSource(this._viewConeId) as GeoJSONSource | undefined;
+    if (source) {
+      source.setData(feature);
+      return;
+    }
+
+    map.addSource(this._viewConeId, { type: 'geojson', data: feature });
+    map.addLayer({
+      id: this._viewConeId,
+      type: 'fill',
+      source: this._viewConeId,
+      paint: {
+        'fill-color': this._viewConeColor,
+        'fill-opacity': this._viewConeOpacity,
+      },
+    });
+  }
+
+  /**
+   * Removes the view cone layer from the map.
+   */
+  private removeViewCone(): void {
+    const map = this._map;
+    if (!map) return;
+
+    if (map.getLayer(this._viewConeId)) {
+      map.removeLayer(this._viewConeId);
+    }
+    if (map.getSource(this._viewConeId)) {
+      map.removeSource(this._viewConeId);
+    }
+  }
+
+  /**
+   * Highlights the location the marker will snap to when dropped.
+   *
+   * @param lngLat - The snap location, or null to remove the highlight
+   */
+  setSnapTarget(lngLat: LngLatLike | null): this {
+    this._snapTarget = lngLat ? toLngLat(lngLat) : null;
+    if (this._snapTarget) {
+      this.updateSnapTarget();
+    } else {
+      this.removeSnapTarget();
+    }
+    return this;
+  }
+
+  /**
+   * Adds or updates the snap target layers: a ring at the target, linked to the marker.
+   */
+  private updateSnapTarget(): void {
+    const map = this._map;
+    const target = this._snapTarget;
+    if (!map || !target || !this._lngLat) return;
+
+    const data: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: {
+            type: 'LineString',
+            coordinates: [
+              [this._lngLat.lng, this._lngLat.lat],
+              [target.lng, target.lat],
+            ],
+          },
+        },
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: { type: 'Point', coordinates: [target.lng, target.lat] },
+        },
+      ],
+    };
+    const source = map.getSource(this._snapTargetId) as GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+
+    map.addSource(this._snapTargetId, { type: 'geojson', data });
+    map.addLayer({
+      id: `${this._snapTargetId}-line`,
+      type: 'line',
+      source: this._snapTargetId,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      paint: {
+        'line-color': this._snapTargetColor,
+        'line-width': 2,
+        'line-dasharray': [2, 2],
+      },
+    });
+    map.addLayer({
+      id: this._snapTargetId,
+      type: 'circle',
+      source: this._snapTargetId,
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-radius': 8,
+        'circle-color': this._snapTargetColor,
+        'circle-opacity': 0.3,
+        'circle-stroke-color': this._snapTargetColor,
+        'circle-stroke-width': 2,
+      },
+    });
+  }
+
+  /**
+   * Removes the snap target layers from the map.
+   */
+  private removeSnapTarget(): void {
+    const map = this._map;
+    if (!map) return;
+
+    for (const id of [this._snapTargetId, `${this._snapTargetId}-line`]) {
+      if (map.getLayer(id)) {
+        map.removeLayer(id);
+      }
+    }
+    if (map.getSource(this._snapTargetId)) {
+      map.removeSource(this._snapTargetId);
+    }
+  }
+
   /**
    * Shows or hides the direction indicator.
    *
@@ -153,6 +510,7 @@ export class StreetViewMarker {
    */
   setDirectionColor(color: string): this {
     this._element.style.setProperty('--marker-direction-color', color);
+    this._snapTargetColor = color;
     return this;
   }
 
@@ -1,5 +1,6 @@
 import { CSS_CLASSES } from '../core/constants';
 import type { ProviderType } from '../core/types';
+import { QuotaExceededError, AuthError, NetworkError, NoCoverageError } from '../core/errors';
 import { createElement } from '../utils/helpers';
 
 /**
@@ -7,6 +8,7 @@ import { createElement } from '../utils/helpers';
  */
 export interface NoDataMessageOptions {
   provider?: ProviderType;
+  providerName?: string;
   onSearchNearest?: () => void;
   showSearchButton?: boolean;
 }
@@ -21,6 +23,7 @@ export class NoDataMessage {
   private _messageEl: HTMLElement;
   private _buttonEl: HTMLButtonElement | null = null;
   private _onSearchNearest?: () => void;
+  private _providerName?: string;
 
   /**
    * Creates a new NoDataMessage instance.
@@ -29,6 +32,7 @@ export class NoDataMessage {
    */
   constructor(options: NoDataMessageOptions = {}) {
     this._onSearchNearest = options.onSearchNearest;
+    this._providerName = options.providerName;
     this._element = this.createMessage(options);
     this._titleEl = this._element.querySelector(`.${CSS_CLASSES.NO_DATA_TITLE}`)!;
     this._messageEl = this._element.querySelector(`.${CSS_CLASSES.NO_DATA_MESSAGE}`)!;
@@ -57,7 +61,7 @@ export class NoDataMessage {
     ]);
 
     // Message
-    const providerName = options.provider === 'mapillary' ? 'Mapillary' : 'Google Street View';
+    const providerName = this.getProviderName(options.provider);
     const message = createElement('div', { className: CSS_CLASSES.NO_DATA_MESSAGE }, [
       `${providerName} imagery is not available at this location.`,
     ]);
@@ -84,6 +88,15 @@ export class NoDataMessage {
     return container;
   }
 
+  /**
+   * Gets the user-facing name of a provider.
+   */
+  private getProviderName(provider?: ProviderType): string {
+    if (provider === 'mapillary') return 'Mapillary';
+    if (provider === 'google' || !provider) return 'Google Street View';
+    return this._providerName ?? provider;
+  }
+
   /**
    * Gets the message container element.
    */
@@ -137,30 +150,65 @@ export class NoDataMessage {
 
   /**
    * Shows an error state.
+   * Street view errors get a message explaining the cause, other errors show their message.
    *
-   * @param errorMessage - The error message to display
+   * @param error - The error, or a message to display
+   * @param provider - The provider that failed
    */
-  showError(errorMessage: string): void {
+  showError(error: string | Error, provider?: ProviderType): void {
+    if (error instanceof NoCoverageError) {
+      this.reset(provider);
+      return;
+    }
+
+    const { title, message } = this.describeError(error, this.getProviderName(provider));
     this._element.classList.remove('searching');
     this._element.classList.add('error');
-    this._titleEl.textContent = 'Error';
-    this._messageEl.textContent = errorMessage;
+    this._titleEl.textContent = title;
+    this._messageEl.textContent = message;
     if (this._buttonEl) {
       this._buttonEl.disabled = false;
       this._buttonEl.textContent = 'Try Again';
     }
   }
 
+  /**
+   * Gets the title and message shown for an error.
+   */
+  private describeError(error: string | Error, providerName: string): { title: string; message: string } {
+    if (error instanceof QuotaExceededError) {
+      const wait = error.retryAfter ? ` Try again in ${Math.ceil(error.retryAfter)} seconds.` : ' Try again later.';
+      return {
+        title: 'Request Limit Reached',
+        message: `${providerName} is not accepting more requests right now.${wait}`,
+      };
+    }
+    if (error instanceof AuthError) {
+      return {
+        title: 'Access Denied',
+        message: `${providerName} rejected the API key or access token. Check that it is valid and allowed for this site.`,
+      };
+    }
+    if (error instanceof NetworkError) {
+      return {
+        title: 'Connection Problem',
+        message: `${providerName} could not be reached. Check your connection and try again.`,
+      };
+    }
+    return { title: 'Error', message: typeof error === 'string' ? error : error.message };
+  }
+
   /**
    * Resets to the default state.
    *
    * @param provider - The current provider
+   * @param message - Optional text replacing the default message
    */
-  reset(provider?: ProviderType): void {
+  reset(provider?: ProviderType, message?: string): void {
     this._element.classList.remove('searching', 'error');
     this._titleEl.textContent = 'No Street View Coverage';
-    const providerName = provider === 'mapillary' ? 'Mapillary' : 'Google Street View';
-    this._messageEl.textContent = `${providerName} imagery is not available at this location.`;
+    const providerName = this.getProviderName(provider);
+    this._messageEl.textContent = message ?? `${providerName} imagery is not available at this location.`;
     if (this._buttonEl) {
       this._buttonEl.disabled = false;
       this._buttonEl.textContent = 'Search Nearby';
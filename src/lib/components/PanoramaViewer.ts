@@ -0,0 +1,247 @@
+import { CSS_CLASSES } from '../core/constants';
+import { clamp, createElement, normalizeHeading } from '../utils/helpers';
+
+/**
+ * Options for the PanoramaViewer component.
+ */
+export interface PanoramaViewerOptions {
+  /** Called when the user drags or zooms the view */
+  onViewChange?: (heading: number, pitch: number, zoom: number) => void;
+  /** Minimum zoom level. Default: 1 */
+  minZoom?: number;
+  /** Maximum zoom level. Default: 5 */
+  maxZoom?: number;
+}
+
+/**
+ * Lightweight equirectangular panorama viewer with drag-to-look.
+ * The image is drawn as a horizontally repeating background so the view
+ * wraps around seamlessly; zoom controls how much of the 360° x 180° sphere
+ * is visible at once.
+ */
+export class PanoramaViewer {
+  private _element: HTMLElement;
+  private _onViewChange?: (heading: number, pitch: number, zoom: number) => void;
+  private _minZoom: number;
+  private _maxZoom: number;
+
+  private _imageHeading = 0;
+  private _heading = 0;
+  private _pitch = 0;
+  private _zoom = 2;
+
+  private _isDragging = false;
+  private _lastX = 0;
+  private _lastY = 0;
+  private _resizeObserver: ResizeObserver | null = null;
+
+  /**
+   * Creates a new PanoramaViewer instance.
+   *
+   * @param options - Viewer configuration options
+   */
+  constructor(options: PanoramaViewerOptions = {}) {
+    this._onViewChange = options.onViewChange;
+    this._minZoom = options.minZoom ?? 1;
+    this._maxZoom = options.maxZoom ?? 5;
+
+    this._element = createElement('div', { className: CSS_CLASSES.PANORAMA_VIEWER });
+
+    this._element.addEventListener('pointerdown', this.onPointerDown);
+    this._element.addEventListener('wheel', this.onWheel, { passive: false });
+    document.addEventListener('pointermove', this.onPointerMove);
+    document.addEventListener('pointerup', this.onPointerUp);
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this._resizeObserver = new ResizeObserver(() => this.updateView());
+      this._resizeObserver.observe(this._element);
+    }
+  }
+
+  /**
+   * Sets the panorama image.
+   *
+   * @param url - URL of an equirectangular (2:1) image
+   * @param imageHeading - Compass heading at the center of the image
+   */
+  setImage(url: string, imageHeading = 0): void {
+    this._imageHeading = normalizeHeading(imageHeading);
+    this._element.style.backgroundImage = `url("${url.replace(/"/g, '\\"')}")`;
+    this.updateView();
+  }
+
+  /**
+   * Sets the view heading.
+   *
+   * @param heading - The heading (0-360)
+   */
+  setHeading(heading: number): void {
+    this._heading = normalizeHeading(heading);
+    this.updateView();
+  }
+
+  /**
+   * Sets the view pitch. The value is limited by the current zoom level.
+   *
+   * @param pitch - The pitch (-90 to 90)
+   */
+  setPitch(pitch: number): void {
+    this._pitch = this.clampPitch(pitch);
+    this.updateView();
+  }
+
+  /**
+   * Sets the zoom level.
+   *
+   * @param zoom - The zoom level
+   */
+  setZoom(zoom: number): void {
+    this._zoom = clamp(zoom, this._minZoom, this._maxZoom);
+    this._pitch = this.clampPitch(this._pitch);
+    this.updateView();
+  }
+
+  /**
+   * Gets the current view heading.
+   */
+  getHeading(): number {
+    return this._heading;
+  }
+
+  /**
+   * Gets the current view pitch.
+   */
+  getPitch(): number {
+    return this._pitch;
+  }
+
+  /**
+   * Gets the current zoom level.
+   */
+  getZoom(): number {
+    return this._zoom;
+  }
+
+  /**
+   * Gets the horizontal field of view in degrees.
+   */
+  getFieldOfView(): number {
+    const { width } = this.getImageSize();
+    const containerWidth = this._element.clientWidth;
+    if (!width || !containerWidth) {
+      return 360 / (2 * this._zoom);
+    }
+    return Math.min(360, (containerWidth / width) * 360);
+  }
+
+  /**
+   * Gets the rendered size of the panorama image at the current zoom.
+   */
+  private getImageSize(): { width: number; height: number } {
+    const height = this._element.clientHeight * this._zoom;
+    return { width: height * 2, height };
+  }
+
+  /**
+   * Limits the pitch so the view never leaves the image vertically.
+   */
+  private clampPitch(pitch: number): number {
+    const maxPitch = 90 - 90 / this._zoom;
+    return clamp(pitch, -maxPitch, maxPitch);
+  }
+
+  /**
+   * Applies the current heading, pitch and zoom to the background.
+   */
+  private updateView(): void {
+    const { width, height } = this.getImageSize();
+    if (!width || !height) return;
+
+    const containerWidth = this._element.clientWidth;
+    const containerHeight = this._element.clientHeight;
+    const yaw = normalizeHeading(this._heading - this._imageHeading);
+
+    const x = containerWidth / 2 - (width / 2 + (yaw / 360) * width);
+    const y = containerHeight / 2 - (height / 2 - (this._pitch / 180) * height);
+
+    this._element.style.backgroundSize = `${width}px ${height}px`;
+    this._element.style.backgroundPosition = `${x % width}px ${y}px`;
+  }
+
+  /**
+   * Emits the current view to the change callback.
+   */
+  private emitViewChange(): void {
+    this._onViewChange?.(this._heading, this._pitch, this._zoom);
+  }
+
+  /**
+   * Handles drag start.
+   */
+  private onPointerDown = (e: PointerEvent): void => {
+    e.preventDefault();
+    this._isDragging = true;
+    this._lastX = e.clientX;
+    this._lastY = e.clientY;
+    this._element.classList.add('dragging');
+  };
+
+  /**
+   * Handles drag movement.
+   */
+  private onPointerMove = (e: PointerEvent): void => {
+    if (!this._isDragging) return;
+
+    const { width, height } = this.getImageSize();
+    if (!width || !height) return;
+
+    const deltaX = e.clientX - this._lastX;
+    const deltaY = e.clientY - this._lastY;
+    this._lastX = e.clientX;
+    this._lastY = e.clientY;
+
+    // Dragging moves the image, so the view turns the opposite way
+    this._heading = normalizeHeading(this._heading - (deltaX / width) * 360);
+    this._pitch = this.clampPitch(this._pitch + (deltaY / height) * 180);
+    this.updateView();
+    this.emitViewChange();
+  };
+
+  /**
+   * Handles drag end.
+   */
+  private onPointerUp = (): void => {
+    if (!this._isDragging) return;
+    this._isDragging = false;
+    this._element.classList.remove('dragging');
+  };
+
+  /**
+   * Handles mouse wheel zoom.
+   */
+  private onWheel = (e: WheelEvent): void => {
+    e.preventDefault();
+    this.setZoom(this._zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1));
+    this.emitViewChange();
+  };
+
+  /**
+   * Gets the viewer element.
+   */
+  getElement(): HTMLElement {
+    return this._element;
+  }
+
+  /**
+   * Cleans up event listeners.
+   */
+  destroy(): void {
+    this._element.removeEventListener('pointerdown', this.onPointerDown);
+    this._element.removeEventListener('wheel', this.onWheel);
+    document.removeEventListener('pointermove', this.onPointerMove);
+    document.removeEventListener('pointerup', this.onPointerUp);
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = null;
+    this._element.remove();
+  }
+}
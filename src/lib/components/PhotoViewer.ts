@@ -0,0 +1,114 @@
+import { CSS_CLASSES } from '../core/constants';
+import { createElement } from '../utils/helpers';
+
+/**
+ * Options for the PhotoViewer component.
+ */
+export interface PhotoViewerOptions {
+  showNavigation?: boolean;
+  onPrevious?: () => void;
+  onNext?: () => void;
+}
+
+/**
+ * Simple flat photo viewer with previous/next navigation.
+ * Used by providers that serve plain images instead of an interactive viewer.
+ */
+export class PhotoViewer {
+  private _element: HTMLElement;
+  private _image: HTMLImageElement;
+  private _prevButton: HTMLButtonElement;
+  private _nextButton: HTMLButtonElement;
+
+  /**
+   * Creates a new PhotoViewer instance.
+   *
+   * @param options - Viewer configuration options
+   */
+  constructor(options: PhotoViewerOptions = {}) {
+    this._element = createElement('div', { className: CSS_CLASSES.PHOTO_VIEWER });
+
+    this._image = createElement('img', {
+      className: CSS_CLASSES.PHOTO_VIEWER_IMAGE,
+      alt: 'Street-level photo',
+    });
+
+    this._prevButton = this.createNavButton(
+      CSS_CLASSES.PHOTO_VIEWER_PREV,
+      'Previous photo',
+      'M15.41 7.41 14 6l-6 6 6 6 1.41-1.41L10.83 12z',
+      options.onPrevious
+    );
+    this._nextButton = this.createNavButton(
+      CSS_CLASSES.PHOTO_VIEWER_NEXT,
+      'Next photo',
+      'M8.59 16.59 10 18l6-6-6-6-1.41 1.41L13.17 12z',
+      options.onNext
+    );
+
+    this._element.appendChild(this._image);
+    if (options.showNavigation !== false) {
+      this._element.appendChild(this._prevButton);
+      this._element.appendChild(this._nextButton);
+    }
+
+    this.setNavigation(false, false);
+  }
+
+  /**
+   * Creates a navigation button.
+   */
+  private createNavButton(className: string, label: string, path: string, onClick?: () => void): HTMLButtonElement {
+    const button = createElement('button', {
+      className: `${CSS_CLASSES.PHOTO_VIEWER_NAV} ${className}`,
+      type: 'button',
+      'aria-label': label,
+      title: label,
+    });
+    button.innerHTML = `
+      <svg viewBox="0 0 24 24" fill="currentColor">
+        <path d="${path}"/>
+      </svg>
+    `;
+    button.addEventListener('click', () => onClick?.());
+    return button;
+  }
+
+  /**
+   * Sets the displayed image.
+   *
+   * @param url - The image URL
+   * @param alt - Optional alternative text
+   */
+  setImage(url: string, alt?: string): void {
+    this._image.src = url;
+    if (alt) {
+      this._image.alt = alt;
+    }
+  }
+
+  /**
+   * Enables or disables the navigation buttons.
+   *
+   * @param hasPrevious - Whether a previous photo is available
+   * @param hasNext - Whether a next photo is available
+   */
+  setNavigation(hasPrevious: boolean, hasNext: boolean): void {
+    this._prevButton.disabled = !hasPrevious;
+    this._nextButton.disabled = !hasNext;
+  }
+
+  /**
+   * Gets the viewer element.
+   */
+  getElement(): HTMLElement {
+    return this._element;
+  }
+
+  /**
+   * Cleans up the component.
+   */
+  destroy(): void {
+    this._element.remove();
+  }
+}
@@ -1,24 +1,34 @@
 import { CSS_CLASSES } from '../core/constants';
-import type { ProviderType } from '../core/types';
+import type { ProviderType, IStreetViewProvider } from '../core/types';
 import { createElement } from '../utils/helpers';
 
 /**
  * Options for the ProviderTabs component.
  */
 export interface ProviderTabsOptions {
-  providers: ProviderType[];
+  providers: IStreetViewProvider[];
   activeProvider: ProviderType;
   disabledProviders?: ProviderType[];
   onSelect: (provider: ProviderType) => void;
 }
 
+/**
+ * Icon used for providers that do not supply their own.
+ */
+const DEFAULT_PROVIDER_ICON = `
+  <svg viewBox="0 0 24 24" fill="currentColor">
+    <path d="M12 15.2a3.2 3.2 0 1 0 0-6.4 3.2 3.2 0 0 0 0 6.4z"/>
+    <path d="M9 2 7.17 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2h-3.17L15 2H9zm3 15c-2.76 0-5-2.24-5-5s2.24-5 5-5 5 2.24 5 5-2.24 5-5 5z"/>
+  </svg>
+`;
+
 /**
  * Provider selection tabs component.
- * Allows users to switch between Google Street View and Mapillary.
+ * Renders one tab per registered provider and allows users to switch between them.
  */
 export class ProviderTabs {
   private _element: HTMLElement;
-  private _providers: ProviderType[];
+  private _providers: IStreetViewProvider[];
   private _activeProvider: ProviderType;
   private _disabledProviders: Set<ProviderType>;
   private _onSelect: (provider: ProviderType) => void;
@@ -35,64 +45,55 @@ export class ProviderTabs {
     this._disabledProviders = new Set(options.disabledProviders ?? []);
     this._onSelect = options.onSelect;
 
-    this._element = this.createTabs();
+    this._element = createElement('div', { className: CSS_CLASSES.PROVIDER_TABS });
+    this.createTabs();
   }
 
   /**
-   * Creates the tabs container with tab buttons.
+   * Creates the tab buttons inside the tabs container.
    */
-  private createTabs(): HTMLElement {
-    const container = createElement('div', { className: CSS_CLASSES.PROVIDER_TABS });
-
-    if (this._providers.length === 1) {
-      container.classList.add('single-provider');
-    }
-
-    for (const provider of ['google', 'mapillary'] as ProviderType[]) {
+  private createTabs(): void {
+    for (const provider of this._providers) {
       const tab = this.createTab(provider);
-      this._tabs.set(provider, tab);
-      container.appendChild(tab);
+      this._tabs.set(provider.name, tab);
+      this._element.appendChild(tab);
     }
 
-    return container;
+    this.updateSingleProviderClass();
   }
 
   /**
    * Creates a single tab button.
    */
-  private createTab(provider: ProviderType): HTMLButtonElement {
-    const isAvailable = this._providers.includes(provider);
-    const isActive = provider === this._activeProvider;
-    const isDisabled = this._disabledProviders.has(provider) || !isAvailable;
+  private createTab(provider: IStreetViewProvider): HTMLButtonElement {
+    const isActive = provider.name === this._activeProvider;
 
     const tab = document.createElement('button');
     tab.className = CSS_CLASSES.PROVIDER_TAB;
-    tab.dataset.provider = provider;
+    tab.dataset.provider = provider.name;
 
     if (isActive) {
       tab.classList.add(CSS_CLASSES.PROVIDER_TAB_ACTIVE);
     }
 
-    if (isDisabled) {
+    if (!this.isAvailable(provider)) {
       tab.disabled = true;
     }
 
     // Provider icon
     const icon = createElement('span', { className: 'provider-icon' });
-    icon.innerHTML = this.getProviderIcon(provider);
+    icon.innerHTML = provider.icon ?? DEFAULT_PROVIDER_ICON;
 
     // Provider label
-    const label = createElement('span', { className: 'provider-label' }, [
-      this.getProviderLabel(provider),
-    ]);
+    const label = createElement('span', { className: 'provider-label' }, [provider.displayName]);
 
     tab.appendChild(icon);
     tab.appendChild(label);
 
     tab.addEventListener('click', () => {
       if (!tab.disabled) {
-        this.setActive(provider);
-        this._onSelect(provider);
+        this.setActive(provider.name);
+        this._onSelect(provider.name);
       }
     });
 
@@ -100,29 +101,18 @@ export class ProviderTabs {
   }
 
   /**
-   * Gets the icon SVG for a provider.
+   * Checks whether a provider can be selected.
    */
-  private getProviderIcon(provider: ProviderType): string {
-    if (provider === 'google') {
-      return `
-        <svg viewBox="0 0 24 24" fill="currentColor">
-          <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/>
-        </svg>
-      `;
-    }
-    return `
-      <svg viewBox="0 0 24 24" fill="currentColor">
-        <circle cx="12" cy="12" r="10"/>
-        <circle cx="12" cy="12" r="4" fill="white"/>
-      </svg>
-    `;
+  private isAvailable(provider: IStreetViewProvider): boolean {
+    return provider.isConfigured() && !this._disabledProviders.has(provider.name);
   }
 
   /**
-   * Gets the display label for a provider.
+   * Toggles the single-provider class based on the number of selectable tabs.
    */
-  private getProviderLabel(provider: ProviderType): string {
-    return provider === 'google' ? 'Google' : 'Mapillary';
+  private updateSingleProviderClass(): void {
+    const available = this._providers.filter((provider) => this.isAvailable(provider));
+    this._element.classList.toggle('single-provider', available.length === 1);
   }
 
   /**
@@ -168,34 +158,31 @@ export class ProviderTabs {
    * @param enabled - Whether to enable the tab
    */
   setEnabled(provider: ProviderType, enabled: boolean): void {
+    if (enabled) {
+      this._disabledProviders.delete(provider);
+    } else {
+      this._disabledProviders.add(provider);
+    }
+
     const tab = this._tabs.get(provider);
-    if (tab) {
-      tab.disabled = !enabled;
-      if (enabled) {
-        this._disabledProviders.delete(provider);
-      } else {
-        this._disabledProviders.add(provider);
-      }
+    const instance = this._providers.find((p) => p.name === provider);
+    if (tab && instance) {
+      tab.disabled = !this.isAvailable(instance);
     }
+
+    this.updateSingleProviderClass();
   }
 
   /**
-   * Updates the available providers.
+   * Replaces the registered providers and rebuilds the tabs.
    *
-   * @param providers - Array of available providers
+   * @param providers - Array of registered providers, in tab order
    */
-  setProviders(providers: ProviderType[]): void {
+  setProviders(providers: IStreetViewProvider[]): void {
     this._providers = providers;
-    for (const [provider, tab] of this._tabs) {
-      const isAvailable = providers.includes(provider);
-      tab.disabled = !isAvailable || this._disabledProviders.has(provider);
-    }
-
-    if (providers.length === 1) {
-      this._element.classList.add('single-provider');
-    } else {
-      this._element.classList.remove('single-provider');
-    }
+    this._tabs.clear();
+    this._element.replaceChildren();
+    this.createTabs();
   }
 
   /**
@@ -0,0 +1,167 @@
+import { CSS_CLASSES, ROUTE_SPEEDS } from '../core/constants';
+import { createElement } from '../utils/helpers';
+
+/**
+ * Options for the RouteControls component.
+ */
+export interface RouteControlsOptions {
+  onPlay?: () => void;
+  onPause?: () => void;
+  onSeek?: (step: number) => void;
+  onSpeedChange?: (speed: number) => void;
+  onClose?: () => void;
+}
+
+const PLAY_ICON = `
+  <svg viewBox="0 0 24 24" fill="currentColor">
+    <path d="M8 5v14l11-7z"/>
+  </svg>
+`;
+
+const PAUSE_ICON = `
+  <svg viewBox="0 0 24 24" fill="currentColor">
+    <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
+  </svg>
+`;
+
+/**
+ * Play, pause, speed and scrub controls of a route drive-through.
+ * The controls are hidden while no route is loaded.
+ */
+export class RouteControls {
+  private _element: HTMLElement;
+  private _playButton: HTMLButtonElement;
+  private _slider: HTMLInputElement;
+  private _stepLabel: HTMLElement;
+  private _speedSelect: HTMLSelectElement;
+  private _options: RouteControlsOptions;
+  private _playing = false;
+
+  /**
+   * Creates a new RouteControls instance.
+   *
+   * @param options - Route controls configuration options
+   */
+  constructor(options: RouteControlsOptions = {}) {
+    this._options = options;
+
+    this._playButton = createElement('button', { className: CSS_CLASSES.ROUTE_PLAY, type: 'button' });
+    this._playButton.addEventListener('click', () => {
+      if (this._playing) {
+        this._options.onPause?.();
+      } else {
+        this._options.onPlay?.();
+      }
+    });
+
+    this._slider = createElement('input', {
+      className: CSS_CLASSES.ROUTE_SLIDER,
+      type: 'range',
+      min: '0',
+      step: '1',
+      'aria-label': 'Route step',
+    });
+    this._slider.addEventListener('change', () => this._options.onSeek?.(Number(this._slider.value)));
+
+    this._stepLabel = createElement('span', { className: CSS_CLASSES.ROUTE_STEP });
+
+    this._speedSelect = createElement(
+      'select',
+      { className: CSS_CLASSES.ROUTE_SPEED, 'aria-label': 'Playback speed' },
+      ROUTE_SPEEDS.map((speed) => createElement('option', { value: String(speed) }, [`${speed}×`]))
+    );
+    this._speedSelect.addEventListener('change', () => this._options.onSpeedChange?.(Number(this._speedSelect.value)));
+
+    const closeButton = createElement('button', {
+      className: CSS_CLASSES.ROUTE_CLOSE,
+      type: 'button',
+      'aria-label': 'Stop route',
+    });
+    closeButton.innerHTML = `
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+        <path d="M18 6L6 18M6 6l12 12"/>
+      </svg>
+    `;
+    closeButton.addEventListener('click', () => this._options.onClose?.());
+
+    this._element = createElement('div', { className: CSS_CLASSES.ROUTE_CONTROLS }, [
+      this._playButton,
+      this._slider,
+      this._stepLabel,
+      this._speedSelect,
+      closeButton,
+    ]);
+    this.setPlaying(false);
+    this.clear();
+  }
+
+  /**
+   * Shows the controls for a route.
+   *
+   * @param total - The number of steps
+   * @param speed - The playback speed
+   */
+  setRoute(total: number, speed: number): void {
+    this._slider.max = String(Math.max(total - 1, 0));
+    this.setSpeed(speed);
+    this.setProgress(0, total);
+    this._element.style.display = '';
+  }
+
+  /**
+   * Moves the slider to a step.
+   *
+   * @param step - The index of the current step
+   * @param total - The number of steps
+   */
+  setProgress(step: number, total: number): void {
+    this._slider.value = String(step);
+    this._stepLabel.textContent = `${step + 1} / ${total}`;
+  }
+
+  /**
+   * Shows the play or the pause button.
+   *
+   * @param playing - Whether the route is playing
+   */
+  setPlaying(playing: boolean): void {
+    this._playing = playing;
+    this._playButton.innerHTML = playing ? PAUSE_ICON : PLAY_ICON;
+    this._playButton.setAttribute('aria-label', playing ? 'Pause route' : 'Play route');
+  }
+
+  /**
+   * Selects a playback speed, adding it to the list if it is not offered.
+   *
+   * @param speed - The playback speed
+   */
+  setSpeed(speed: number): void {
+    const value = String(speed);
+    if (!Array.from(this._speedSelect.options).some((option) => option.value === value)) {
+      this._speedSelect.appendChild(createElement('option', { value }, [`${speed}×`]));
+    }
+    this._speedSelect.value = value;
+  }
+
+  /**
+   * Hides the controls.
+   */
+  clear(): void {
+    this.setPlaying(false);
+    this._element.style.display = 'none';
+  }
+
+  /**
+   * Gets the route controls element.
+   */
+  getElement(): HTMLElement {
+    return this._element;
+  }
+
+  /**
+   * Cleans up the component.
+   */
+  destroy(): void {
+    this._element.remove();
+  }
+}
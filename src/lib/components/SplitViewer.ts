@@ -0,0 +1,267 @@
+import type { LngLat } from 'maplibre-gl';
+import { CSS_CLASSES } from '../core/constants';
+import type { ImageryResult, IStreetViewProvider } from '../core/types';
+import { calculateDistance } from '../utils/geo';
+import { createElement, headingDifference } from '../utils/helpers';
+import { Viewer } from './Viewer';
+import { NoDataMessage } from './NoDataMessage';
+
+/**
+ * A side of the split viewer.
+ */
+export type SplitSide = 'left' | 'right';
+
+/**
+ * Options for the SplitViewer component.
+ */
+export interface SplitViewerOptions {
+  onHeadingChange?: (heading: number, side: SplitSide) => void;
+}
+
+const SIDES: SplitSide[] = ['left', 'right'];
+
+/**
+ * Two viewers side by side, showing imagery of two providers, or of two capture
+ * dates of one provider, for the same location.
+ * Headings are linked once both providers report them, and the divider shows
+ * capture dates and distances from the requested location.
+ */
+export class SplitViewer {
+  private _element: HTMLElement;
+  private _viewers: Record<SplitSide, Viewer>;
+  private _labels: Record<SplitSide, HTMLElement>;
+  private _messages: Record<SplitSide, NoDataMessage | null> = { left: null, right: null };
+  private _imagery: Record<SplitSide, ImageryResult | null> = { left: null, right: null };
+  private _headings: Record<SplitSide, number | null> = { left: null, right: null };
+  private _location: LngLat | null = null;
+  private _onHeadingChange?: (heading: number, side: SplitSide) => void;
+
+  /**
+   * Creates a new SplitViewer instance.
+   *
+   * @param options - Split viewer configuration options
+   */
+  constructor(options: SplitViewerOptions = {}) {
+    this._onHeadingChange = options.onHeadingChange;
+
+    this._viewers = {
+      left: this.createViewer('left'),
+      right: this.createViewer('right'),
+    };
+    this._labels = {
+      left: createElement('div', { className: `${CSS_CLASSES.SPLIT_LABEL} ${CSS_CLASSES.SPLIT_LABEL}-left` }),
+      right: createElement('div', { className: `${CSS_CLASSES.SPLIT_LABEL} ${CSS_CLASSES.SPLIT_LABEL}-right` }),
+    };
+
+    const divider = createElement('div', { className: CSS_CLASSES.SPLIT_DIVIDER }, [
+      createElement('div', { className: CSS_CLASSES.SPLIT_INFO }, [this._labels.left, this._labels.right]),
+    ]);
+
+    this._element = createElement('div', { className: CSS_CLASSES.SPLIT_VIEWER }, [
+      this._viewers.left.getElement(),
+      divider,
+      this._viewers.right.getElement(),
+    ]);
+  }
+
+  /**
+   * Creates the viewer of one side.
+   */
+  private createViewer(side: SplitSide): Viewer {
+    return new Viewer({
+      onHeadingChange: (heading) => this.handleHeadingChange(side, heading),
+      onLocationChange: (location) => this.handleLocationChange(side, location),
+    });
+  }
+
+  /**
+   * Turns the other side to a heading reported by one side. Sides that never
+   * reported a heading, e.g. the Google embed, are left alone.
+   */
+  private handleHeadingChange(side: SplitSide, heading: number): void {
+    this._headings[side] = heading;
+    this._onHeadingChange?.(heading, side);
+
+    const other: SplitSide = side === 'left' ? 'right' : 'left';
+    const otherHeading = this._headings[other];
+    const provider = this._viewers[other].getCurrentProvider();
+    if (otherHeading === null || !provider?.setHeading) return;
+
+    // The other side echoes the heading back; small differences end the loop
+    if (headingDifference(heading, otherHeading) < 1) return;
+
+    this._headings[other] = heading;
+    void provider.setHeading(heading);
+  }
+
+  /**
+   * Updates the distance of a side when the user moves in its viewer.
+   */
+  private handleLocationChange(side: SplitSide, location: LngLat): void {
+    const imagery = this._imagery[side];
+    if (!imagery) return;
+    this._imagery[side] = { ...imagery, location };
+    this.updateLabel(side);
+  }
+
+  /**
+   * Updates the divider label of a side.
+   */
+  private updateLabel(side: SplitSide): void {
+    const imagery = this._imagery[side];
+    const provider = this._viewers[side].getCurrentProvider();
+    if (!imagery || !provider || !this._location) {
+      this._labels[side].textContent = '';
+      return;
+    }
+
+    const date = imagery.capturedAt ? imagery.capturedAt.toLocaleDateString() : 'Unknown date';
+    const distance = Math.round(calculateDistance(this._location, imagery.location));
+    this._labels[side].textContent = `${provider.displayName}: ${date} · ${distance} m`;
+  }
+
+  /**
+   * Removes the no data message of a side.
+   */
+  private clearMessage(side: SplitSide): void {
+    this._messages[side]?.destroy();
+    this._messages[side] = null;
+  }
+
+  /**
+   * Sets the location both sides are compared at.
+   *
+   * @param location - The requested location
+   */
+  setLocation(location: LngLat): void {
+    this._location = location;
+    for (const side of SIDES) {
+      this.updateLabel(side);
+    }
+  }
+
+  /**
+   * Shows the loading state of a side.
+   *
+   * @param side - The side
+   * @param message - Optional loading message
+   */
+  showLoading(side: SplitSide, message?: string): void {
+    this._viewers[side].showLoading(message);
+  }
+
+  /**
+   * Displays imagery on a side.
+   *
+   * @param side - The side
+   * @param provider - The street view provider
+   * @param imagery - The imagery to display
+   */
+  displayImagery(side: SplitSide, provider: IStreetViewProvider, imagery: ImageryResult): void {
+    const viewer = this._viewers[side];
+    const previous = this._imagery[side];
+    // A side already showing live imagery of the provider moves to the image in place
+    const navigate =
+      provider.navigateToImage &&
+      viewer.getCurrentProvider() === provider &&
+      !this._messages[side] &&
+      previous !== null &&
+      !previous.stale &&
+      !imagery.stale;
+
+    this.clearMessage(side);
+    this._imagery[side] = imagery;
+    this._headings[side] = null;
+    if (navigate) {
+      viewer.hideLoading();
+      void provider.navigateToImage?.(imagery.id);
+    } else {
+      viewer.displayImagery(provider, imagery);
+    }
+    this.updateLabel(side);
+  }
+
+  /**
+   * Shows why a side has no imagery.
+   *
+   * @param side - The side
+   * @param provider - The provider of the side
+   * @param error - The error or message to show
+   */
+  showError(side: SplitSide, provider: IStreetViewProvider, error: string | Error): void {
+    this.showMessage(side, provider).showError(error, provider.name);
+  }
+
+  /**
+   * Shows that a side has no imagery, e.g. none captured near its date.
+   *
+   * @param side - The side
+   * @param provider - The provider of the side
+   * @param text - The message to show
+   */
+  showNoImagery(side: SplitSide, provider: IStreetViewProvider, text: string): void {
+    this.showMessage(side, provider).reset(provider.name, text);
+  }
+
+  /**
+   * Replaces the imagery of a side with a message.
+   */
+  private showMessage(side: SplitSide, provider: IStreetViewProvider): NoDataMessage {
+    const viewer = this._viewers[side];
+    this.clearMessage(side);
+    viewer.clearContent();
+    this._imagery[side] = null;
+    this._headings[side] = null;
+    this._labels[side].textContent = `${provider.displayName}: no imagery`;
+
+    const message = new NoDataMessage({
+      provider: provider.name,
+      providerName: provider.displayName,
+      showSearchButton: false,
+    });
+    viewer.getElement().appendChild(message.getElement());
+    this._messages[side] = message;
+    return message;
+  }
+
+  /**
+   * Shows the initial state on both sides.
+   */
+  showInitialState(): void {
+    this._location = null;
+    for (const side of SIDES) {
+      this.clearMessage(side);
+      this._imagery[side] = null;
+      this._headings[side] = null;
+      this._viewers[side].showInitialState();
+      this.updateLabel(side);
+    }
+  }
+
+  /**
+   * Gets the viewer of a side.
+   *
+   * @param side - The side
+   */
+  getViewer(side: SplitSide): Viewer {
+    return this._viewers[side];
+  }
+
+  /**
+   * Gets the split viewer element.
+   */
+  getElement(): HTMLElement {
+    return this._element;
+  }
+
+  /**
+   * Cleans up the component.
+   */
+  destroy(): void {
+    for (const side of SIDES) {
+      this.clearMessage(side);
+      this._viewers[side].destroy();
+    }
+    this._element.remove();
+  }
+}
@@ -0,0 +1,151 @@
+import type { LngLat } from 'maplibre-gl';
+import { CSS_CLASSES } from '../core/constants';
+import type { ImageryResult } from '../core/types';
+import { calculateDistance } from '../utils/geo';
+import { createElement } from '../utils/helpers';
+import { toDateKey } from '../utils/dates';
+
+/**
+ * Options for the Timeline component.
+ */
+export interface TimelineOptions {
+  onSelect?: (imagery: ImageryResult) => void;
+}
+
+/**
+ * Imagery captured on one day near a location.
+ */
+interface TimelineEntry {
+  key: string;
+  date: Date;
+  imagery: ImageryResult[];
+}
+
+/**
+ * Timeline of the imagery captured near a location, one item per capture date.
+ * Picking a date selects the image of that date closest to the location.
+ * The timeline is hidden while there is no dated imagery.
+ */
+export class Timeline {
+  private _element: HTMLElement;
+  private _onSelect?: (imagery: ImageryResult) => void;
+  private _entries: TimelineEntry[] = [];
+  private _items: Map<string, HTMLButtonElement> = new Map();
+
+  /**
+   * Creates a new Timeline instance.
+   *
+   * @param options - Timeline configuration options
+   */
+  constructor(options: TimelineOptions = {}) {
+    this._onSelect = options.onSelect;
+    this._element = createElement('div', { className: CSS_CLASSES.TIMELINE });
+    this.clear();
+  }
+
+  /**
+   * Groups dated imagery by capture day, oldest first, closest image first within a day.
+   */
+  private groupByDate(imagery: ImageryResult[], location: LngLat): TimelineEntry[] {
+    const entries = new Map<string, TimelineEntry>();
+    const seen = new Set<string>();
+
+    for (const image of imagery) {
+      if (!image.capturedAt || Number.isNaN(image.capturedAt.getTime()) || seen.has(image.id)) continue;
+      seen.add(image.id);
+
+      const key = toDateKey(image.capturedAt);
+      const entry = entries.get(key) ?? { key, date: image.capturedAt, imagery: [] };
+      entry.imagery.push(image);
+      entries.set(key, entry);
+    }
+
+    for (const entry of entries.values()) {
+      entry.imagery.sort(
+        (a, b) => calculateDistance(location, a.location) - calculateDistance(location, b.location)
+      );
+    }
+    return Array.from(entries.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Creates the button of a date.
+   */
+  private createItem(entry: TimelineEntry): HTMLButtonElement {
+    const count = entry.imagery.length;
+    const label = entry.date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+    const item = createElement('button', { className: CSS_CLASSES.TIMELINE_ITEM, type: 'button' }, [label]);
+    item.dataset.date = entry.key;
+    item.title = `${count} ${count === 1 ? 'image' : 'images'} captured on ${label}`;
+    item.addEventListener('click', () => {
+      this.setActive(entry.imagery[0]);
+      this._onSelect?.(entry.imagery[0]);
+    });
+    return item;
+  }
+
+  /**
+   * Lists the imagery captured near a location.
+   *
+   * @param imagery - The imagery found near the location
+   * @param location - The location, used to pick the closest image of each date
+   * @param current - The imagery currently shown, marked as active
+   */
+  setImagery(imagery: ImageryResult[], location: LngLat, current: ImageryResult | null = null): void {
+    this.clear();
+    this._entries = this.groupByDate(imagery, location);
+    if (this._entries.length === 0) return;
+
+    for (const entry of this._entries) {
+      const item = this.createItem(entry);
+      this._items.set(entry.key, item);
+      this._element.appendChild(item);
+    }
+    this._element.style.display = '';
+    this.setActive(current);
+  }
+
+  /**
+   * Marks the date of an image as active.
+   *
+   * @param imagery - The imagery shown, or null to mark no date
+   */
+  setActive(imagery: ImageryResult | null): void {
+    const entry = imagery
+      ? this._entries.find((candidate) => candidate.imagery.some((image) => image.id === imagery.id))
+      : undefined;
+
+    for (const [key, item] of this._items) {
+      item.classList.toggle(CSS_CLASSES.TIMELINE_ITEM_ACTIVE, key === entry?.key);
+    }
+    if (entry) {
+      this._items.get(entry.key)?.scrollIntoView?.({ block: 'nearest', inline: 'nearest' });
+    }
+  }
+
+  /**
+   * Removes all dates and hides the timeline.
+   */
+  clear(): void {
+    this._entries = [];
+    this._items.clear();
+    this._element.replaceChildren();
+    this._element.style.display = 'none';
+  }
+
+  /**
+   * Gets the timeline element.
+   */
+  getElement(): HTMLElement {
+    return this._element;
+  }
+
+  /**
+   * Cleans up the component.
+   */
+  destroy(): void {
+    this.clear();
+    this._element.remove();
+  }
+}
@@ -132,14 +132,36 @@ export class Viewer {
    *
    * @param provider - The street view provider
    * @param imagery - The imagery to display
+   * @param heading - Optional heading to face
    */
-  displayImagery(provider: IStreetViewProvider, imagery: ImageryResult): void {
+  displayImagery(provider: IStreetViewProvider, imagery: ImageryResult, heading?: number): void {
     this.clearContent();
 
     this._currentProvider = provider;
     provider.onHeadingChange(this._headingCallback);
     provider.onLocationChange(this._locationCallback);
-    provider.render(this._element, imagery);
+    if (heading === undefined) {
+      provider.render(this._element, imagery);
+    } else {
+      provider.render(this._element, imagery, heading);
+    }
+
+    if (imagery.stale) {
+      const badge = createElement('div', { className: CSS_CLASSES.VIEWER_STALE }, ['Offline · cached imagery']);
+      badge.title = 'The imagery could not be refreshed and may be out of date.';
+      this._element.appendChild(badge);
+    }
+  }
+
+  /**
+   * Shows a short notice over the imagery, until other content is displayed.
+   *
+   * @param message - The notice text
+   */
+  showNotice(message: string): void {
+    this._element.querySelector(`.${CSS_CLASSES.VIEWER_NOTICE}`)?.remove();
+    const notice = createElement('div', { className: CSS_CLASSES.VIEWER_NOTICE }, [message]);
+    this._element.appendChild(notice);
   }
 
   /**
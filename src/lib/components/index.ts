@@ -8,7 +8,23 @@ export type { ProviderTabsOptions } from './ProviderTabs';
 export { Viewer } from './Viewer';
 export type { ViewerOptions } from './Viewer';
 
+export { SplitViewer } from './SplitViewer';
+export type { SplitViewerOptions, SplitSide } from './SplitViewer';
+
+export { Timeline } from './Timeline';
+export type { TimelineOptions } from './Timeline';
+
+export { RouteControls } from './RouteControls';
+export type { RouteControlsOptions } from './RouteControls';
+
 export { StreetViewMarker } from './Marker';
+export type { MarkerDragHandlers } from './Marker';
 
 export { NoDataMessage } from './NoDataMessage';
 export type { NoDataMessageOptions } from './NoDataMessage';
+
+export { PhotoViewer } from './PhotoViewer';
+export type { PhotoViewerOptions } from './PhotoViewer';
+
+export { PanoramaViewer } from './PanoramaViewer';
+export type { PanoramaViewerOptions } from './PanoramaViewer';
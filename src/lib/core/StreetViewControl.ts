@@ -1,4 +1,4 @@
-import type { IControl, Map as MapLibreMap, MapMouseEvent, LngLat } from 'maplibre-gl';
+import type { IControl, Map as MapLibreMap, MapMouseEvent, LngLat, LngLatLike, LayerSpecification } from 'maplibre-gl';
 import type {
   StreetViewControlOptions,
   StreetViewState,
@@ -8,12 +8,72 @@ import type {
   ProviderType,
   ControlPosition,
   IStreetViewProvider,
+  ImageryCacheStats,
+  PrefetchAreaOptions,
+  RetryOptions,
+  StreetViewCredentials,
+  MarkerOptions,
+  ImageryResult,
+  DateRange,
+  ImageryFilters,
+  FollowMode,
+  RouteInput,
+  RouteOptions,
+  RouteProgress,
 } from './types';
-import { DEFAULT_OPTIONS, CSS_CLASSES } from './constants';
-import { Panel, ProviderTabs, Viewer, StreetViewMarker, NoDataMessage } from '../components';
-import { GoogleStreetViewProvider, MapillaryProvider } from '../providers';
-import { createElement, generateId } from '../utils/helpers';
-import { toLngLat } from '../utils/geo';
+import {
+  DEFAULT_OPTIONS,
+  DEFAULT_RETRY_OPTIONS,
+  DEFAULT_ROUTE_OPTIONS,
+  CSS_CLASSES,
+  FOLLOW_OPTIONS,
+  MAP_SYNC_OPTIONS,
+  MARKER_DRAG_OPTIONS,
+  PREFETCH_OPTIONS,
+  TIMELINE_OPTIONS,
+  DATE_COMPARISON_OPTIONS,
+} from './constants';
+import { NetworkError, NoCoverageError, StreetViewError } from './errors';
+import {
+  Panel,
+  ProviderTabs,
+  Viewer,
+  SplitViewer,
+  Timeline,
+  RouteControls,
+  StreetViewMarker,
+  NoDataMessage,
+} from '../components';
+import type { SplitSide } from '../components';
+import { GoogleStreetViewProvider, GoogleMapsJsProvider, MapillaryProvider } from '../providers';
+import { clamp, createElement, generateId, headingDifference, normalizeHeading, zoomToFieldOfView } from '../utils/helpers';
+import { toLngLat, createBbox, createGrid, calculateDistance, calculateBearing, sampleLine } from '../utils/geo';
+import { isAbortError } from '../utils/api';
+import { getDateRangeBounds, isInDateRange, parseDate } from '../utils/dates';
+import { ImageryQueryCache } from '../utils/cache';
+import { TokenBucket } from '../utils/rateLimit';
+
+/** The providers shown side by side in split mode, left first */
+type SplitProviders = [IStreetViewProvider, IStreetViewProvider];
+
+/** Two capture dates compared side by side, with the provider and its clone showing them */
+interface DateComparison {
+  dates: [Date, Date];
+  providers: SplitProviders;
+}
+
+/** A route being driven through, sampled into steps */
+interface ActiveRoute {
+  points: LngLat[];
+  headings: number[];
+  step: number;
+  imagery: ImageryResult | null;
+  playing: boolean;
+  // Whether the playback reached the last step, which emits routeend
+  ended: boolean;
+  speed: number;
+  stepDuration: number;
+}
 
 /**
  * Street View control for MapLibre GL JS.
@@ -30,12 +90,18 @@ export class StreetViewControl implements IControl {
   private _panel: Panel | null = null;
   private _tabs: ProviderTabs | null = null;
   private _viewer: Viewer | null = null;
+  private _splitViewer: SplitViewer | null = null;
+  private _splitProviders: SplitProviders | null = null;
+  private _dateComparison: DateComparison | null = null;
+  private _timeline: Timeline | null = null;
+  private _timelineProvider: IStreetViewProvider | null = null;
+  private _timelineRequestId = 0;
+  private _routeControls: RouteControls | null = null;
   private _noDataMessage: NoDataMessage | null = null;
   private _marker: StreetViewMarker | null = null;
 
-  // Providers
-  private _googleProvider: GoogleStreetViewProvider | null = null;
-  private _mapillaryProvider: MapillaryProvider | null = null;
+  // Providers, keyed by name in registration (tab) order
+  private _providers: Map<ProviderType, IStreetViewProvider> = new Map();
 
   // State - always start collapsed, expand() will be called in onAdd if needed
   private _state: StreetViewState = {
@@ -55,8 +121,43 @@ export class StreetViewControl implements IControl {
   // Event handlers
   private _eventHandlers: Map<StreetViewEvent, Set<StreetViewEventHandler>> = new Map();
 
+  // Coverage layers currently added to the map
+  private _coverageSourceIds: string[] = [];
+  private _coverageLayerIds: string[] = [];
+  private _coveragePending = false;
+  private _coverageListeners: Map<IStreetViewProvider, () => void> = new Map();
+
+  // Imagery lookups shared by all providers
+  private _cache: ImageryQueryCache | null = null;
+
+  // Providers switched off with setProviderEnabled()
+  private _disabledProviders: Set<ProviderType> = new Set();
+
+  // Retry settings and a rate limiter per provider name, applied to provider requests
+  private _retryOptions: Required<RetryOptions> | null = null;
+  private _rateLimiters: Map<ProviderType, TokenBucket> = new Map();
+
+  // Controller for the imagery request in flight
+  private _abortController: AbortController | null = null;
+
+  // Route drive-through and the timer of its next step
+  private _route: ActiveRoute | null = null;
+  private _routeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // While the marker is dragged, coverage is shown and the imagery it snaps to is highlighted
+  private _markerDragging = false;
+  private _dragLocation: LngLat | null = null;
+  private _dragTimer: ReturnType<typeof setTimeout> | null = null;
+  private _dragAbortController: AbortController | null = null;
+
+  // Following the viewer is suspended until this time after a manual map move
+  private _followSuspendedUntil = 0;
+
   // Bound handlers for cleanup
   private _onMapClick: (e: MapMouseEvent) => void;
+  private _onMapMove: (e: { originalEvent?: Event }) => void;
+  private _onMapRotate: () => void;
+  private _onMapPitch: () => void;
 
   /**
    * Creates a new StreetViewControl.
@@ -72,16 +173,30 @@ export class StreetViewControl implements IControl {
     // Track if we should expand on add (state stays collapsed until expand() is called)
     this._shouldExpandOnAdd = !this._options.collapsed;
 
-    // Initialize providers
-    if (this._options.googleApiKey) {
-      this._googleProvider = new GoogleStreetViewProvider(this._options.googleApiKey);
+    // Create the imagery cache before providers are registered
+    const { cache, cacheOptions } = this._options;
+    if (cache) {
+      this._cache = new ImageryQueryCache(cache === true ? undefined : cache, cacheOptions);
+    }
+
+    this.resolveRetryOptions();
+
+    // Initialize built-in providers, then any custom ones
+    if (this.hasGoogleCredentials()) {
+      this.registerProvider(this.createGoogleProvider());
     }
-    if (this._options.mapillaryAccessToken) {
-      this._mapillaryProvider = new MapillaryProvider(this._options.mapillaryAccessToken);
+    if (this.hasMapillaryCredentials()) {
+      this.registerProvider(this.createMapillaryProvider());
+    }
+    for (const provider of this._options.providers) {
+      this.registerProvider(provider);
     }
 
     // Bind handlers
     this._onMapClick = this.handleMapClick.bind(this);
+    this._onMapMove = this.handleMapMove.bind(this);
+    this._onMapRotate = this.handleMapRotate.bind(this);
+    this._onMapPitch = this.handleMapPitch.bind(this);
   }
 
   /**
@@ -121,11 +236,14 @@ export class StreetViewControl implements IControl {
       },
     });
 
+    // Fall back to the first available provider if the default one is missing
+    this.resolveActiveProvider();
+
     // Create provider tabs
-    const availableProviders = this.getAvailableProviders();
     this._tabs = new ProviderTabs({
-      providers: availableProviders,
+      providers: this.getProviders(),
       activeProvider: this._state.activeProvider,
+      disabledProviders: Array.from(this._disabledProviders),
       onSelect: (provider) => this.setProvider(provider),
     });
 
@@ -135,10 +253,33 @@ export class StreetViewControl implements IControl {
       onLocationChange: (location) => this.handleProviderLocationChange(location),
     });
 
+    // Create the side-by-side viewer, shown instead of the tabs in split mode
+    this._splitViewer = new SplitViewer({
+      onHeadingChange: (heading, side) => this.handleSplitHeadingChange(heading, side),
+    });
+
+    // Create the timeline of capture dates below the viewer
+    this._timeline = new Timeline({
+      onSelect: (imagery) => this.handleTimelineSelect(imagery),
+    });
+
+    // Create the route drive-through controls below the timeline
+    this._routeControls = new RouteControls({
+      onPlay: () => this.playRoute(),
+      onPause: () => this.pauseRoute(),
+      onSeek: (step) => this.seekRoute(step),
+      onSpeedChange: (speed) => this.setRouteSpeed(speed),
+      onClose: () => this.stopRoute(),
+    });
+
     // Assemble panel content
     const panelContent = this._panel.getContent();
     panelContent.appendChild(this._tabs.getElement());
     panelContent.appendChild(this._viewer.getElement());
+    panelContent.appendChild(this._timeline.getElement());
+    panelContent.appendChild(this._routeControls.getElement());
+    panelContent.appendChild(this._splitViewer.getElement());
+    this.updateSplitLayout();
 
     // Add panel to map container
     const mapContainer = map.getContainer();
@@ -156,10 +297,18 @@ export class StreetViewControl implements IControl {
     if (this._options.clickToView) {
       map.on('click', this._onMapClick);
     }
+    map.on('movestart', this._onMapMove);
+    map.on('moveend', this._onMapMove);
+    map.on('rotateend', this._onMapRotate);
+    map.on('pitchend', this._onMapPitch);
 
     // Create marker if enabled
     if (this._options.showMarker) {
-      this._marker = new StreetViewMarker(this._options.markerOptions);
+      this._marker = new StreetViewMarker(this._options.markerOptions, {
+        onDragStart: () => this.handleMarkerDragStart(),
+        onDrag: (lngLat) => this.handleMarkerDrag(lngLat),
+        onDragEnd: (lngLat) => this.handleMarkerDragEnd(lngLat),
+      });
     }
 
     return this._container;
@@ -169,21 +318,37 @@ export class StreetViewControl implements IControl {
    * Called when the control is removed from the map.
    */
   onRemove(): void {
+    this.abortRequest();
+    this.clearRouteTimer();
+    this.clearSnapTarget();
+
+    // Remove coverage layers
+    this.removeCoverage();
+
     // Remove map event listeners
     if (this._map && this._options.clickToView) {
       this._map.off('click', this._onMapClick);
     }
+    this._map?.off('movestart', this._onMapMove);
+    this._map?.off('moveend', this._onMapMove);
+    this._map?.off('rotateend', this._onMapRotate);
+    this._map?.off('pitchend', this._onMapPitch);
 
     // Destroy components
     this._panel?.destroy();
     this._tabs?.destroy();
     this._viewer?.destroy();
+    this._splitViewer?.destroy();
+    this._timeline?.destroy();
+    this._routeControls?.destroy();
     this._noDataMessage?.destroy();
     this._marker?.remove();
 
     // Destroy providers
-    this._googleProvider?.destroy();
-    this._mapillaryProvider?.destroy();
+    for (const provider of this._providers.values()) {
+      this.unwatchCoverage(provider);
+      provider.destroy();
+    }
 
     // Remove container
     this._container?.remove();
@@ -195,6 +360,12 @@ export class StreetViewControl implements IControl {
     this._panel = null;
     this._tabs = null;
     this._viewer = null;
+    this._splitViewer = null;
+    this._splitProviders = null;
+    this._timeline = null;
+    this._timelineProvider = null;
+    this._routeControls = null;
+    this._route = null;
     this._noDataMessage = null;
     this._marker = null;
 
@@ -227,287 +398,2073 @@ export class StreetViewControl implements IControl {
   }
 
   /**
-   * Gets the list of available (configured) providers.
+   * Registers a street view provider with the control.
+   * A provider registered under an existing name replaces the previous one, and
+   * the location it was showing is loaded again with the new one.
+   *
+   * @param provider - The provider instance to register
    */
-  private getAvailableProviders(): ProviderType[] {
-    const providers: ProviderType[] = [];
-    if (this._googleProvider?.isConfigured()) {
-      providers.push('google');
-    }
-    if (this._mapillaryProvider?.isConfigured()) {
-      providers.push('mapillary');
+  registerProvider(provider: IStreetViewProvider): this {
+    const existing = this._providers.get(provider.name);
+    const replacesDisplayed = !!existing && existing !== provider && this._viewer?.getCurrentProvider() === existing;
+    if (existing && existing !== provider) {
+      this.unwatchCoverage(existing);
+      if (replacesDisplayed) {
+        this.abortRequest();
+        this._viewer?.showInitialState();
+      } else {
+        existing.destroy();
+      }
     }
-    return providers;
-  }
 
-  /**
-   * Gets the current provider instance.
-   */
-  private getCurrentProvider(): IStreetViewProvider | null {
-    if (this._state.activeProvider === 'google') {
-      return this._googleProvider;
+    this._providers.set(provider.name, provider);
+    this.configureProvider(provider);
+    this.watchCoverage(provider);
+
+    this.handleProvidersChanged();
+
+    // Show the imagery of the replaced provider again, or forget it if nothing took over
+    if (replacesDisplayed) {
+      if (this._state.location && this.getCurrentProvider() === provider) {
+        this.showStreetView(this._state.location);
+      } else if (!this._state.loading) {
+        this.clearStreetView();
+      }
     }
-    return this._mapillaryProvider;
+    return this;
   }
 
   /**
-   * Handles map click events.
+   * Adds a street view provider at runtime, e.g. once its API key has loaded.
+   * Same as registerProvider(): a provider with an existing name replaces the previous one.
+   *
+   * @param provider - The provider instance to add
    */
-  private handleMapClick(e: MapMouseEvent): void {
-    if (this._state.collapsed) return;
-    this.showStreetView(e.lngLat);
+  addProvider(provider: IStreetViewProvider): this {
+    return this.registerProvider(provider);
   }
 
   /**
-   * Handles heading changes from the viewer.
+   * Removes a provider and destroys it.
+   * If it was active, the control falls back to the first available provider.
+   *
+   * @param name - The name of the provider to remove
    */
-  private handleHeadingChange(heading: number): void {
-    this._state.heading = heading;
-    this._marker?.setHeading(heading);
-    this.emit('headingchange');
+  removeProvider(name: ProviderType): this {
+    const provider = this._providers.get(name);
+    if (!provider) return this;
+
+    this.unwatchCoverage(provider);
+    if (this._viewer?.getCurrentProvider() === provider) {
+      this.abortRequest();
+      this._viewer.showInitialState();
+    } else {
+      provider.destroy();
+    }
+
+    this._providers.delete(name);
+    this._disabledProviders.delete(name);
+    this.handleProvidersChanged();
+    return this;
   }
 
   /**
-   * Handles location changes from the provider (when user navigates in viewer).
+   * Enables or disables a provider without removing it.
+   * A disabled provider keeps its tab, greyed out, and is skipped when falling back.
+   *
+   * @param name - The provider name
+   * @param enabled - Whether the provider can be used
    */
-  private handleProviderLocationChange(location: LngLat): void {
-    this._state.location = location;
-    if (this._marker && this._map) {
-      this._marker.setLngLat(location);
+  setProviderEnabled(name: ProviderType, enabled: boolean): this {
+    if (enabled) {
+      this._disabledProviders.delete(name);
+    } else {
+      this._disabledProviders.add(name);
     }
-    this.emit('locationchange');
+
+    this._tabs?.setEnabled(name, enabled);
+    this.handleProvidersChanged();
+    return this;
   }
 
   /**
-   * Updates the panel position relative to the button.
+   * Checks if a provider is enabled.
+   *
+   * @param name - The provider name
    */
-  private updatePanelPosition(): void {
-    if (!this._panel || !this._button || !this._map) return;
-    this._panel.positionRelativeTo(this._button, this._map.getContainer());
+  isProviderEnabled(name: ProviderType): boolean {
+    return !this._disabledProviders.has(name);
   }
 
   /**
-   * Shows street view imagery at a location.
+   * Updates options at runtime.
+   * Credentials, `providers`, request settings, coverage, click-to-view, marker and panel
+   * options take effect right away. `cache`, `cacheOptions`, `googleRenderer`, `googleMetadataUrl`,
+   * `googleCoverageTilesUrl`, `className`, `collapsed`, `defaultProvider` and
+   * `minPanelWidth`/`minPanelHeight` only apply when the control is created.
+   * Omitted or undefined options keep their value, except `transport` and
+   * `transformRequest`, which are removed by passing undefined.
    *
-   * @param lngLat - The location to show
+   * @param options - The options to change
    */
-  async showStreetView(lngLat: LngLat | [number, number]): Promise<void> {
-    const location = toLngLat(lngLat);
-    const provider = this.getCurrentProvider();
+  updateOptions(options: Partial<StreetViewControlOptions>): this {
+    const {
+      googleApiKey,
+      googleSignUrl,
+      mapillaryAccessToken,
+      getMapillaryAccessToken,
+      providers,
+      ...rest
+    } = options;
+    const previous = { ...this._options };
+    Object.assign(
+      this._options,
+      Object.fromEntries(
+        Object.entries(rest).filter(
+          ([key, value]) => value !== undefined || key === 'transport' || key === 'transformRequest'
+        )
+      )
+    );
+
+    this.setCredentials({ googleApiKey, googleSignUrl, mapillaryAccessToken, getMapillaryAccessToken });
+    for (const provider of providers ?? []) {
+      this.registerProvider(provider);
+    }
 
-    if (!provider) {
-      this.showNoData('No street view provider is configured.');
-      return;
+    if (rest.retry !== undefined || rest.rateLimit !== undefined || 'transport' in rest || 'transformRequest' in rest) {
+      this.resolveRetryOptions();
+      if (rest.rateLimit !== undefined) this._rateLimiters.clear();
+      for (const provider of this._providers.values()) {
+        this.applyRequestPolicy(provider);
+      }
     }
 
-    // Update state
-    this._state.location = location;
-    this._state.loading = true;
-    this._state.error = null;
-    this.emit('locationchange');
+    if (this._map && rest.clickToView !== undefined && rest.clickToView !== previous.clickToView) {
+      if (rest.clickToView) {
+        this._map.on('click', this._onMapClick);
+      } else {
+        this._map.off('click', this._onMapClick);
+      }
+    }
 
-    // Show loading state
-    this._viewer?.showLoading('Loading street view...');
+    if (rest.title !== undefined) this._panel?.setTitle(rest.title);
+    if (rest.position !== undefined) this._panel?.setPosition(rest.position);
+    if (rest.panelWidth !== undefined || rest.panelHeight !== undefined) {
+      this._panel?.setSize(this._options.panelWidth, this._options.panelHeight);
+    }
 
-    // Update marker position
-    if (this._marker && this._map) {
-      this._marker.setLngLat(location).addTo(this._map, location);
+    if (rest.markerOptions) {
+      this._options.markerOptions = { ...previous.markerOptions, ...rest.markerOptions };
+      this.updateMarkerOptions(this._options.markerOptions);
     }
 
-    try {
-      // Query for imagery
-      let imagery = await provider.queryImagery(location);
+    if (rest.showCoverage !== undefined) {
+      this.updateCoverage();
+    }
 
-      // If no imagery, search nearby
-      if (!imagery) {
-        this._viewer?.showLoading('Searching nearby...');
-        imagery = await provider.findNearestImagery(location, this._options.maxSearchRadius);
-      }
+    if (rest.showTimeline === false) {
+      this.clearTimeline();
+    }
 
-      if (imagery) {
-        this._state.imagery = imagery;
-        this._state.loading = false;
+    if (rest.dateRange !== undefined || rest.filters !== undefined) {
+      const filters = this.getImageryFilters();
+      for (const provider of this._providers.values()) {
+        provider.setFilters?.(filters);
+      }
+      if (this._state.location && rest.splitProviders === undefined) {
+        this.showStreetView(this._state.location);
+      }
+    }
 
-        // Update marker to actual imagery location
-        if (this._marker && this._map) {
-          this._marker.setLngLat(imagery.location);
-          if (imagery.heading !== undefined) {
-            this._marker.setHeading(imagery.heading);
-          }
-        }
+    if (rest.splitProviders !== undefined) {
+      this.updateSplitLayout();
+    }
 
-        // Display imagery
-        this._viewer?.displayImagery(provider, imagery);
-        this.emit('load');
-      } else {
-        this._state.loading = false;
-        this.showNoData();
-      }
-    } catch (error) {
-      this._state.loading = false;
-      this._state.error = error instanceof Error ? error.message : 'Unknown error';
-      this.showNoData(this._state.error);
-      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    if (rest.syncMapView && !previous.syncMapView) {
+      this.handleMapRotate();
+      this.handleMapPitch();
     }
 
-    this.emit('statechange');
+    return this;
   }
 
   /**
-   * Shows the no data message.
+   * Applies changed marker options to the existing marker.
    */
-  private showNoData(errorMessage?: string): void {
-    if (!this._viewer) return;
-
-    this._viewer.clearContent();
-
-    this._noDataMessage = new NoDataMessage({
-      provider: this._state.activeProvider,
-      showSearchButton: true,
-      onSearchNearest: () => this.searchNearest(),
-    });
-
-    if (errorMessage) {
-      this._noDataMessage.showError(errorMessage);
-    }
-
-    this._viewer.getElement().appendChild(this._noDataMessage.getElement());
+  private updateMarkerOptions(markerOptions: MarkerOptions): void {
+    const marker = this._marker;
+    if (!marker) return;
+
+    if (markerOptions.color !== undefined) marker.setColor(markerOptions.color);
+    if (markerOptions.directionColor !== undefined) marker.setDirectionColor(markerOptions.directionColor);
+    if (markerOptions.showDirection !== undefined) marker.setDirectionVisible(markerOptions.showDirection);
+    if (markerOptions.draggable !== undefined) marker.setDraggable(markerOptions.draggable);
+    if (markerOptions.viewConeLength !== undefined) marker.setViewConeLength(markerOptions.viewConeLength);
+    if (markerOptions.viewConeOpacity !== undefined) marker.setViewConeOpacity(markerOptions.viewConeOpacity);
+    if (markerOptions.viewConeColor !== undefined) marker.setViewConeColor(markerOptions.viewConeColor);
+    if (markerOptions.showViewCone !== undefined) marker.setViewConeVisible(markerOptions.showViewCone);
   }
 
   /**
-   * Searches for the nearest imagery with larger radius.
+   * Resolves the retry settings from the `retry` option.
    */
-  private async searchNearest(): Promise<void> {
-    if (!this._state.location) return;
-
-    const provider = this.getCurrentProvider();
-    if (!provider) return;
+  private resolveRetryOptions(): void {
+    const { retry } = this._options;
+    this._retryOptions = retry ? { ...DEFAULT_RETRY_OPTIONS, ...(retry === true ? {} : retry) } : null;
+  }
 
-    this._noDataMessage?.showSearching();
+  /**
+   * Gets the filters passed to providers. The date range sets the capture date
+   * filters not given in `filters`.
+   */
+  private getImageryFilters(): ImageryFilters {
+    const { filters, dateRange } = this._options;
+    return {
+      ...filters,
+      capturedAfter: filters.capturedAfter ?? dateRange?.start,
+      capturedBefore: filters.capturedBefore ?? dateRange?.end,
+    };
+  }
 
-    try {
-      const imagery = await provider.findNearestImagery(this._state.location, 500);
+  /**
+   * Passes the cache, imagery filters and request policy of the control to a provider.
+   */
+  private configureProvider(provider: IStreetViewProvider): void {
+    provider.setCache?.(this._cache);
+    provider.setFilters?.(this.getImageryFilters());
+    this.applyRequestPolicy(provider);
+  }
 
-      if (imagery) {
-        this._state.imagery = imagery;
+  /**
+   * Passes the retry, rate limit and transport settings to a provider.
+   */
+  private applyRequestPolicy(provider: IStreetViewProvider): void {
+    provider.setRequestPolicy?.({
+      retry: this._retryOptions,
+      rateLimiter: this.getRateLimiter(provider.name),
+      transport: this._options.transport ?? null,
+      transformRequest: this._options.transformRequest ?? null,
+    });
+  }
 
-        // Update marker
-        if (this._marker && this._map) {
-          this._marker.setLngLat(imagery.location);
-          if (imagery.heading !== undefined) {
-            this._marker.setHeading(imagery.heading);
-          }
+  /**
+   * Changes API keys and access tokens without removing the control.
+   * Built-in providers are updated in place, or registered once their credentials are set.
+   * Omitted fields keep their current value.
+   *
+   * @param credentials - The new credentials
+   * @throws AuthError if the Google Maps JavaScript API was already loaded with another key
+   */
+  setCredentials(credentials: StreetViewCredentials): this {
+    const defined = Object.fromEntries(
+      Object.entries(credentials).filter(([, value]) => value !== undefined)
+    ) as StreetViewCredentials;
+    if (Object.keys(defined).length === 0) return this;
+    const previous = Object.fromEntries(
+      Object.keys(defined).map((key) => [key, this._options[key as keyof StreetViewCredentials]])
+    );
+    Object.assign(this._options, defined);
+
+    const { googleApiKey, googleSignUrl, mapillaryAccessToken, getMapillaryAccessToken } = this._options;
+
+    // Built-in providers missing from the start are registered once credentials are set
+    if ('googleApiKey' in defined || 'googleSignUrl' in defined) {
+      const google = this._providers.get('google');
+      if (google instanceof GoogleStreetViewProvider) {
+        try {
+          google.setCredentials(googleApiKey, googleSignUrl ?? null);
+        } catch (error) {
+          // The provider rejected the change, keep the credentials it still uses
+          Object.assign(this._options, previous);
+          throw error;
         }
+      } else if (!google && this.hasGoogleCredentials()) {
+        this.registerProvider(this.createGoogleProvider());
+      }
+    }
 
-        // Remove no data message and show imagery
-        this._noDataMessage?.destroy();
-        this._noDataMessage = null;
-        this._viewer?.displayImagery(provider, imagery);
-        this.emit('load');
-      } else {
-        this._noDataMessage?.showNotFound();
+    if ('mapillaryAccessToken' in defined || 'getMapillaryAccessToken' in defined) {
+      const mapillary = this._providers.get('mapillary');
+      if (mapillary instanceof MapillaryProvider) {
+        // A token fetched by the callback is kept unless a new token is passed
+        if ('getMapillaryAccessToken' in defined) {
+          mapillary.setAccessTokenCallback(getMapillaryAccessToken ?? null);
+        }
+        if ('mapillaryAccessToken' in defined) {
+          mapillary.setAccessToken(mapillaryAccessToken);
+        }
+      } else if (!mapillary && this.hasMapillaryCredentials()) {
+        this.registerProvider(this.createMapillaryProvider());
       }
-    } catch (error) {
-      this._noDataMessage?.showError(error instanceof Error ? error.message : 'Search failed');
     }
 
-    this.emit('statechange');
+    // Providers may have become (un)available
+    this.handleProvidersChanged();
+    return this;
   }
 
   /**
-   * Clears the current street view display.
+   * Checks if the options hold a Google API key or URL signing callback.
    */
-  clearStreetView(): void {
-    this._state.location = null;
-    this._state.imagery = null;
-    this._state.heading = 0;
-    this._state.error = null;
-
-    this._viewer?.showInitialState();
-    this._marker?.remove();
-    this._noDataMessage?.destroy();
-    this._noDataMessage = null;
-
-    this.emit('statechange');
+  private hasGoogleCredentials(): boolean {
+    return Boolean(this._options.googleApiKey || this._options.googleSignUrl);
   }
 
   /**
-   * Sets the active provider.
-   *
-   * @param provider - The provider to activate
+   * Checks if the options hold a Mapillary access token or a callback fetching one.
    */
-  setProvider(provider: ProviderType): void {
-    if (this._state.activeProvider === provider) return;
-
-    this._state.activeProvider = provider;
-    this._tabs?.setActive(provider);
+  private hasMapillaryCredentials(): boolean {
+    return Boolean(this._options.mapillaryAccessToken || this._options.getMapillaryAccessToken);
+  }
 
-    // Re-query if we have a location
-    if (this._state.location) {
-      this.showStreetView(this._state.location);
-    } else {
-      this._viewer?.showInitialState();
+  /**
+   * Creates the built-in Google provider from the control options.
+   */
+  private createGoogleProvider(): GoogleStreetViewProvider {
+    const { googleApiKey, googleSignUrl, googleMetadataUrl, googleCoverageTilesUrl, googleRenderer } = this._options;
+    let GoogleProvider = googleRenderer === 'javascript' ? GoogleMapsJsProvider : GoogleStreetViewProvider;
+    if (GoogleProvider === GoogleMapsJsProvider && !googleApiKey) {
+      // The Maps JavaScript API is loaded with the key itself, signed URLs only work in the embed
+      console.warn("googleRenderer 'javascript' needs a googleApiKey, falling back to the embed renderer");
+      GoogleProvider = GoogleStreetViewProvider;
     }
-
-    this.emit('providerchange');
-    this.emit('statechange');
+    return new GoogleProvider(googleApiKey, {
+      signUrl: googleSignUrl,
+      metadataUrl: googleMetadataUrl,
+      coverageTilesUrl: googleCoverageTilesUrl,
+    });
   }
 
   /**
-   * Expands the panel.
+   * Creates the built-in Mapillary provider from the control options.
    */
-  expand(): void {
-    if (!this._state.collapsed) return;
-
-    this._state.collapsed = false;
-    this._panel?.show();
-    this._container?.classList.add('active');
-    this.updatePanelPosition();
-
-    this.emit('expand');
-    this.emit('statechange');
+  private createMapillaryProvider(): MapillaryProvider {
+    const { mapillaryAccessToken, getMapillaryAccessToken } = this._options;
+    return new MapillaryProvider(mapillaryAccessToken, { getAccessToken: getMapillaryAccessToken });
   }
 
   /**
-   * Collapses the panel.
+   * Refreshes the tabs and coverage after providers were added or changed,
+   * switching providers if the active one is no longer available.
    */
-  collapse(): void {
-    if (this._state.collapsed) return;
+  private handleProvidersChanged(): void {
+    if (!this._map) return;
+
+    // Stop comparing dates once the compared provider was replaced or is unavailable
+    const compared = this._dateComparison?.providers[0];
+    if (
+      compared &&
+      (this._providers.get(compared.name) !== compared || !this.getAvailableProviders().includes(compared.name))
+    ) {
+      this._dateComparison = null;
+    }
 
-    this._state.collapsed = true;
-    this._panel?.hide();
-    this._container?.classList.remove('active');
+    // Rebuild the tabs first so the fallback provider has a tab to activate
+    this._tabs?.setProviders(this.getProviders());
+    const changed = this.resolveActiveProvider();
+    const splitChanged = this.updateSplitLayout();
 
-    this.emit('collapse');
-    this.emit('statechange');
+    if (changed && !splitChanged && !this._splitProviders) {
+      // Show the current location with the fallback provider
+      if (this._state.location) {
+        this.showStreetView(this._state.location);
+      } else {
+        this._viewer?.showInitialState();
+      }
+    } else if (!this.getCurrentProvider() && this._viewer?.getCurrentProvider()) {
+      // No provider is left to show the imagery
+      this.abortRequest();
+      this._viewer.showInitialState();
+    }
+
+    this.updateCoverage();
+    if (changed) {
+      this.emit('providerchange');
+      this.emit('statechange');
+    }
   }
 
   /**
-   * Toggles the panel visibility.
+   * Gets the rate limiter shared by providers registered under a name.
+   * Replacing a provider keeps its rate limit, since the same API is called.
+   *
+   * @param name - The provider name
+   * @returns The rate limiter, or null if rate limiting is disabled
    */
-  toggle(): void {
-    if (this._state.collapsed) {
-      this.expand();
-    } else {
-      this.collapse();
+  private getRateLimiter(name: ProviderType): TokenBucket | null {
+    const { rateLimit } = this._options;
+    if (!rateLimit) return null;
+
+    let rateLimiter = this._rateLimiters.get(name);
+    if (!rateLimiter) {
+      rateLimiter = new TokenBucket(rateLimit === true ? undefined : rateLimit);
+      this._rateLimiters.set(name, rateLimiter);
     }
+    return rateLimiter;
   }
 
   /**
-   * Gets the current control state.
+   * Gets the imagery cache statistics.
+   *
+   * @returns The statistics, or null if caching is disabled
    */
-  getState(): StreetViewState {
-    return { ...this._state };
+  getCacheStats(): ImageryCacheStats | null {
+    return this._cache?.getStats() ?? null;
   }
 
   /**
-   * Subscribes to control events.
+   * Removes all cached imagery lookups.
+   */
+  async clearCache(): Promise<void> {
+    await this._cache?.clear();
+  }
+
+  /**
+   * Stores the imagery around a location for offline use by querying a grid of points.
+   * Lookups are keyed by the exact location queried, so clicks do not reuse the
+   * prefetched lookups: the imagery found serves as the fallback of a cache that
+   * finds stored imagery nearby, such as IndexedDBImageryCache, once requests fail.
+   * Queries run one at a time to spare the providers' rate limits, and the first
+   * failed query rejects the returned promise.
    *
-   * @param event - The event type
-   * @param handler - The event handler
+   * @param center - The center of the area
+   * @param radius - Distance from the center to the edges of the area in meters
+   * @param options - Prefetch options
+   * @returns The number of distinct images found
    */
-  on(event: StreetViewEvent, handler: StreetViewEventHandler): this {
-    if (!this._eventHandlers.has(event)) {
+  async prefetchArea(center: LngLatLike, radius: number, options: PrefetchAreaOptions = {}): Promise<number> {
+    if (!this._cache) return 0;
+
+    const spacing = options.spacing ?? PREFETCH_OPTIONS.spacing;
+    const maxPoints = options.maxPoints ?? PREFETCH_OPTIONS.maxPoints;
+    const providers = (
+      options.providers ? options.providers.map(name => this._providers.get(name)) : [this.getCurrentProvider()]
+    ).filter((provider): provider is IStreetViewProvider => Boolean(provider?.isConfigured()));
+
+    const points = createGrid(createBbox(center, radius), spacing);
+    const total = points.length * providers.length;
+    if (total > maxPoints) {
+      throw new Error(`Prefetch area needs ${total} queries, the maximum is ${maxPoints}`);
+    }
+
+    // Query radius that covers a whole grid cell
+    const queryRadius = Math.ceil(spacing * Math.SQRT1_2);
+    const found = new Set<string>();
+    let completed = 0;
+
+    for (const provider of providers) {
+      for (const point of points) {
+        options.signal?.throwIfAborted();
+        const imagery = await provider.queryImagery(point, queryRadius, options.signal);
+        if (imagery) {
+          found.add(`${provider.name}:${imagery.id}`);
+        }
+        options.onProgress?.(++completed, total);
+      }
+    }
+
+    return found.size;
+  }
+
+  /**
+   * Gets a registered provider by name.
+   *
+   * @param name - The provider name
+   * @returns The provider instance or null if not registered
+   */
+  getProvider(name: ProviderType): IStreetViewProvider | null {
+    return this._providers.get(name) ?? null;
+  }
+
+  /**
+   * Gets all registered providers in registration order.
+   */
+  getProviders(): IStreetViewProvider[] {
+    return Array.from(this._providers.values());
+  }
+
+  /**
+   * Gets the list of available (configured) providers.
+   */
+  getAvailableProviders(): ProviderType[] {
+    return this.getProviders()
+      .filter((provider) => provider.isConfigured() && !this._disabledProviders.has(provider.name))
+      .map((provider) => provider.name);
+  }
+
+  /**
+   * Gets the current provider instance.
+   */
+  getCurrentProvider(): IStreetViewProvider | null {
+    const provider = this._providers.get(this._state.activeProvider);
+    return provider?.isConfigured() && this.isProviderEnabled(provider.name) ? provider : null;
+  }
+
+  /**
+   * Switches to the first available provider if the active one is unavailable.
+   *
+   * @returns Whether the active provider changed
+   */
+  private resolveActiveProvider(): boolean {
+    const available = this.getAvailableProviders();
+    if (available.length === 0 || available.includes(this._state.activeProvider)) {
+      return false;
+    }
+    this._state.activeProvider = available[0];
+    this._tabs?.setActive(available[0]);
+    return true;
+  }
+
+  /**
+   * Handles map click events.
+   */
+  private handleMapClick(e: MapMouseEvent): void {
+    if (this._state.collapsed) return;
+    this.showStreetView(e.lngLat);
+  }
+
+  /**
+   * Highlights nearby coverage while the marker is dragged.
+   */
+  private handleMarkerDragStart(): void {
+    this._markerDragging = true;
+    this.updateCoverage();
+  }
+
+  /**
+   * Looks up the imagery under the dragged marker, at most once per lookup interval.
+   */
+  private handleMarkerDrag(lngLat: LngLat): void {
+    this._dragLocation = lngLat;
+    if (this._dragTimer || this._state.collapsed) return;
+
+    this._dragTimer = setTimeout(() => {
+      this._dragTimer = null;
+      this.highlightSnapTarget();
+    }, MARKER_DRAG_OPTIONS.lookupInterval);
+  }
+
+  /**
+   * Highlights the imagery of the current provider the marker would snap to if dropped.
+   */
+  private async highlightSnapTarget(): Promise<void> {
+    const provider = this.getCurrentProvider();
+    const location = this._dragLocation;
+    if (!provider || !location || !this._markerDragging) return;
+
+    this._dragAbortController?.abort();
+    const controller = new AbortController();
+    this._dragAbortController = controller;
+
+    try {
+      const imagery = await this.findImagery(provider, location, controller.signal, false);
+      if (controller.signal.aborted) return;
+      this._marker?.setSnapTarget(imagery?.location ?? null);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        this._marker?.setSnapTarget(null);
+      }
+    }
+  }
+
+  /**
+   * Stops snap target lookups and removes the highlight.
+   */
+  private clearSnapTarget(): void {
+    if (this._dragTimer) {
+      clearTimeout(this._dragTimer);
+      this._dragTimer = null;
+    }
+    this._dragAbortController?.abort();
+    this._dragAbortController = null;
+    this._dragLocation = null;
+    this._marker?.setSnapTarget(null);
+  }
+
+  /**
+   * Shows street view at the drop point. The marker snaps to the imagery found.
+   * While the panel is collapsed, the marker returns to the current location instead.
+   */
+  private handleMarkerDragEnd(lngLat: LngLat): void {
+    this._markerDragging = false;
+    this.clearSnapTarget();
+    this.updateCoverage();
+
+    if (this._state.collapsed) {
+      if (this._state.location) {
+        this._marker?.setLngLat(this._state.location);
+      }
+      return;
+    }
+    this.showStreetView(lngLat);
+  }
+
+  /**
+   * Handles heading changes from the viewer.
+   */
+  private handleHeadingChange(
+    heading: number,
+    provider: IStreetViewProvider | null | undefined = this._viewer?.getCurrentProvider()
+  ): void {
+    this._state.heading = heading;
+    this._marker?.setHeading(heading);
+    if (this._options.syncMapView && this._map) {
+      // The map echoes the bearing back; small differences end the loop
+      if (headingDifference(this._map.getBearing(), heading) >= 1) {
+        this._map.setBearing(heading);
+      }
+    } else if (this._options.followMode === 'bearing' && this.isFollowing()) {
+      this._map?.rotateTo(heading, { duration: FOLLOW_OPTIONS.duration });
+    }
+
+    this.updateViewState(provider);
+    this.emit('headingchange');
+  }
+
+  /**
+   * Keeps pitch and field of view in sync for the marker view cone.
+   */
+  private updateViewState(provider: IStreetViewProvider | null | undefined): void {
+    const view = provider?.getViewState();
+    if (!view) return;
+
+    this._state.pitch = view.pitch;
+    this._marker?.setPitch(view.pitch);
+    const fov = view.fov ?? (view.zoom !== undefined ? zoomToFieldOfView(view.zoom) : undefined);
+    if (fov !== undefined) {
+      this._marker?.setFieldOfView(fov);
+    }
+  }
+
+  /**
+   * Turns the viewer to the map bearing when the map view is synced.
+   * Runs once a rotation ends, as some viewers (the Google embed) reload on every turn.
+   */
+  private handleMapRotate(): void {
+    if (!this._options.syncMapView || !this._map) return;
+    this.setHeading(this._map.getBearing());
+  }
+
+  /**
+   * Tilts the viewer with the map pitch when the map view is synced.
+   * A flat map keeps the viewer level, tilting the map lifts the view.
+   */
+  private handleMapPitch(): void {
+    if (!this._options.syncMapView || !this._map) return;
+
+    // Each change reloads the Google embed, so skip the ones too small to see
+    const pitch = this._map.getPitch() * MAP_SYNC_OPTIONS.pitchScale;
+    if (Math.abs(pitch - this._state.pitch) >= 1) {
+      this.setPitch(pitch);
+    }
+  }
+
+  /**
+   * Gets the providers rendering imagery: the viewer's, or both sides in split mode.
+   */
+  private getDisplayedProviders(): IStreetViewProvider[] {
+    const providers = this._splitProviders
+      ? [this._splitViewer?.getViewer('left'), this._splitViewer?.getViewer('right')]
+      : [this._viewer];
+    return providers
+      .map((viewer) => viewer?.getCurrentProvider())
+      .filter((provider): provider is IStreetViewProvider => !!provider);
+  }
+
+  /**
+   * Handles heading changes in split mode. The marker follows the left side.
+   */
+  private handleSplitHeadingChange(heading: number, side: SplitSide): void {
+    if (side !== 'left') return;
+    this.handleHeadingChange(heading, this._splitViewer?.getViewer(side).getCurrentProvider());
+  }
+
+  /**
+   * Handles location changes from the provider (when user navigates in viewer).
+   */
+  private handleProviderLocationChange(location: LngLat): void {
+    this._state.location = location;
+    if (this._marker && this._map) {
+      this._marker.setLngLat(location);
+    }
+    this.followLocation(location);
+    this.emit('locationchange');
+  }
+
+  /**
+   * Suspends following the viewer while the user moves the map.
+   * Moves started by the control have no original event.
+   */
+  private handleMapMove(e: { originalEvent?: Event }): void {
+    if (!e.originalEvent) return;
+    this._followSuspendedUntil = Date.now() + FOLLOW_OPTIONS.resumeDelay;
+  }
+
+  /**
+   * Checks if the map follows the viewer right now.
+   */
+  private isFollowing(): boolean {
+    return this._options.followMode !== null && Date.now() >= this._followSuspendedUntil;
+  }
+
+  /**
+   * Moves the map to a location reached in the viewer, as set by the follow mode.
+   */
+  private followLocation(location: LngLat): void {
+    const map = this._map;
+    const mode = this._options.followMode;
+    if (!map || !mode || !this.isFollowing()) return;
+
+    if (mode === 'bounds') {
+      const container = map.getContainer();
+      const width = container.clientWidth;
+      const height = container.clientHeight;
+      const margin = Math.min(width, height) * FOLLOW_OPTIONS.edgeMargin;
+      const { x, y } = map.project(location);
+      if (x >= margin && x <= width - margin && y >= margin && y <= height - margin) return;
+    }
+
+    map.easeTo({
+      center: location,
+      ...(mode === 'bearing' ? { bearing: this._state.heading } : {}),
+      duration: FOLLOW_OPTIONS.duration,
+    });
+  }
+
+  /**
+   * Updates the panel position relative to the button.
+   */
+  private updatePanelPosition(): void {
+    if (!this._panel || !this._button || !this._map) return;
+    this._panel.positionRelativeTo(this._button, this._map.getContainer());
+  }
+
+  /**
+   * Shows street view imagery at a location.
+   *
+   * @param lngLat - The location to show
+   */
+  async showStreetView(lngLat: LngLat | [number, number]): Promise<void> {
+    const location = toLngLat(lngLat);
+    const provider = this.getCurrentProvider();
+    const splitProviders = this._splitProviders;
+
+    // A new request supersedes the one in flight, and another location pauses the route
+    this.abortRequest();
+    this.pauseRoute();
+    this.clearTimeline();
+
+    if (!provider && !splitProviders) {
+      this.showNoData('No street view provider is configured.');
+      return;
+    }
+
+    const controller = new AbortController();
+    this._abortController = controller;
+    const { signal } = controller;
+
+    // Update state
+    this._state.location = location;
+    this._state.loading = true;
+    this._state.error = null;
+    this.emit('locationchange');
+
+    // Show loading state
+    this._viewer?.showLoading('Loading street view...');
+
+    // Update marker position
+    if (this._marker && this._map) {
+      this._marker.setLngLat(location).addTo(this._map, location);
+    }
+
+    if (splitProviders) {
+      const comparison = this._dateComparison;
+      if (comparison) {
+        await this.showDateComparison(comparison, location, signal);
+      } else {
+        await this.showSplitImagery(splitProviders, location, signal);
+      }
+      if (this._abortController === controller) {
+        this._abortController = null;
+      }
+      return;
+    }
+
+    if (!provider) return;
+
+    try {
+      const candidates = this.getFallbackCandidates(provider);
+      const found = await this.resolveImagery(candidates, location, signal);
+      if (signal.aborted) return;
+
+      if (found) {
+        const { imagery } = found;
+        this._state.imagery = imagery;
+        this._state.loading = false;
+
+        // Update marker to actual imagery location
+        if (this._marker && this._map) {
+          this._marker.setLngLat(imagery.location);
+          if (imagery.heading !== undefined) {
+            this._marker.setHeading(imagery.heading);
+          }
+        }
+
+        // Switch tabs when another provider has the imagery
+        const switched = found.provider !== provider;
+        if (switched) {
+          this._state.activeProvider = found.provider.name;
+          this._tabs?.setActive(found.provider.name);
+          this.updateCoverage();
+        }
+
+        // Display imagery
+        this._viewer?.displayImagery(found.provider, imagery);
+        if (switched) {
+          this._viewer?.showNotice(
+            found.activeHadImagery
+              ? `Showing ${found.provider.displayName}, the ${this.describeStrategy()} imagery found`
+              : `No ${provider.displayName} imagery here, showing ${found.provider.displayName}`
+          );
+          this.emit('providerchange');
+        }
+        this.emit('load');
+        void this.loadTimeline(found.provider, location, imagery, signal);
+      } else {
+        const names = candidates.map((candidate) => candidate.displayName).join(' or ');
+        throw new NoCoverageError(`No ${names} imagery within ${this._options.maxSearchRadius} m`);
+      }
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) return;
+
+      const streetViewError = error instanceof Error ? error : new Error(String(error));
+      this._state.loading = false;
+      this._state.error = streetViewError.message;
+      this.showNoData(streetViewError);
+      this.emit('error', streetViewError);
+    } finally {
+      if (this._abortController === controller) {
+        this._abortController = null;
+      }
+    }
+
+    this.emit('statechange');
+  }
+
+  /**
+   * Lists the imagery captured near a location in the timeline. Providers without
+   * a history, e.g. Google, list the date of the imagery shown.
+   * A failure only leaves the timeline hidden, the imagery itself is already shown.
+   */
+  private async loadTimeline(
+    provider: IStreetViewProvider,
+    location: LngLat,
+    imagery: ImageryResult,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (!this._timeline || !this._options.showTimeline) return;
+
+    const requestId = ++this._timelineRequestId;
+    try {
+      const history = (await provider.queryHistory?.(location, TIMELINE_OPTIONS.radius, signal)) ?? [];
+      if (requestId !== this._timelineRequestId || signal.aborted || !this._timeline) return;
+
+      this._timelineProvider = provider;
+      this._timeline.setImagery([imagery, ...history], location, imagery);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Failed to load imagery timeline:', error);
+      }
+    }
+  }
+
+  /**
+   * Hides the timeline and ignores the timeline request in flight.
+   */
+  private clearTimeline(): void {
+    this._timelineRequestId++;
+    this._timelineProvider = null;
+    this._timeline?.clear();
+  }
+
+  /**
+   * Shows the imagery of the date picked in the timeline.
+   */
+  private handleTimelineSelect(imagery: ImageryResult): void {
+    const provider = this._timelineProvider;
+    if (!provider || !this._viewer) return;
+
+    this.abortRequest();
+    this._noDataMessage?.destroy();
+    this._noDataMessage = null;
+    this._state.imagery = imagery;
+    this._state.loading = false;
+    this._state.error = null;
+
+    if (this._marker && this._map) {
+      this._marker.setLngLat(imagery.location);
+      if (imagery.heading !== undefined) {
+        this._marker.setHeading(imagery.heading);
+      }
+    }
+
+    this._viewer.displayImagery(provider, imagery);
+    this.emit('load');
+    this.emit('statechange');
+  }
+
+  /**
+   * Shows imagery of two providers side by side. Each side finds its own nearest imagery.
+   */
+  private async showSplitImagery(
+    providers: SplitProviders,
+    location: LngLat,
+    signal: AbortSignal
+  ): Promise<void> {
+    const splitViewer = this._splitViewer;
+    if (!splitViewer) return;
+    splitViewer.setLocation(location);
+
+    const sides: SplitSide[] = ['left', 'right'];
+    const results = await Promise.all(
+      providers.map(async (provider, index) => {
+        const side = sides[index];
+        splitViewer.showLoading(side, `Loading ${provider.displayName}...`);
+
+        try {
+          const imagery = await this.findImagery(provider, location, signal, false);
+          if (signal.aborted) return null;
+
+          if (imagery) {
+            splitViewer.displayImagery(side, provider, imagery);
+          } else {
+            splitViewer.showError(
+              side,
+              provider,
+              new NoCoverageError(`No ${provider.displayName} imagery within ${this._options.maxSearchRadius} m`)
+            );
+          }
+          return imagery;
+        } catch (error) {
+          if (signal.aborted || isAbortError(error)) return null;
+          splitViewer.showError(side, provider, error instanceof Error ? error : String(error));
+          return null;
+        }
+      })
+    );
+    if (signal.aborted) return;
+
+    this._state.loading = false;
+    this._state.imagery = results[0] ?? results[1];
+    if (this._state.imagery) {
+      this.emit('load');
+    } else {
+      const error = new NoCoverageError(
+        `No ${providers[0].displayName} or ${providers[1].displayName} imagery within ${this._options.maxSearchRadius} m`
+      );
+      this._state.error = error.message;
+      this.emit('error', error);
+    }
+    this.emit('statechange');
+  }
+
+  /**
+   * Shows the imagery of two capture dates side by side: on each side, the image
+   * of the capture day closest to the date, the closest one to the location on that day.
+   * Each side searches the imagery captured within a window around its date, and a
+   * side without imagery in its window shows a notice.
+   */
+  private async showDateComparison(
+    comparison: DateComparison,
+    location: LngLat,
+    signal: AbortSignal
+  ): Promise<void> {
+    const splitViewer = this._splitViewer;
+    if (!splitViewer) return;
+    const [provider, clone] = comparison.providers;
+    this.configureProvider(clone);
+
+    splitViewer.setLocation(location);
+    splitViewer.showLoading('left', `Loading ${provider.displayName}...`);
+    splitViewer.showLoading('right', `Loading ${provider.displayName}...`);
+
+    try {
+      const histories = await Promise.all(
+        comparison.dates.map((date) => this.queryHistoryNearDate(provider, location, date, signal))
+      );
+      if (signal.aborted) return;
+
+      const [before, after] = this.pickComparedImagery(histories, comparison.dates, location);
+      const sides: [SplitSide, IStreetViewProvider, ImageryResult | null, Date][] = [
+        ['left', provider, before, comparison.dates[0]],
+        ['right', clone, after, comparison.dates[1]],
+      ];
+      for (const [side, sideProvider, imagery, date] of sides) {
+        if (imagery) {
+          splitViewer.displayImagery(side, sideProvider, imagery);
+        } else {
+          splitViewer.showNoImagery(side, sideProvider, `No imagery near ${date.toLocaleDateString()}`);
+        }
+      }
+
+      if (!before && !after) {
+        throw new NoCoverageError(
+          `No dated ${provider.displayName} imagery within ${this._options.maxSearchRadius} m`
+        );
+      }
+
+      this._state.loading = false;
+      this._state.imagery = before ?? after;
+      this.emit('load');
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) return;
+
+      const streetViewError = error instanceof Error ? error : new Error(String(error));
+      if (!(error instanceof NoCoverageError)) {
+        splitViewer.showError('left', provider, streetViewError);
+        splitViewer.showError('right', clone, streetViewError);
+      }
+      this._state.loading = false;
+      this._state.error = streetViewError.message;
+      this.emit('error', streetViewError);
+    }
+    this.emit('statechange');
+  }
+
+  /**
+   * Lists the imagery captured within the comparison window around a date, through a
+   * temporary clone so the date filter does not apply to the provider shown.
+   */
+  private async queryHistoryNearDate(
+    provider: IStreetViewProvider,
+    location: LngLat,
+    date: Date,
+    signal: AbortSignal
+  ): Promise<ImageryResult[]> {
+    const filters = this.getImageryFilters();
+    const bounds = getDateRangeBounds({ start: filters.capturedAfter, end: filters.capturedBefore });
+    const windowMs = DATE_COMPARISON_OPTIONS.windowDays * 24 * 60 * 60 * 1000;
+    const start = Math.max(date.getTime() - windowMs, bounds?.start ?? -Infinity);
+    const end = Math.min(date.getTime() + windowMs, bounds?.end ?? Infinity);
+    if (start > end) return [];
+
+    const range = { start: new Date(start), end: new Date(end) };
+    const query = provider.clone?.() ?? provider;
+    if (query !== provider) {
+      this.configureProvider(query);
+      query.setFilters?.({ ...filters, capturedAfter: range.start, capturedBefore: range.end });
+    }
+
+    try {
+      const history = (await query.queryHistory?.(location, this._options.maxSearchRadius, signal)) ?? [];
+      return history.filter((imagery) => isInDateRange(imagery.capturedAt, range));
+    } finally {
+      if (query !== provider) query.destroy();
+    }
+  }
+
+  /**
+   * Picks the image of each compared date. An image found for both dates is only
+   * shown on the side of the closer date, the other side takes its next best image.
+   */
+  private pickComparedImagery(
+    histories: ImageryResult[][],
+    dates: [Date, Date],
+    location: LngLat
+  ): [ImageryResult | null, ImageryResult | null] {
+    const picked = histories.map((history, i) => this.findImageryClosestToDate(history, dates[i], location));
+    const [before, after] = picked;
+    if (!before || !after || before.id !== after.id) return [before, after];
+
+    const time = before.capturedAt!.getTime();
+    const farther = Math.abs(time - dates[0].getTime()) > Math.abs(time - dates[1].getTime()) ? 0 : 1;
+    const others = histories[farther].filter((imagery) => imagery.id !== before.id);
+    picked[farther] = this.findImageryClosestToDate(others, dates[farther], location);
+    return [picked[0], picked[1]];
+  }
+
+  /**
+   * Picks the dated image of the capture day closest to a date, the closest one to
+   * the location on that day.
+   */
+  private findImageryClosestToDate(imagery: ImageryResult[], date: Date, location: LngLat): ImageryResult | null {
+    const dayMs = 24 * 60 * 60 * 1000;
+    let closest: ImageryResult | null = null;
+    let closestDays = Infinity;
+    let closestDistance = Infinity;
+
+    for (const image of imagery) {
+      const time = image.capturedAt?.getTime();
+      if (time === undefined || Number.isNaN(time)) continue;
+
+      const days = Math.round(Math.abs(time - date.getTime()) / dayMs);
+      const distance = calculateDistance(location, image.location);
+      if (days < closestDays || (days === closestDays && distance < closestDistance)) {
+        closest = image;
+        closestDays = days;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  }
+
+  /**
+   * Shows the imagery nearest to a step of the route, facing the heading of travel.
+   * Steps without imagery keep the previous imagery and show a notice.
+   */
+  private async showRouteStep(step: number): Promise<void> {
+    const route = this._route;
+    const provider = this.getCurrentProvider();
+    const viewer = this._viewer;
+    if (!route || !viewer) return;
+
+    this.clearRouteTimer();
+    this.abortRequest();
+    this.clearTimeline();
+    route.step = step;
+    route.imagery = null;
+    route.ended = false;
+    this._routeControls?.setProgress(step, route.points.length);
+
+    if (!provider) {
+      this.pauseRoute();
+      this.showNoData('No street view provider is configured.');
+      return;
+    }
+
+    const controller = new AbortController();
+    this._abortController = controller;
+    const { signal } = controller;
+    const location = route.points[step];
+    const heading = route.headings[step];
+
+    this._state.location = location;
+    this._state.loading = true;
+    this._state.error = null;
+    this.emit('locationchange');
+    if (this._marker && this._map) {
+      this._marker.setLngLat(location).addTo(this._map, location);
+    }
+
+    try {
+      const imagery = await provider.findNearestImagery(location, this._options.maxSearchRadius, signal);
+      if (signal.aborted) return;
+
+      this._state.loading = false;
+      route.imagery = imagery;
+      if (imagery) {
+        this.displayRouteImagery(provider, imagery, heading);
+        this.followLocation(imagery.location);
+        this.emit('load');
+      } else {
+        viewer.showNotice(`No ${provider.displayName} imagery near step ${step + 1}`);
+        this.followLocation(location);
+      }
+      this.emit('routeprogress');
+      this.scheduleRouteStep();
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) return;
+
+      const streetViewError = error instanceof Error ? error : new Error(String(error));
+      this.pauseRoute();
+      this._state.loading = false;
+      this._state.error = streetViewError.message;
+      this.showNoData(streetViewError);
+      this.emit('error', streetViewError);
+    } finally {
+      if (this._abortController === controller) {
+        this._abortController = null;
+      }
+    }
+
+    this.emit('statechange');
+  }
+
+  /**
+   * Displays the imagery of a route step facing the heading of travel. Consecutive
+   * steps often share an image, and providers that can move their viewer do so
+   * instead of recreating it.
+   */
+  private displayRouteImagery(provider: IStreetViewProvider, imagery: ImageryResult, heading: number): void {
+    const viewer = this._viewer;
+    if (!viewer) return;
+
+    const previous = this._state.imagery;
+    const shown = viewer.getCurrentProvider() === provider && !this._noDataMessage && previous !== null;
+    this._state.imagery = imagery;
+    if (this._marker && this._map) {
+      this._marker.setLngLat(imagery.location);
+    }
+
+    viewer.hideLoading();
+    if (shown && previous.id === imagery.id) {
+      void provider.setHeading?.(heading);
+      return;
+    }
+    if (shown && provider.navigateToImage && !previous.stale && !imagery.stale) {
+      void provider.navigateToImage(imagery.id).then(() => provider.setHeading?.(heading));
+      return;
+    }
+    this._noDataMessage?.destroy();
+    this._noDataMessage = null;
+    viewer.displayImagery(provider, imagery, heading);
+
+    // Providers that cannot start at a heading turn once rendered
+    const current = provider.getViewState()?.heading;
+    if (current === undefined || headingDifference(current, heading) >= 1) {
+      void provider.setHeading?.(heading);
+    }
+  }
+
+  /**
+   * Shows the next step after the step duration while the route is playing,
+   * and ends the playback at the last step.
+   */
+  private scheduleRouteStep(): void {
+    const route = this._route;
+    if (!route?.playing) return;
+
+    this.clearRouteTimer();
+    if (route.step >= route.points.length - 1) {
+      route.playing = false;
+      route.ended = true;
+      this._routeControls?.setPlaying(false);
+      this.emit('routeend');
+      return;
+    }
+    this._routeTimer = setTimeout(() => {
+      this._routeTimer = null;
+      void this.showRouteStep(route.step + 1);
+    }, route.stepDuration / route.speed);
+  }
+
+  /**
+   * Cancels the pending route step.
+   */
+  private clearRouteTimer(): void {
+    if (this._routeTimer === null) return;
+    clearTimeout(this._routeTimer);
+    this._routeTimer = null;
+  }
+
+  /**
+   * Gets the coordinates of a route.
+   */
+  private getRouteCoordinates(route: RouteInput): LngLatLike[] {
+    if (Array.isArray(route)) return route;
+    const geometry = route.type === 'Feature' ? route.geometry : route;
+    return geometry.coordinates.map(([lng, lat]) => [lng, lat] as [number, number]);
+  }
+
+  /**
+   * Gets the two providers shown side by side, or null if split mode is off or
+   * one of them is not available. A date comparison takes precedence over split mode.
+   */
+  private getActiveSplitProviders(): SplitProviders | null {
+    if (this._dateComparison) return this._dateComparison.providers;
+
+    const names = this._options.splitProviders;
+    if (!names || names[0] === names[1]) return null;
+
+    const available = this.getAvailableProviders();
+    if (!names.every((name) => available.includes(name))) return null;
+    return [this._providers.get(names[0])!, this._providers.get(names[1])!];
+  }
+
+  /**
+   * Shows either the tabs and viewer, or the split viewer, and moves the current
+   * location over to the one shown.
+   *
+   * @param reload - Whether to show the current location again when the layout changed
+   * @returns True if split mode was turned on or off, or its providers changed
+   */
+  private updateSplitLayout(reload = true): boolean {
+    if (!this._tabs || !this._viewer || !this._splitViewer) return false;
+
+    const providers = this.getActiveSplitProviders();
+    const previous = this._splitProviders;
+    const split = providers !== null;
+    this._tabs.getElement().style.display = split ? 'none' : '';
+    this._viewer.getElement().style.display = split ? 'none' : '';
+    this._splitViewer.getElement().style.display = split ? '' : 'none';
+
+    if (previous === providers || (previous && providers?.every((provider, i) => provider === previous[i]))) {
+      return false;
+    }
+    this._splitProviders = providers;
+
+    // Only one viewer renders a provider at a time, they may share providers
+    this.abortRequest();
+    this._noDataMessage?.destroy();
+    this._noDataMessage = null;
+    if (split) {
+      this._viewer.showInitialState();
+    }
+    if (previous) {
+      this._splitViewer.showInitialState();
+    }
+
+    if (reload && this._state.location) {
+      this.showStreetView(this._state.location);
+    }
+    return true;
+  }
+
+  /**
+   * Gets the providers to query for a location: the active one, then the available
+   * providers of the fallback order.
+   */
+  private getFallbackCandidates(provider: IStreetViewProvider): IStreetViewProvider[] {
+    const candidates = [provider];
+    const available = this.getAvailableProviders();
+
+    for (const name of this._options.fallbackOrder) {
+      const fallback = this._providers.get(name);
+      if (fallback && available.includes(name) && !candidates.includes(fallback)) {
+        candidates.push(fallback);
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Finds imagery with the first candidate provider that has some, or with all
+   * candidates at once in parallel mode. Without imagery, rejects with the first
+   * provider error, if any.
+   *
+   * @returns The imagery and its provider, or null if no provider has imagery
+   */
+  private async resolveImagery(
+    candidates: IStreetViewProvider[],
+    location: LngLat,
+    signal: AbortSignal
+  ): Promise<{ provider: IStreetViewProvider; imagery: ImageryResult; activeHadImagery: boolean } | null> {
+    if (this._options.fallbackMode === 'parallel' && candidates.length > 1) {
+      this._viewer?.showLoading('Searching all providers...');
+      const settled = await Promise.allSettled(
+        candidates.map((candidate) => this.findImagery(candidate, location, signal, false))
+      );
+      signal.throwIfAborted();
+
+      const results = settled.map((result) => (result.status === 'fulfilled' ? result.value : null));
+      const selected = this.selectImagery(
+        results.filter((imagery): imagery is ImageryResult => imagery !== null),
+        location
+      );
+      const index = selected ? results.indexOf(selected) : -1;
+      if (index >= 0) {
+        return { provider: candidates[index], imagery: results[index]!, activeHadImagery: results[0] !== null };
+      }
+
+      const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) throw failure.reason;
+      return null;
+    }
+
+    let firstError: unknown;
+    for (const candidate of candidates) {
+      if (candidate !== candidates[0]) {
+        this._viewer?.showLoading(`Trying ${candidate.displayName}...`);
+      }
+
+      try {
+        const imagery = await this.findImagery(candidate, location, signal);
+        if (imagery) return { provider: candidate, imagery, activeHadImagery: false };
+      } catch (error) {
+        if (signal.aborted || isAbortError(error)) throw error;
+        firstError ??= error;
+      }
+    }
+
+    if (firstError) throw firstError;
+    return null;
+  }
+
+  /**
+   * Queries a provider at a location, then searches nearby up to the maximum search radius.
+   */
+  private async findImagery(
+    provider: IStreetViewProvider,
+    location: LngLat,
+    signal: AbortSignal,
+    showProgress = true
+  ): Promise<ImageryResult | null> {
+    let imagery: ImageryResult | null = null;
+    try {
+      imagery = await provider.queryImagery(location, undefined, signal);
+    } catch (error) {
+      // Imagery stored for offline use may still be found further away
+      if (!(error instanceof NetworkError)) throw error;
+    }
+    if (imagery || signal.aborted) return imagery;
+
+    if (showProgress) {
+      this._viewer?.showLoading('Searching nearby...');
+    }
+    return provider.findNearestImagery(location, this._options.maxSearchRadius, signal);
+  }
+
+  /**
+   * Picks one imagery result using the fallback strategy.
+   * Ties keep the earlier provider in the fallback order.
+   */
+  private selectImagery(results: ImageryResult[], location: LngLat): ImageryResult | null {
+    const strategy = this._options.fallbackStrategy;
+    if (typeof strategy === 'function') {
+      return strategy(results, location);
+    }
+
+    let best: ImageryResult | null = null;
+    for (const imagery of results) {
+      if (!best || this.compareImagery(imagery, best, location, strategy) < 0) {
+        best = imagery;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Compares two results: negative if `a` is preferred over `b`.
+   * Newest falls back to closest for images without (or with the same) capture date.
+   */
+  private compareImagery(a: ImageryResult, b: ImageryResult, location: LngLat, strategy: 'closest' | 'newest'): number {
+    if (strategy === 'newest') {
+      const age = (b.capturedAt?.getTime() ?? -Infinity) - (a.capturedAt?.getTime() ?? -Infinity);
+      if (age !== 0 && !Number.isNaN(age)) return age;
+    }
+    return calculateDistance(location, a.location) - calculateDistance(location, b.location);
+  }
+
+  /**
+   * Describes the fallback strategy for the notice shown after switching providers.
+   */
+  private describeStrategy(): string {
+    const strategy = this._options.fallbackStrategy;
+    return typeof strategy === 'function' ? 'best' : strategy;
+  }
+
+  /**
+   * Shows the no data message, tailored to the error if given.
+   */
+  private showNoData(error?: string | Error): void {
+    if (!this._viewer) return;
+
+    this._viewer.clearContent();
+
+    this._noDataMessage = new NoDataMessage({
+      provider: this._state.activeProvider,
+      providerName: this._providers.get(this._state.activeProvider)?.displayName,
+      showSearchButton: true,
+      onSearchNearest: () => this.searchNearest(),
+    });
+
+    if (error) {
+      this._noDataMessage.showError(error, this._state.activeProvider);
+    }
+
+    this._viewer.getElement().appendChild(this._noDataMessage.getElement());
+  }
+
+  /**
+   * Searches for the nearest imagery with larger radius.
+   */
+  private async searchNearest(): Promise<void> {
+    if (!this._state.location) return;
+
+    const provider = this.getCurrentProvider();
+    if (!provider) return;
+
+    this.abortRequest();
+    const controller = new AbortController();
+    this._abortController = controller;
+    const { signal } = controller;
+
+    this._noDataMessage?.showSearching();
+
+    try {
+      const imagery = await provider.findNearestImagery(this._state.location, 500, signal);
+      if (signal.aborted) return;
+
+      if (imagery) {
+        this._state.imagery = imagery;
+
+        // Update marker
+        if (this._marker && this._map) {
+          this._marker.setLngLat(imagery.location);
+          if (imagery.heading !== undefined) {
+            this._marker.setHeading(imagery.heading);
+          }
+        }
+
+        // Remove no data message and show imagery
+        this._noDataMessage?.destroy();
+        this._noDataMessage = null;
+        this._viewer?.displayImagery(provider, imagery);
+        this.emit('load');
+      } else {
+        this._noDataMessage?.showNotFound();
+      }
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) return;
+      this._noDataMessage?.showError(error instanceof Error ? error : 'Search failed', this._state.activeProvider);
+    } finally {
+      if (this._abortController === controller) {
+        this._abortController = null;
+      }
+    }
+
+    this.emit('statechange');
+  }
+
+  /**
+   * Cancels the imagery request in flight, if any.
+   * The viewer keeps showing the previous imagery.
+   */
+  cancel(): this {
+    if (!this.abortRequest()) return this;
+
+    this._state.loading = false;
+    this._viewer?.hideLoading();
+    this._noDataMessage?.reset(this._state.activeProvider);
+    this.emit('statechange');
+    return this;
+  }
+
+  /**
+   * Aborts the request in flight and emits the abort event.
+   *
+   * @returns True if a request was aborted
+   */
+  private abortRequest(): boolean {
+    const controller = this._abortController;
+    if (!controller) return false;
+
+    this._abortController = null;
+    controller.abort();
+    this.emit('abort');
+    return true;
+  }
+
+  /**
+   * Clears the current street view display.
+   */
+  clearStreetView(): void {
+    this.abortRequest();
+    this.stopRoute();
+    this._state.loading = false;
+    this._state.location = null;
+    this._state.imagery = null;
+    this._state.heading = 0;
+    this._state.error = null;
+
+    this._viewer?.showInitialState();
+    this._splitViewer?.showInitialState();
+    this.clearTimeline();
+    this._marker?.remove();
+    if (this._dateComparison) {
+      this._dateComparison = null;
+      this.updateSplitLayout();
+    }
+    this._noDataMessage?.destroy();
+    this._noDataMessage = null;
+
+    this.emit('statechange');
+  }
+
+  /**
+   * Sets the active provider.
+   *
+   * @param provider - The provider to activate
+   */
+  setProvider(provider: ProviderType): void {
+    if (this._state.activeProvider === provider) return;
+
+    this._state.activeProvider = provider;
+    this._tabs?.setActive(provider);
+
+    // A date comparison belongs to the previous provider
+    if (this._dateComparison) {
+      this._dateComparison = null;
+      this.updateSplitLayout(false);
+    }
+
+    // Re-query if we have a location
+    if (this._state.location) {
+      this.showStreetView(this._state.location);
+    } else {
+      this._viewer?.showInitialState();
+    }
+
+    this.updateCoverage();
+
+    this.emit('providerchange');
+    this.emit('statechange');
+  }
+
+  /**
+   * Only shows imagery captured within a date range, and reloads the current location.
+   *
+   * @param range - The date range, or null for imagery of any date
+   */
+  setDateRange(range: DateRange | null): this {
+    return this.updateOptions({ dateRange: range });
+  }
+
+  /**
+   * Replaces the imagery filters, and reloads the current location.
+   *
+   * @param filters - The filters, empty for all imagery
+   */
+  setFilters(filters: ImageryFilters): this {
+    return this.updateOptions({ filters });
+  }
+
+  /**
+   * Gets the imagery filters.
+   *
+   * @returns A copy of the filters set
+   */
+  getFilters(): ImageryFilters {
+    return { ...this._options.filters };
+  }
+
+  /**
+   * Shows two providers side by side for the same location, or the tabs again.
+   * Split mode waits until both providers are available.
+   *
+   * @param providers - The left and right provider, or null for a single provider
+   */
+  setSplitProviders(providers: [ProviderType, ProviderType] | null): this {
+    return this.updateOptions({ splitProviders: providers });
+  }
+
+  /**
+   * Gets the providers shown side by side.
+   *
+   * @returns The left and right provider names, or null when not in split mode
+   */
+  getSplitProviders(): [ProviderType, ProviderType] | null {
+    const providers = this._splitProviders;
+    return providers ? [providers[0].name, providers[1].name] : null;
+  }
+
+  /**
+   * Compares the imagery of two capture dates of the active provider side by side,
+   * with linked headings. Each side shows the imagery of the capture day closest
+   * to its date. Locations picked afterwards are compared at the same dates,
+   * until stopComparingDates() or clearStreetView() is called.
+   *
+   * @param lngLat - The location to compare
+   * @param dateA - The date shown on the left, e.g. before a change
+   * @param dateB - The date shown on the right, e.g. after a change
+   */
+  async compareDates(lngLat: LngLat | [number, number], dateA: Date | string, dateB: Date | string): Promise<void> {
+    const provider = this.getCurrentProvider();
+    if (!provider?.queryHistory || !provider.clone) {
+      throw new StreetViewError(`${provider?.displayName ?? 'The active provider'} cannot compare capture dates`);
+    }
+
+    const dates: [Date, Date] = [parseDate(dateA), parseDate(dateB)];
+    if (dates.some((date) => Number.isNaN(date.getTime()))) {
+      throw new StreetViewError(`Invalid date to compare: ${String(dateA)}, ${String(dateB)}`);
+    }
+
+    // Keep the clone of a running comparison so its viewer can move to the new image
+    const current = this._dateComparison;
+    const clone = current?.providers[0] === provider ? current.providers[1] : provider.clone();
+    this._dateComparison = { dates, providers: [provider, clone] };
+
+    this.updateSplitLayout(false);
+    await this.showStreetView(lngLat);
+  }
+
+  /**
+   * Stops comparing capture dates, and shows the current location as before.
+   */
+  stopComparingDates(): this {
+    if (!this._dateComparison) return this;
+    this._dateComparison = null;
+    this.updateSplitLayout();
+    return this;
+  }
+
+  /**
+   * Gets the capture dates compared side by side.
+   *
+   * @returns The left and right date, or null when not comparing dates
+   */
+  getComparedDates(): [Date, Date] | null {
+    return this._dateComparison ? [...this._dateComparison.dates] : null;
+  }
+
+  /**
+   * Drives through the imagery along a route: the route is sampled into steps, and
+   * each step shows the imagery nearest to it facing the heading of travel.
+   * Progress is emitted as `routeprogress` events, and the panel offers play, pause,
+   * speed and scrub controls. Routes replace split mode and date comparisons.
+   *
+   * @param route - A GeoJSON LineString, a Feature of one, or its coordinates
+   * @param options - Step interval, duration, speed and autoplay
+   */
+  async startRoute(route: RouteInput, options: RouteOptions = {}): Promise<void> {
+    const { interval, stepDuration, speed, autoplay } = { ...DEFAULT_ROUTE_OPTIONS, ...options };
+    const points = sampleLine(this.getRouteCoordinates(route), interval);
+    if (points.length === 0) {
+      throw new StreetViewError('The route has no coordinates');
+    }
+
+    // The route plays in the single viewer
+    this.stopRoute();
+    if (this._dateComparison) {
+      this._dateComparison = null;
+      this.updateSplitLayout(false);
+    }
+    if (this._splitProviders) {
+      // Same as setSplitProviders(null), without reloading the current location
+      this._options.splitProviders = null;
+      this.updateSplitLayout(false);
+    }
+
+    // Face the next step, and keep the heading of the last segment at the end
+    const headings = points.map((point, i) =>
+      i < points.length - 1
+        ? calculateBearing(point, points[i + 1])
+        : i > 0
+          ? calculateBearing(points[i - 1], point)
+          : this._state.heading
+    );
+    this._route = { points, headings, step: 0, imagery: null, playing: autoplay, ended: false, speed, stepDuration };
+    this._routeControls?.setRoute(points.length, speed);
+    this._routeControls?.setPlaying(autoplay);
+    if (this._state.collapsed) {
+      this.expand();
+    }
+
+    this.emit('routestart');
+    await this.showRouteStep(0);
+  }
+
+  /**
+   * Plays the route from the current step, or from the start after its end.
+   */
+  playRoute(): this {
+    const route = this._route;
+    if (!route || route.playing) return this;
+
+    route.playing = true;
+    this._routeControls?.setPlaying(true);
+    void this.showRouteStep(route.step >= route.points.length - 1 ? 0 : route.step + 1);
+    return this;
+  }
+
+  /**
+   * Pauses the route at the current step.
+   */
+  pauseRoute(): this {
+    const route = this._route;
+    if (!route?.playing) return this;
+
+    route.playing = false;
+    this.clearRouteTimer();
+    this._routeControls?.setPlaying(false);
+    return this;
+  }
+
+  /**
+   * Shows a step of the route. Playback continues from there.
+   *
+   * @param step - The index of the step
+   */
+  seekRoute(step: number): this {
+    const route = this._route;
+    if (!route) return this;
+
+    void this.showRouteStep(clamp(Math.round(step), 0, route.points.length - 1));
+    return this;
+  }
+
+  /**
+   * Sets the playback speed of the route.
+   *
+   * @param speed - The speed, 2 plays twice as fast
+   */
+  setRouteSpeed(speed: number): this {
+    const route = this._route;
+    if (!route || speed <= 0) return this;
+
+    route.speed = speed;
+    this._routeControls?.setSpeed(speed);
+    if (this._routeTimer !== null) {
+      this.scheduleRouteStep();
+    }
+    return this;
+  }
+
+  /**
+   * Stops the route and hides its controls. The imagery of the current step stays.
+   */
+  stopRoute(): this {
+    if (!this._route) return this;
+
+    this.clearRouteTimer();
+    this._routeControls?.clear();
+    // A route that played to its end already emitted routeend
+    if (!this._route.ended) {
+      this.emit('routeend');
+    }
+    this._route = null;
+    return this;
+  }
+
+  /**
+   * Gets the progress of the route.
+   *
+   * @returns The progress, or null when no route is loaded
+   */
+  getRouteProgress(): RouteProgress | null {
+    const route = this._route;
+    if (!route) return null;
+
+    return {
+      step: route.step,
+      total: route.points.length,
+      location: route.points[route.step],
+      heading: route.headings[route.step],
+      imagery: route.imagery,
+      playing: route.playing,
+      speed: route.speed,
+    };
+  }
+
+  /**
+   * Turns the viewer to a heading. In split mode both sides turn.
+   * Providers without heading control, like flat Panoramax pictures, stay as they are.
+   *
+   * @param heading - The heading in degrees clockwise from north
+   */
+  setHeading(heading: number): this {
+    const target = normalizeHeading(heading);
+    for (const provider of this.getDisplayedProviders()) {
+      const current = provider.getViewState()?.heading;
+      if (!provider.setHeading || (current !== undefined && headingDifference(current, target) < 1)) continue;
+      void provider.setHeading(target);
+    }
+    return this;
+  }
+
+  /**
+   * Tilts the viewer. In split mode both sides tilt.
+   *
+   * @param pitch - The pitch in degrees, from -90 (down) to 90 (up)
+   */
+  setPitch(pitch: number): this {
+    const target = clamp(pitch, -90, 90);
+    for (const provider of this.getDisplayedProviders()) {
+      void provider.setPitch?.(target);
+    }
+    this.updateViewState(this.getDisplayedProviders()[0]);
+    return this;
+  }
+
+  /**
+   * Zooms the viewer. In split mode both sides zoom.
+   *
+   * @param zoom - The zoom level of the provider, as in the `zoom` of its view state
+   */
+  setZoom(zoom: number): this {
+    for (const provider of this.getDisplayedProviders()) {
+      void provider.setZoom?.(zoom);
+    }
+    this.updateViewState(this.getDisplayedProviders()[0]);
+    return this;
+  }
+
+  /**
+   * Turns the viewer with the map bearing and pitch, and the map with the viewer.
+   *
+   * @param enabled - Whether to sync the map view
+   */
+  setSyncMapView(enabled: boolean): this {
+    return this.updateOptions({ syncMapView: enabled });
+  }
+
+  /**
+   * Sets how the map follows the viewer, or pass null to leave the map in place.
+   *
+   * @param mode - The follow mode
+   */
+  setFollowMode(mode: FollowMode | null): this {
+    return this.updateOptions({ followMode: mode });
+  }
+
+  /**
+   * Enables or disables the imagery coverage layers.
+   * Coverage is only shown while the panel is expanded.
+   *
+   * @param enabled - Whether to show coverage
+   */
+  setCoverageEnabled(enabled: boolean): this {
+    this._options.showCoverage = enabled;
+    this.updateCoverage();
+    return this;
+  }
+
+  /**
+   * Checks if the imagery coverage layers are enabled.
+   */
+  isCoverageEnabled(): boolean {
+    return this._options.showCoverage;
+  }
+
+  /**
+   * Rebuilds the coverage layers when a registered provider reports that they changed,
+   * e.g. after Mapillary fetched a new access token.
+   *
+   * @param provider - The registered provider
+   */
+  private watchCoverage(provider: IStreetViewProvider): void {
+    if (!provider.onCoverageChange || this._coverageListeners.has(provider)) return;
+
+    const listener = (): void => {
+      if (this.getCurrentProvider() === provider) this.updateCoverage();
+    };
+    this._coverageListeners.set(provider, listener);
+    provider.onCoverageChange(listener);
+  }
+
+  /**
+   * Stops listening to the coverage changes of a provider.
+   *
+   * @param provider - The provider being removed or replaced
+   */
+  private unwatchCoverage(provider: IStreetViewProvider): void {
+    const listener = this._coverageListeners.get(provider);
+    if (!listener) return;
+
+    provider.offCoverageChange?.(listener);
+    this._coverageListeners.delete(provider);
+  }
+
+  /**
+   * Adds or removes the coverage layers of the active provider
+   * based on the coverage option and panel state.
+   */
+  private updateCoverage(): void {
+    this.removeCoverage();
+
+    const map = this._map;
+    const showCoverage = this._options.showCoverage || this._markerDragging;
+    if (!map || !showCoverage || this._state.collapsed) return;
+
+    const coverage = this.getCurrentProvider()?.getCoverageLayers?.();
+    if (!coverage) return;
+
+    // Wait until the style can accept new sources
+    if (!map.isStyleLoaded()) {
+      if (!this._coveragePending) {
+        this._coveragePending = true;
+        map.once('idle', () => {
+          this._coveragePending = false;
+          this.updateCoverage();
+        });
+      }
+      return;
+    }
+
+    const prefix = `${this._id}-coverage`;
+
+    for (const [id, source] of Object.entries(coverage.sources)) {
+      const sourceId = `${prefix}-${id}`;
+      map.addSource(sourceId, source);
+      this._coverageSourceIds.push(sourceId);
+    }
+
+    for (const layer of coverage.layers) {
+      const layerId = `${prefix}-${layer.id}`;
+      const source = 'source' in layer && typeof layer.source === 'string' ? `${prefix}-${layer.source}` : undefined;
+      map.addLayer({ ...layer, id: layerId, ...(source ? { source } : {}) } as LayerSpecification);
+      this._coverageLayerIds.push(layerId);
+    }
+  }
+
+  /**
+   * Removes all coverage layers and sources from the map.
+   */
+  private removeCoverage(): void {
+    const map = this._map;
+    if (map) {
+      for (const layerId of this._coverageLayerIds) {
+        if (map.getLayer(layerId)) {
+          map.removeLayer(layerId);
+        }
+      }
+      for (const sourceId of this._coverageSourceIds) {
+        if (map.getSource(sourceId)) {
+          map.removeSource(sourceId);
+        }
+      }
+    }
+    this._coverageLayerIds = [];
+    this._coverageSourceIds = [];
+  }
+
+  /**
+   * Expands the panel.
+   */
+  expand(): void {
+    if (!this._state.collapsed) return;
+
+    this._state.collapsed = false;
+    this._panel?.show();
+    this._container?.classList.add('active');
+    this.updatePanelPosition();
+    this.updateCoverage();
+
+    this.emit('expand');
+    this.emit('statechange');
+  }
+
+  /**
+   * Collapses the panel.
+   */
+  collapse(): void {
+    if (this._state.collapsed) return;
+
+    this._state.collapsed = true;
+    this._panel?.hide();
+    this._container?.classList.remove('active');
+    this.updateCoverage();
+
+    this.emit('collapse');
+    this.emit('statechange');
+  }
+
+  /**
+   * Toggles the panel visibility.
+   */
+  toggle(): void {
+    if (this._state.collapsed) {
+      this.expand();
+    } else {
+      this.collapse();
+    }
+  }
+
+  /**
+   * Gets the current control state.
+   */
+  getState(): StreetViewState {
+    return { ...this._state };
+  }
+
+  /**
+   * Subscribes to control events.
+   *
+   * @param event - The event type
+   * @param handler - The event handler
+   */
+  on(event: StreetViewEvent, handler: StreetViewEventHandler): this {
+    if (!this._eventHandlers.has(event)) {
       this._eventHandlers.set(event, new Set());
     }
     this._eventHandlers.get(event)!.add(handler);
@@ -537,6 +2494,9 @@ export class StreetViewControl implements IControl {
       state: this.getState(),
       error,
     };
+    if (event.startsWith('route')) {
+      eventData.route = this.getRouteProgress() ?? undefined;
+    }
 
     for (const handler of handlers) {
       handler(eventData);
@@ -1,4 +1,11 @@
-import type { StreetViewControlOptions, MarkerOptions } from './types';
+import type {
+  StreetViewControlOptions,
+  MarkerOptions,
+  ImageryCacheOptions,
+  RetryOptions,
+  RateLimitOptions,
+  RouteOptions,
+} from './types';
 
 /**
  * Default marker options.
@@ -7,12 +14,30 @@ export const DEFAULT_MARKER_OPTIONS: Required<MarkerOptions> = {
   color: '#ff5722',
   showDirection: true,
   directionColor: '#1976d2',
+  draggable: false,
+  showViewCone: false,
+  viewConeLength: 30,
+  viewConeOpacity: 0.3,
+  viewConeColor: '#1976d2',
 };
 
 /**
  * Default control options.
  */
-export const DEFAULT_OPTIONS: Required<Omit<StreetViewControlOptions, 'googleApiKey' | 'mapillaryAccessToken' | 'className'>> & {
+export const DEFAULT_OPTIONS: Required<
+  Omit<
+    StreetViewControlOptions,
+    | 'googleApiKey'
+    | 'googleSignUrl'
+    | 'googleMetadataUrl'
+    | 'googleCoverageTilesUrl'
+    | 'mapillaryAccessToken'
+    | 'getMapillaryAccessToken'
+    | 'className'
+    | 'transport'
+    | 'transformRequest'
+  >
+> & {
   googleApiKey: string;
   mapillaryAccessToken: string;
   className: string;
@@ -26,12 +51,129 @@ export const DEFAULT_OPTIONS: Required<Omit<StreetViewControlOptions, 'googleApi
   minPanelHeight: 200,
   defaultProvider: 'google',
   googleApiKey: '',
+  googleRenderer: 'embed',
   mapillaryAccessToken: '',
+  providers: [],
   className: '',
   maxSearchRadius: 100,
+  fallbackOrder: [],
+  fallbackMode: 'sequential',
+  fallbackStrategy: 'closest',
+  splitProviders: null,
+  dateRange: null,
+  filters: {},
+  showTimeline: false,
+  followMode: null,
+  syncMapView: false,
   clickToView: true,
   showMarker: true,
   markerOptions: DEFAULT_MARKER_OPTIONS,
+  showCoverage: false,
+  cache: false,
+  cacheOptions: {},
+  retry: false,
+  rateLimit: false,
+};
+
+/**
+ * Default imagery cache options.
+ */
+export const DEFAULT_CACHE_OPTIONS: Required<ImageryCacheOptions> = {
+  maxEntries: 500,
+  ttl: 5 * 60 * 1000,
+  precision: 5,
+};
+
+/**
+ * Default retry options.
+ */
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 10 * 1000,
+};
+
+/**
+ * Default per-provider rate limit options.
+ */
+export const DEFAULT_RATE_LIMIT_OPTIONS: Required<RateLimitOptions> = {
+  requestsPerSecond: 10,
+  burst: 20,
+};
+
+/**
+ * Default IndexedDB imagery cache options.
+ */
+export const OFFLINE_CACHE_OPTIONS = {
+  dbName: 'maplibre-gl-streetview',
+  ttl: 24 * 60 * 60 * 1000,
+  thumbnails: true,
+};
+
+/**
+ * Default area prefetch options.
+ */
+export const PREFETCH_OPTIONS = {
+  spacing: 100,
+  maxPoints: 400,
+};
+
+/**
+ * Timeline options.
+ */
+export const TIMELINE_OPTIONS = {
+  radius: 50,
+};
+
+/**
+ * Date comparison options.
+ */
+export const DATE_COMPARISON_OPTIONS = {
+  // Days before and after each compared date searched for imagery
+  windowDays: 730,
+};
+
+/**
+ * Default route drive-through options.
+ */
+export const DEFAULT_ROUTE_OPTIONS: Required<RouteOptions> = {
+  interval: 25,
+  stepDuration: 2000,
+  speed: 1,
+  autoplay: true,
+};
+
+/**
+ * Playback speeds offered by the route controls.
+ */
+export const ROUTE_SPEEDS = [0.5, 1, 2, 4];
+
+/**
+ * Follow mode options.
+ */
+export const FOLLOW_OPTIONS = {
+  // Animation duration of each map move (ms)
+  duration: 500,
+  // Share of the smaller map side kept clear at the edges in 'bounds' mode
+  edgeMargin: 0.15,
+  // Time after the last manual map move before following resumes (ms)
+  resumeDelay: 5000,
+};
+
+/**
+ * Marker drag options.
+ */
+export const MARKER_DRAG_OPTIONS = {
+  // Time between imagery lookups for the snap target while dragging (ms)
+  lookupInterval: 300,
+};
+
+/**
+ * Map view sync options.
+ */
+export const MAP_SYNC_OPTIONS = {
+  // Viewer pitch per degree of map pitch; a flat map keeps the viewer level
+  pitchScale: 0.5,
 };
 
 /**
@@ -41,6 +183,7 @@ export const GOOGLE_API = {
   EMBED_URL: 'https://www.google.com/maps/embed/v1/streetview',
   STATIC_URL: 'https://maps.googleapis.com/maps/api/streetview',
   METADATA_URL: 'https://maps.googleapis.com/maps/api/streetview/metadata',
+  JS_API_URL: 'https://maps.googleapis.com/maps/api/js',
 };
 
 /**
@@ -49,6 +192,25 @@ export const GOOGLE_API = {
 export const MAPILLARY_API = {
   GRAPH_URL: 'https://graph.mapillary.com',
   IMAGES_ENDPOINT: '/images',
+  COVERAGE_TILES_URL: 'https://tiles.mapillary.com/maps/vtp/mly1_public/2/{z}/{x}/{y}',
+};
+
+/**
+ * KartaView (formerly OpenStreetCam) API endpoints.
+ */
+export const KARTAVIEW_API = {
+  BASE_URL: 'https://api.openstreetcam.org',
+  NEARBY_PHOTOS_ENDPOINT: '/1.0/list/nearby-photos/',
+  SEQUENCE_ENDPOINT: '/2.0/sequence',
+  SEQUENCE_PAGE_SIZE: 1000, // Photos requested per sequence page
+};
+
+/**
+ * Panoramax API endpoints (relative to the instance base URL).
+ */
+export const PANORAMAX_API = {
+  SEARCH_ENDPOINT: '/api/search',
+  COVERAGE_TILES_ENDPOINT: '/api/map/{z}/{x}/{y}.mvt',
 };
 
 /**
@@ -62,6 +224,8 @@ export const MAPILLARY_IMAGE_FIELDS = [
   'captured_at',
   'compass_angle',
   'is_pano',
+  'creator',
+  'quality_score',
 ].join(',');
 
 /**
@@ -83,6 +247,21 @@ export const CSS_CLASSES = {
   PROVIDER_TAB_ACTIVE: 'active',
   VIEWER: 'streetview-viewer',
   VIEWER_LOADING: 'streetview-viewer-loading',
+  VIEWER_STALE: 'streetview-viewer-stale',
+  VIEWER_NOTICE: 'streetview-viewer-notice',
+  SPLIT_VIEWER: 'streetview-split-viewer',
+  SPLIT_DIVIDER: 'streetview-split-divider',
+  SPLIT_INFO: 'streetview-split-info',
+  SPLIT_LABEL: 'streetview-split-label',
+  TIMELINE: 'streetview-timeline',
+  TIMELINE_ITEM: 'streetview-timeline-item',
+  TIMELINE_ITEM_ACTIVE: 'active',
+  ROUTE_CONTROLS: 'streetview-route-controls',
+  ROUTE_PLAY: 'streetview-route-play',
+  ROUTE_SLIDER: 'streetview-route-slider',
+  ROUTE_STEP: 'streetview-route-step',
+  ROUTE_SPEED: 'streetview-route-speed',
+  ROUTE_CLOSE: 'streetview-route-close',
   SPINNER: 'streetview-spinner',
   NO_DATA: 'streetview-no-data',
   NO_DATA_ICON: 'streetview-no-data-icon',
@@ -90,6 +269,12 @@ export const CSS_CLASSES = {
   NO_DATA_MESSAGE: 'streetview-no-data-message',
   NO_DATA_ACTION: 'streetview-no-data-action',
   NO_DATA_BUTTON: 'streetview-no-data-button',
+  PHOTO_VIEWER: 'streetview-photo-viewer',
+  PHOTO_VIEWER_IMAGE: 'streetview-photo-viewer-image',
+  PHOTO_VIEWER_NAV: 'streetview-photo-viewer-nav',
+  PHOTO_VIEWER_PREV: 'streetview-photo-viewer-prev',
+  PHOTO_VIEWER_NEXT: 'streetview-photo-viewer-next',
+  PANORAMA_VIEWER: 'streetview-panorama-viewer',
   MARKER: 'streetview-marker',
   MARKER_DOT: 'streetview-marker-dot',
   MARKER_DIRECTION: 'streetview-marker-direction',
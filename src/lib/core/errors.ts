@@ -0,0 +1,113 @@
+/**
+ * Options for street view errors.
+ */
+export interface StreetViewErrorOptions {
+  /** Provider-specific status, e.g. an HTTP code or a Google metadata status */
+  status?: number | string;
+
+  /** Parsed error response body, if any */
+  details?: unknown;
+
+  /** The underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors raised while querying street view providers.
+ */
+export class StreetViewError extends Error {
+  readonly status?: number | string;
+  readonly details?: unknown;
+  readonly cause?: unknown;
+
+  /**
+   * Creates a new StreetViewError.
+   *
+   * @param message - The error message
+   * @param options - Status, details and cause of the error
+   */
+  constructor(message: string, options: StreetViewErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The provider refused the request because a rate limit or quota was reached.
+ */
+export class QuotaExceededError extends StreetViewError {
+  /** Seconds to wait before retrying, if the provider said so */
+  readonly retryAfter?: number;
+
+  /**
+   * Creates a new QuotaExceededError.
+   *
+   * @param message - The error message
+   * @param options - Error options, plus the Retry-After delay in seconds
+   */
+  constructor(message: string, options: StreetViewErrorOptions & { retryAfter?: number } = {}) {
+    super(message, options);
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * The API key or access token is missing, invalid, expired or not allowed.
+ */
+export class AuthError extends StreetViewError {}
+
+/**
+ * The provider could not be reached or failed on its side.
+ */
+export class NetworkError extends StreetViewError {}
+
+/**
+ * No imagery is available around the requested location.
+ */
+export class NoCoverageError extends StreetViewError {}
+
+/**
+ * Maps an unsuccessful HTTP response to a street view error.
+ *
+ * @param response - The HTTP response
+ * @param details - The parsed response body, if any
+ * @returns The matching error
+ */
+export function errorFromResponse(response: Response, details?: unknown): StreetViewError {
+  const { status } = response;
+  const message = `HTTP error! status: ${status}`;
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, { status, details });
+  }
+  if (status === 429) {
+    const retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
+    return new QuotaExceededError(message, { status, details, retryAfter });
+  }
+  if (status >= 500) {
+    return new NetworkError(message, { status, details });
+  }
+  return new StreetViewError(message, { status, details });
+}
+
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date.
+ *
+ * @param value - The header value
+ * @returns The delay in seconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, (date - Date.now()) / 1000);
+}
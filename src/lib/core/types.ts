@@ -1,9 +1,19 @@
-import type { Map as MapLibreMap, LngLat, LngLatLike } from 'maplibre-gl';
+import type {
+  Map as MapLibreMap,
+  LngLat,
+  LngLatLike,
+  LayerSpecification,
+  SourceSpecification,
+} from 'maplibre-gl';
+import type { ImageryQueryCache } from '../utils/cache';
+import type { TokenBucket } from '../utils/rateLimit';
 
 /**
  * Street view provider types.
+ * The built-in providers are listed explicitly; any other string identifies
+ * a custom provider registered with `StreetViewControl.registerProvider()`.
  */
-export type ProviderType = 'google' | 'mapillary';
+export type ProviderType = 'google' | 'mapillary' | (string & {});
 
 /**
  * Control position on the map.
@@ -41,15 +51,92 @@ export interface StreetViewControlOptions {
   /** Google Maps API key */
   googleApiKey?: string;
 
+  /**
+   * How Google imagery is displayed. 'embed' uses the Maps Embed API iframe,
+   * 'javascript' the Maps JavaScript API with live heading and position updates,
+   * which needs `googleApiKey`. Default: 'embed'
+   */
+  googleRenderer?: 'embed' | 'javascript';
+
+  /**
+   * Adds the key and a signature to Google URLs on your server.
+   * Receives a URL without the key and resolves to the URL with `key` and `signature` added.
+   * Signing only protects metadata requests: the embed iframe and the signed URLs still
+   * expose the key, so restrict it by HTTP referrer. Only supported by the 'embed' renderer.
+   */
+  googleSignUrl?: (url: string) => Promise<string>;
+
+  /** Proxy endpoint for Google metadata lookups that adds the key server-side */
+  googleMetadataUrl?: string;
+
+  /**
+   * Raster tile URL template of a Google coverage layer you are licensed to use.
+   * Without it Google has no coverage overlay.
+   */
+  googleCoverageTilesUrl?: string;
+
   /** Mapillary access token */
   mapillaryAccessToken?: string;
 
+  /**
+   * Fetches a fresh Mapillary access token, for short-lived user tokens.
+   * Called lazily and again when a request is rejected as unauthorized.
+   */
+  getMapillaryAccessToken?: () => Promise<string>;
+
+  /** Additional (custom) providers to register with the control. Default: [] */
+  providers?: IStreetViewProvider[];
+
   /** Custom CSS class name */
   className?: string;
 
   /** Maximum search radius for nearest imagery (meters). Default: 100 */
   maxSearchRadius?: number;
 
+  /**
+   * Providers to try, in order, when the active provider has no imagery at a location.
+   * The control switches to the provider that has imagery. Default: [] (no fallback)
+   */
+  fallbackOrder?: ProviderType[];
+
+  /**
+   * 'sequential' tries the fallback providers one after another, 'parallel' queries
+   * the active and fallback providers at once and picks a result with `fallbackStrategy`.
+   * Default: 'sequential'
+   */
+  fallbackMode?: 'sequential' | 'parallel';
+
+  /** How the parallel fallback picks among the imagery found. Default: 'closest' */
+  fallbackStrategy?: FallbackStrategy;
+
+  /**
+   * Two providers to show side by side for the same location, replacing the tabs.
+   * Default: null (a single provider)
+   */
+  splitProviders?: [ProviderType, ProviderType] | null;
+
+  /** Only show imagery captured within this range. Default: null (any date) */
+  dateRange?: DateRange | null;
+
+  /** Only show imagery matching these filters. Default: {} (no filtering) */
+  filters?: ImageryFilters;
+
+  /** Show a timeline of the imagery captured near the current location. Default: false */
+  showTimeline?: boolean;
+
+  /**
+   * Move the map along while the user walks through the imagery. Panning or zooming
+   * the map suspends following for a few seconds. Default: null (the map stays put)
+   */
+  followMode?: FollowMode | null;
+
+  /**
+   * Turn the viewer with the map bearing and tilt it with the map pitch once the map
+   * stops moving, and rotate the map when the viewer turns. A flat map keeps the
+   * viewer level. Default: false
+   */
+  syncMapView?: boolean;
+
   /** Enable click-to-view on map. Default: true */
   clickToView?: boolean;
 
@@ -58,6 +145,275 @@ export interface StreetViewControlOptions {
 
   /** Marker options */
   markerOptions?: MarkerOptions;
+
+  /** Show imagery coverage of the active provider on the map while the panel is expanded. Default: false */
+  showCoverage?: boolean;
+
+  /**
+   * Cache imagery lookups shared by all providers.
+   * Pass `true` for the in-memory store or a custom ImageryCache.
+   * Default: false
+   */
+  cache?: boolean | ImageryCache;
+
+  /** Options for the imagery cache */
+  cacheOptions?: ImageryCacheOptions;
+
+  /**
+   * Retry requests that were rate limited (HTTP 429) or failed on the network or server side (5xx).
+   * Pass `true` or RetryOptions to tune the backoff. Network errors are not retried
+   * while the browser is offline. Default: false
+   */
+  retry?: boolean | RetryOptions;
+
+  /**
+   * Limit the request rate of each provider with a token bucket.
+   * Pass `true` or RateLimitOptions to change the rate.
+   * Default: false
+   */
+  rateLimit?: boolean | RateLimitOptions;
+
+  /**
+   * Function used to send the API requests of every provider, in place of `fetch`.
+   * Use it to route requests through a proxy or to stub them in tests.
+   */
+  transport?: Transport;
+
+  /**
+   * Callback to rewrite the URL of a provider API request and add headers or credentials,
+   * like MapLibre's `transformRequest`. Return nothing to send the request unchanged.
+   */
+  transformRequest?: TransformRequestFunction;
+}
+
+/**
+ * Sends an HTTP request, with the same contract as `fetch`.
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Request changes returned by a `transformRequest` callback.
+ */
+export interface RequestParameters {
+  /** The URL to request instead */
+  url: string;
+
+  /** Headers added to the request */
+  headers?: HeadersInit;
+
+  /** Whether to send cookies and other credentials */
+  credentials?: RequestCredentials;
+}
+
+/**
+ * Rewrites a provider API request before it is sent.
+ */
+export type TransformRequestFunction = (
+  url: string,
+  provider: ProviderType
+) => RequestParameters | undefined | void | Promise<RequestParameters | undefined | void>;
+
+/**
+ * Options for retrying failed requests.
+ */
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt. Default: 3 */
+  retries?: number;
+
+  /** Backoff delay in milliseconds before the first retry, doubled on each retry. Default: 500 */
+  baseDelay?: number;
+
+  /**
+   * Maximum delay in milliseconds between attempts. Requests asking to retry
+   * later than this through Retry-After fail instead. Default: 10000
+   */
+  maxDelay?: number;
+}
+
+/**
+ * Options for the per-provider request rate limit.
+ */
+export interface RateLimitOptions {
+  /** Sustained number of requests per second. Default: 10 */
+  requestsPerSecond?: number;
+
+  /** Number of requests that may be sent at once before the rate applies. Default: 20 */
+  burst?: number;
+}
+
+/**
+ * How a provider sends its requests.
+ */
+export interface RequestPolicy {
+  /** Retry settings, or null to send each request once */
+  retry: Required<RetryOptions> | null;
+
+  /** Rate limiter of the provider, or null for no limit */
+  rateLimiter: TokenBucket | null;
+
+  /** Function sending the requests. Default: `fetch` */
+  transport?: Transport | null;
+
+  /** Callback rewriting requests before they are sent */
+  transformRequest?: TransformRequestFunction | null;
+}
+
+/**
+ * How the map follows the viewer: 'center' eases to each new location, 'bounds' pans
+ * only when the marker nears the edge, 'bearing' centers and rotates the map to the heading.
+ */
+export type FollowMode = 'center' | 'bounds' | 'bearing';
+
+/**
+ * A route to drive through: a GeoJSON LineString, a Feature of one, or its coordinates.
+ */
+export type RouteInput = GeoJSON.LineString | GeoJSON.Feature<GeoJSON.LineString> | LngLatLike[];
+
+/**
+ * Options for driving through a route.
+ */
+export interface RouteOptions {
+  /** Distance between the steps along the route (meters). Default: 25 */
+  interval?: number;
+
+  /** Time each step is shown at normal speed (ms). Default: 2000 */
+  stepDuration?: number;
+
+  /** Playback speed, 2 plays twice as fast. Default: 1 */
+  speed?: number;
+
+  /** Start playing right away. Default: true */
+  autoplay?: boolean;
+}
+
+/**
+ * Progress of a route drive-through.
+ */
+export interface RouteProgress {
+  /** Index of the current step */
+  step: number;
+
+  /** Number of steps */
+  total: number;
+
+  /** Location of the step on the route */
+  location: LngLat;
+
+  /** Heading of travel at the step */
+  heading: number;
+
+  /** Imagery shown for the step, null if none was found */
+  imagery: ImageryResult | null;
+
+  /** Whether the route is playing */
+  playing: boolean;
+
+  /** Playback speed */
+  speed: number;
+}
+
+/**
+ * Picks the imagery to show among the results of several providers:
+ * 'closest' to the requested location, 'newest' capture date, or a custom selector.
+ */
+export type FallbackStrategy =
+  | 'closest'
+  | 'newest'
+  | ((results: ImageryResult[], location: LngLat) => ImageryResult | null);
+
+/**
+ * Credentials that can be changed at runtime with `StreetViewControl.setCredentials()`.
+ * Omitted fields keep their current value.
+ */
+export type StreetViewCredentials = Pick<
+  StreetViewControlOptions,
+  'googleApiKey' | 'googleSignUrl' | 'mapillaryAccessToken' | 'getMapillaryAccessToken'
+>;
+
+/**
+ * Options for prefetching imagery in an area.
+ */
+export interface PrefetchAreaOptions {
+  /** Distance between queried points in meters. Default: 100 */
+  spacing?: number;
+
+  /** Providers to prefetch. Default: the active provider */
+  providers?: ProviderType[];
+
+  /** Maximum number of queries, larger areas are rejected. Default: 400 */
+  maxPoints?: number;
+
+  /** Signal to stop prefetching */
+  signal?: AbortSignal;
+
+  /** Called after each query */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Options for the imagery cache.
+ */
+export interface ImageryCacheOptions {
+  /** Maximum number of cached lookups (in-memory store only). Default: 500 */
+  maxEntries?: number;
+
+  /** Time in milliseconds a lookup stays valid (in-memory store only). Default: 300000 */
+  ttl?: number;
+
+  /** Decimal places used to round locations in cache keys. Default: 5 (about 1 meter) */
+  precision?: number;
+}
+
+/**
+ * Storage for imagery lookups. Implement this to plug in a custom cache.
+ * A stored `null` records that a location has no imagery.
+ */
+export interface ImageryCache {
+  /** Get a lookup, `undefined` if not cached or expired */
+  get(key: string): ImageryResult | null | undefined | Promise<ImageryResult | null | undefined>;
+
+  /**
+   * Store a lookup. Stores keeping thumbnails download them with `loadThumbnail`,
+   * which applies the request policy of the provider.
+   */
+  set(key: string, value: ImageryResult | null, loadThumbnail?: ThumbnailLoader): void | Promise<void>;
+
+  /** Remove all lookups */
+  clear(): void | Promise<void>;
+
+  /**
+   * Find stored imagery near a location, ignoring expiry (optional).
+   * Used as a fallback when requests fail, e.g. while offline.
+   */
+  findStale?(provider: ProviderType, lngLat: LngLatLike, radius: number): Promise<ImageryResult | null | undefined>;
+
+  /** Number of stored lookups, if known */
+  readonly size?: number;
+}
+
+/**
+ * Downloads a thumbnail through the request policy of its provider.
+ */
+export type ThumbnailLoader = (url: string, signal?: AbortSignal) => Promise<Blob>;
+
+/**
+ * Imagery cache statistics.
+ */
+export interface ImageryCacheStats {
+  /** Lookups answered from the cache */
+  hits: number;
+
+  /** Lookups that required a request */
+  misses: number;
+
+  /** Lookups that joined an identical request already in flight */
+  deduplicated: number;
+
+  /** Failed lookups answered with previously stored imagery */
+  stale: number;
+
+  /** Number of stored lookups */
+  size: number;
 }
 
 /**
@@ -72,6 +428,21 @@ export interface MarkerOptions {
 
   /** Direction indicator color. Default: '#1976d2' */
   directionColor?: string;
+
+  /** Allow dragging the marker to relocate the view, highlighting the imagery it snaps to. Default: false */
+  draggable?: boolean;
+
+  /** Show a view cone for the camera field of view on the map. Default: false */
+  showViewCone?: boolean;
+
+  /** View cone length in meters at level pitch. Default: 30 */
+  viewConeLength?: number;
+
+  /** View cone fill opacity (0-1). Default: 0.3 */
+  viewConeOpacity?: number;
+
+  /** View cone fill color. Default: '#1976d2' */
+  viewConeColor?: string;
 }
 
 /**
@@ -103,6 +474,45 @@ export interface StreetViewState {
   error: string | null;
 }
 
+/**
+ * A range of capture dates, as Dates or ISO 8601 strings. Date-only strings are local
+ * calendar days. Either end may be left open.
+ */
+export interface DateRange {
+  /** Earliest capture date */
+  start?: Date | string;
+
+  /** Latest capture date */
+  end?: Date | string;
+}
+
+/**
+ * Filters for the imagery shown. Each provider applies the filters its API or
+ * metadata supports, and ignores the others.
+ */
+export interface ImageryFilters {
+  /** Only imagery captured on or after this date */
+  capturedAfter?: Date | string;
+
+  /** Only imagery captured on or before this date. A date-only string includes that whole day */
+  capturedBefore?: Date | string;
+
+  /** Only 360° panoramas */
+  panoOnly?: boolean;
+
+  /** Only flat, non-panoramic images */
+  excludePano?: boolean;
+
+  /** Only images uploaded by this Mapillary user ID */
+  creatorId?: string;
+
+  /** Only images of this Mapillary organization ID */
+  organizationId?: string;
+
+  /** Minimum Mapillary image quality score */
+  minQualityScore?: number;
+}
+
 /**
  * Result from imagery query.
  */
@@ -119,6 +529,9 @@ export interface ImageryResult {
   /** Thumbnail URL (if available) */
   thumbnailUrl?: string;
 
+  /** Full resolution image URL (if available) */
+  imageUrl?: string;
+
   /** Provider that returned this result */
   provider: ProviderType;
 
@@ -127,6 +540,18 @@ export interface ImageryResult {
 
   /** Whether this is a 360 panorama */
   isPano?: boolean;
+
+  /** Sequence the image belongs to (if available) */
+  sequenceId?: string;
+
+  /** ID of the user who captured the image (if available) */
+  creatorId?: string;
+
+  /** Quality score of the image (if available) */
+  qualityScore?: number;
+
+  /** True when served from an offline cache because the request failed */
+  stale?: boolean;
 }
 
 /**
@@ -141,6 +566,9 @@ export interface ViewState {
 
   /** Current zoom level (provider-specific) */
   zoom?: number;
+
+  /** Horizontal field of view in degrees (if known) */
+  fov?: number;
 }
 
 /**
@@ -153,6 +581,16 @@ export interface BoundingBox {
   maxLat: number;
 }
 
+/**
+ * Map sources and layers showing where a provider has imagery.
+ * Source and layer ids only need to be unique within the provider;
+ * the control prefixes them before adding them to the map.
+ */
+export interface CoverageLayers {
+  sources: Record<string, SourceSpecification>;
+  layers: LayerSpecification[];
+}
+
 /**
  * Event types emitted by the control.
  */
@@ -164,7 +602,11 @@ export type StreetViewEvent =
   | 'locationchange'
   | 'headingchange'
   | 'error'
-  | 'load';
+  | 'load'
+  | 'abort'
+  | 'routestart'
+  | 'routeprogress'
+  | 'routeend';
 
 /**
  * Event data passed to handlers.
@@ -173,6 +615,8 @@ export interface StreetViewEventData {
   type: StreetViewEvent;
   state: StreetViewState;
   error?: Error;
+  /** Route progress, for route events */
+  route?: RouteProgress;
 }
 
 /**
@@ -227,17 +671,42 @@ export interface IStreetViewProvider {
   /** Display name for UI */
   readonly displayName: string;
 
+  /** Optional SVG markup used as the provider tab icon */
+  readonly icon?: string;
+
   /** Check if API key/token is configured */
   isConfigured(): boolean;
 
-  /** Query for imagery at a location */
-  queryImagery(lngLat: LngLatLike, radius?: number): Promise<ImageryResult | null>;
+  /**
+   * Query for imagery at a location. Resolves to null without coverage, rejects with
+   * a StreetViewError when the request fails and with an AbortError when the signal aborts
+   */
+  queryImagery(lngLat: LngLatLike, radius?: number, signal?: AbortSignal): Promise<ImageryResult | null>;
+
+  /** Find nearest imagery if none at exact location. Rejects with an AbortError when the signal aborts */
+  findNearestImagery(
+    lngLat: LngLatLike,
+    maxRadius?: number,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null>;
+
+  /** Get map layers showing the provider's imagery coverage (optional) */
+  getCoverageLayers?(): CoverageLayers | null;
+
+  /** Share the control's imagery cache with the provider (optional) */
+  setCache?(cache: ImageryQueryCache | null): void;
+
+  /** Set the retry, rate limit and transport settings for the provider's requests (optional) */
+  setRequestPolicy?(policy: RequestPolicy): void;
 
-  /** Find nearest imagery if none at exact location */
-  findNearestImagery(lngLat: LngLatLike, maxRadius?: number): Promise<ImageryResult | null>;
+  /** Only return imagery matching the filters (optional) */
+  setFilters?(filters: ImageryFilters): void;
 
-  /** Render the viewer into a container */
-  render(container: HTMLElement, imagery: ImageryResult): void;
+  /** List all imagery captured near a location, e.g. on different dates (optional) */
+  queryHistory?(lngLat: LngLatLike, radius?: number, signal?: AbortSignal): Promise<ImageryResult[]>;
+
+  /** Render the viewer into a container, optionally facing a heading */
+  render(container: HTMLElement, imagery: ImageryResult, heading?: number): void;
 
   /** Clean up the viewer */
   destroy(): void;
@@ -245,6 +714,21 @@ export interface IStreetViewProvider {
   /** Get current view state */
   getViewState(): ViewState | null;
 
+  /** Turn the view to a heading, in degrees clockwise from north (optional) */
+  setHeading?(heading: number): void | Promise<void>;
+
+  /** Tilt the view, in degrees from -90 (down) to 90 (up) (optional) */
+  setPitch?(pitch: number): void | Promise<void>;
+
+  /** Zoom the view, in the zoom levels reported by getViewState() (optional) */
+  setZoom?(zoom: number): void | Promise<void>;
+
+  /** Move the rendered viewer to another image without recreating it (optional) */
+  navigateToImage?(imageId: string): Promise<void>;
+
+  /** Create an independent instance with the same credentials, e.g. to render two of its images at once (optional) */
+  clone?(): IStreetViewProvider;
+
   /** Subscribe to heading changes */
   onHeadingChange(callback: (heading: number) => void): void;
 
@@ -256,4 +740,10 @@ export interface IStreetViewProvider {
 
   /** Unsubscribe from location changes */
   offLocationChange(callback: (location: LngLat) => void): void;
+
+  /** Subscribe to changes of the coverage layers (optional) */
+  onCoverageChange?(callback: () => void): void;
+
+  /** Unsubscribe from changes of the coverage layers (optional) */
+  offCoverageChange?(callback: () => void): void;
 }
@@ -1,5 +1,17 @@
 import { LngLat, type LngLatLike } from 'maplibre-gl';
-import type { ProviderType, ImageryResult, ViewState, IStreetViewProvider } from '../core/types';
+import type {
+  ProviderType,
+  ImageryResult,
+  ViewState,
+  IStreetViewProvider,
+  CoverageLayers,
+  RequestPolicy,
+  ImageryFilters,
+} from '../core/types';
+import type { ImageryQueryCache } from '../utils/cache';
+import { NetworkError } from '../core/errors';
+import { fetchBlob, fetchJson, headersToObject } from '../utils/api';
+import { matchesFilters, getFiltersKey } from '../utils/filters';
 
 /**
  * Abstract base class for street view providers.
@@ -8,11 +20,16 @@ import type { ProviderType, ImageryResult, ViewState, IStreetViewProvider } from
 export abstract class BaseProvider implements IStreetViewProvider {
   abstract readonly name: ProviderType;
   abstract readonly displayName: string;
+  readonly icon?: string;
 
   protected _container: HTMLElement | null = null;
   protected _headingCallbacks: Set<(heading: number) => void> = new Set();
   protected _locationCallbacks: Set<(location: LngLat) => void> = new Set();
+  protected _coverageCallbacks: Set<() => void> = new Set();
   protected _currentHeading = 0;
+  protected _cache: ImageryQueryCache | null = null;
+  protected _requestPolicy: RequestPolicy = { retry: null, rateLimiter: null };
+  protected _filters: ImageryFilters = {};
 
   /**
    * Check if the provider is configured with necessary credentials.
@@ -21,29 +38,42 @@ export abstract class BaseProvider implements IStreetViewProvider {
 
   /**
    * Query for imagery at a specific location.
+   * Resolves to null when there is no coverage and rejects with a
+   * StreetViewError subclass when the request fails.
    *
    * @param lngLat - The location to query
    * @param radius - Optional search radius in meters
+   * @param signal - Optional signal to abort the request
    * @returns The imagery result or null if none found
    */
-  abstract queryImagery(lngLat: LngLatLike, radius?: number): Promise<ImageryResult | null>;
+  abstract queryImagery(
+    lngLat: LngLatLike,
+    radius?: number,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null>;
 
   /**
    * Find the nearest available imagery to a location.
    *
    * @param lngLat - The target location
    * @param maxRadius - Maximum search radius in meters
+   * @param signal - Optional signal to abort the search
    * @returns The nearest imagery result or null if none found
    */
-  abstract findNearestImagery(lngLat: LngLatLike, maxRadius?: number): Promise<ImageryResult | null>;
+  abstract findNearestImagery(
+    lngLat: LngLatLike,
+    maxRadius?: number,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null>;
 
   /**
    * Render the street view imagery in a container.
    *
    * @param container - The DOM element to render into
    * @param imagery - The imagery to display
+   * @param heading - Optional heading to face, for providers that support it
    */
-  abstract render(container: HTMLElement, imagery: ImageryResult): void;
+  abstract render(container: HTMLElement, imagery: ImageryResult, heading?: number): void;
 
   /**
    * Clean up the viewer and release resources.
@@ -57,6 +87,158 @@ export abstract class BaseProvider implements IStreetViewProvider {
    */
   abstract getViewState(): ViewState | null;
 
+  /**
+   * Get map layers showing where this provider has imagery.
+   * Providers without a coverage source return null.
+   *
+   * @returns The coverage sources and layers or null
+   */
+  getCoverageLayers(): CoverageLayers | null {
+    return null;
+  }
+
+  /**
+   * Set the cache used for imagery queries.
+   *
+   * @param cache - The shared query cache, or null to disable caching
+   */
+  setCache(cache: ImageryQueryCache | null): void {
+    this._cache = cache;
+    // Stores keeping thumbnails download them like the provider's other requests
+    cache?.setThumbnailLoader(this.name, (url, signal) => this.requestBlob(url, { signal }));
+  }
+
+  /**
+   * Set the retry, rate limit and transport settings for requests of this provider.
+   *
+   * @param policy - The retry settings, rate limiter, transport and request transform
+   */
+  setRequestPolicy(policy: RequestPolicy): void {
+    this._requestPolicy = policy;
+  }
+
+  /**
+   * Only return imagery matching the filters.
+   * The base class applies the capture date and panorama filters to results.
+   *
+   * @param filters - The filters, empty for all imagery
+   */
+  setFilters(filters: ImageryFilters): void {
+    this._filters = filters;
+  }
+
+  /**
+   * Check if imagery matches the filters. Providers supporting more filters
+   * than capture date and panorama type extend this check.
+   *
+   * @param imagery - The imagery to check
+   * @returns True if the imagery matches the filters
+   */
+  protected matchesFilters(imagery: ImageryResult): boolean {
+    return matchesFilters(imagery, this._filters);
+  }
+
+  /**
+   * Fetch JSON from the provider's API, applying the request policy.
+   * The request is passed through `transformRequest` first, if set.
+   *
+   * @param url - The URL to fetch
+   * @param init - Optional fetch options, pass `signal` to make the request abortable
+   * @returns The response data
+   */
+  protected async request<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const { retry, rateLimiter, transport } = this._requestPolicy;
+    const transformed = await this.transformRequest(url, init);
+    return fetchJson<T>(transformed.url, { ...transformed.init, retry, rateLimiter, transport });
+  }
+
+  /**
+   * Fetch binary data, e.g. a thumbnail, applying the request policy.
+   *
+   * @param url - The URL to fetch
+   * @param init - Optional fetch options, pass `signal` to make the request abortable
+   * @returns The response body
+   */
+  protected async requestBlob(url: string, init: RequestInit = {}): Promise<Blob> {
+    const { retry, rateLimiter, transport } = this._requestPolicy;
+    const transformed = await this.transformRequest(url, init);
+    return fetchBlob(transformed.url, { ...transformed.init, retry, rateLimiter, transport });
+  }
+
+  /**
+   * Pass a request through `transformRequest`, if set.
+   */
+  private async transformRequest(url: string, init: RequestInit): Promise<{ url: string; init: RequestInit }> {
+    const transformed = await this._requestPolicy.transformRequest?.(url, this.name);
+    if (!transformed) return { url, init };
+
+    return {
+      url: transformed.url,
+      init: {
+        ...init,
+        headers: { ...headersToObject(init.headers), ...headersToObject(transformed.headers) },
+        credentials: transformed.credentials ?? init.credentials,
+      },
+    };
+  }
+
+  /**
+   * Run an imagery request through the cache, if one is set.
+   * Lookups are cached per set of filters. Results not matching the filters are dropped,
+   * for providers whose API cannot filter them and for stale offline results.
+   *
+   * @param lngLat - The queried location
+   * @param radius - The search radius in meters
+   * @param load - Performs the request
+   * @param signal - Optional signal to abort the request
+   * @returns The imagery result or null if none found
+   */
+  protected async cachedQuery(
+    lngLat: LngLatLike,
+    radius: number,
+    load: (signal?: AbortSignal) => Promise<ImageryResult | null>,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null> {
+    const imagery = this._cache
+      ? await this._cache.query(this.name, lngLat, radius, load, signal, getFiltersKey(this._filters))
+      : await load(signal);
+    return imagery && this.matchesFilters(imagery) ? imagery : null;
+  }
+
+  /**
+   * Query increasing radii until imagery is found.
+   * A network error does not end the search, so imagery stored offline further
+   * away can still be found. It is rethrown if no radius returned imagery.
+   *
+   * @param lngLat - The target location
+   * @param radii - The search radii in meters, in increasing order
+   * @param maxRadius - Maximum search radius in meters
+   * @param signal - Optional signal to abort the search
+   * @returns The nearest imagery or null
+   */
+  protected async searchRadii(
+    lngLat: LngLatLike,
+    radii: number[],
+    maxRadius: number,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null> {
+    let networkError: NetworkError | null = null;
+
+    for (const radius of radii) {
+      if (radius > maxRadius) break;
+      try {
+        const result = await this.queryImagery(lngLat, radius, signal);
+        if (result) return result;
+      } catch (error) {
+        if (!(error instanceof NetworkError)) throw error;
+        networkError ??= error;
+      }
+    }
+
+    if (networkError) throw networkError;
+    return null;
+  }
+
   /**
    * Subscribe to heading change events.
    *
@@ -116,6 +298,33 @@ export abstract class BaseProvider implements IStreetViewProvider {
     }
   }
 
+  /**
+   * Subscribe to coverage changes, e.g. when the tile URL changes.
+   *
+   * @param callback - Function to call when the coverage layers change
+   */
+  onCoverageChange(callback: () => void): void {
+    this._coverageCallbacks.add(callback);
+  }
+
+  /**
+   * Unsubscribe from coverage changes.
+   *
+   * @param callback - The callback to remove
+   */
+  offCoverageChange(callback: () => void): void {
+    this._coverageCallbacks.delete(callback);
+  }
+
+  /**
+   * Tell subscribers that getCoverageLayers() now returns different layers.
+   */
+  protected emitCoverageChange(): void {
+    for (const callback of this._coverageCallbacks) {
+      callback();
+    }
+  }
+
   /**
    * Get the current container element.
    */
@@ -0,0 +1,285 @@
+import { LngLat } from 'maplibre-gl';
+import { GoogleStreetViewProvider } from './GoogleStreetViewProvider';
+import type { ImageryResult, ViewState } from '../core/types';
+import { GOOGLE_API } from '../core/constants';
+import { AuthError } from '../core/errors';
+import { buildUrl } from '../utils/api';
+
+/**
+ * Minimal subset of the Google Maps JavaScript API used by this provider.
+ */
+interface GoogleMapsListener {
+  remove(): void;
+}
+
+interface GoogleStreetViewPov {
+  heading: number;
+  pitch: number;
+}
+
+interface GoogleStreetViewPanorama {
+  addListener(event: string, handler: () => void): GoogleMapsListener;
+  getPov(): GoogleStreetViewPov;
+  setPov(pov: GoogleStreetViewPov): void;
+  getZoom(): number;
+  setZoom(zoom: number): void;
+  getPosition(): { lat(): number; lng(): number } | null | undefined;
+  setPano(pano: string): void;
+}
+
+interface GoogleMapsNamespace {
+  StreetViewPanorama: new (
+    container: HTMLElement,
+    options: Record<string, unknown>
+  ) => GoogleStreetViewPanorama;
+}
+
+type GoogleWindow = Window & { google?: { maps?: Partial<GoogleMapsNamespace> } };
+
+const CALLBACK_NAME = '__maplibreStreetViewGoogleMapsLoaded';
+
+let loadPromise: Promise<GoogleMapsNamespace> | null = null;
+
+// Key of the script loaded by this module, the API cannot be loaded again with another key
+let loadedApiKey: string | null = null;
+
+/**
+ * Checks that the Google Maps JavaScript API can be used with an API key.
+ *
+ * @param apiKey - Google Maps API key
+ * @throws AuthError if the API was loaded with another key
+ */
+function assertLoadableWith(apiKey: string): void {
+  if (loadedApiKey !== null && apiKey !== loadedApiKey) {
+    throw new AuthError('The Google Maps JavaScript API is already loaded with another API key, reload the page to change it');
+  }
+}
+
+/**
+ * Loads the Google Maps JavaScript API once per page.
+ * Resolves immediately if the API is already present on `window.google`.
+ *
+ * @param apiKey - Google Maps API key
+ * @returns The `google.maps` namespace
+ */
+function loadGoogleMapsApi(apiKey: string): Promise<GoogleMapsNamespace> {
+  try {
+    assertLoadableWith(apiKey);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  const win = window as GoogleWindow;
+  if (win.google?.maps?.StreetViewPanorama) {
+    return Promise.resolve(win.google.maps as GoogleMapsNamespace);
+  }
+
+  if (!loadPromise) {
+    loadedApiKey = apiKey;
+    loadPromise = new Promise<GoogleMapsNamespace>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = buildUrl(GOOGLE_API.JS_API_URL, {
+        key: apiKey,
+        v: 'weekly',
+        loading: 'async',
+        callback: CALLBACK_NAME,
+      });
+      script.async = true;
+
+      (win as unknown as Record<string, unknown>)[CALLBACK_NAME] = () => {
+        delete (win as unknown as Record<string, unknown>)[CALLBACK_NAME];
+        if (win.google?.maps?.StreetViewPanorama) {
+          resolve(win.google.maps as GoogleMapsNamespace);
+        } else {
+          reject(new Error('Google Maps JavaScript API loaded without Street View support'));
+        }
+      };
+      script.onerror = () => {
+        loadPromise = null;
+        loadedApiKey = null;
+        script.remove();
+        reject(new Error('Failed to load the Google Maps JavaScript API'));
+      };
+
+      document.head.appendChild(script);
+    });
+  }
+
+  return loadPromise;
+}
+
+/**
+ * Google Street View provider using the Maps JavaScript API.
+ * Unlike the embed iframe, the panorama can be observed and steered, so heading
+ * and position changes made by the user are reported back to the control.
+ */
+export class GoogleMapsJsProvider extends GoogleStreetViewProvider {
+  private _panoramaContainer: HTMLElement | null = null;
+  private _panorama: GoogleStreetViewPanorama | null = null;
+  private _listeners: GoogleMapsListener[] = [];
+  private _zoom = 1;
+  private _renderId = 0;
+
+  /**
+   * Check if the API key is configured. The Maps JavaScript API is loaded with
+   * the key itself, so signed URLs alone are not enough.
+   */
+  isConfigured(): boolean {
+    return Boolean(this._apiKey);
+  }
+
+  /**
+   * Update the API key and URL signing callback.
+   * Once the Maps JavaScript API is loaded, its key can only change with a page reload.
+   *
+   * @param apiKey - Google Maps API key
+   * @param signUrl - Callback signing URLs on your server, or null to use the key
+   * @throws AuthError if the API was loaded with another key
+   */
+  setCredentials(apiKey: string, signUrl: ((url: string) => Promise<string>) | null = this._signUrl): void {
+    assertLoadableWith(apiKey);
+    super.setCredentials(apiKey, signUrl);
+  }
+
+  /**
+   * Render a Street View panorama in a container.
+   * The Maps JavaScript API is loaded on first use.
+   *
+   * @param container - The container element
+   * @param imagery - The imagery to display
+   * @param heading - Optional heading to face
+   */
+  render(container: HTMLElement, imagery: ImageryResult, heading?: number): void {
+    this.removePanorama();
+    if (heading !== undefined) {
+      this._heading = heading;
+      this.emitHeadingChange(heading);
+    }
+
+    this._container = container;
+    this._currentImagery = imagery;
+    const renderId = ++this._renderId;
+
+    this._panoramaContainer = document.createElement('div');
+    this._panoramaContainer.className = 'google-streetview-panorama';
+    this._panoramaContainer.style.width = '100%';
+    this._panoramaContainer.style.height = '100%';
+    container.appendChild(this._panoramaContainer);
+
+    loadGoogleMapsApi(this._apiKey)
+      .then((maps) => {
+        // Ignore if another image has been rendered or the viewer was destroyed
+        if (renderId !== this._renderId || !this._panoramaContainer) return;
+        this.createPanorama(maps, this._panoramaContainer, imagery);
+      })
+      .catch((error) => {
+        console.error('Failed to load Google Street View:', error);
+      });
+  }
+
+  /**
+   * Creates the panorama and wires its events to the provider callbacks.
+   */
+  private createPanorama(maps: GoogleMapsNamespace, element: HTMLElement, imagery: ImageryResult): void {
+    const panorama = new maps.StreetViewPanorama(element, {
+      pano: imagery.id,
+      pov: { heading: this._heading, pitch: this._pitch },
+      zoom: this._zoom,
+      addressControl: false,
+      fullscreenControl: false,
+      motionTracking: false,
+      motionTrackingControl: false,
+    });
+    this._panorama = panorama;
+
+    this._listeners.push(
+      panorama.addListener('pov_changed', () => {
+        const pov = panorama.getPov();
+        this._heading = pov.heading;
+        this._pitch = pov.pitch;
+        this.emitHeadingChange(pov.heading);
+      }),
+      panorama.addListener('position_changed', () => {
+        const position = panorama.getPosition();
+        if (position) {
+          this.emitLocationChange(new LngLat(position.lng(), position.lat()));
+        }
+      }),
+      panorama.addListener('zoom_changed', () => {
+        this._zoom = panorama.getZoom();
+        // Re-emit the heading so listeners pick up the new field of view
+        this.emitHeadingChange(this._heading);
+      })
+    );
+  }
+
+  /**
+   * Removes the panorama and its listeners.
+   */
+  private removePanorama(): void {
+    for (const listener of this._listeners) {
+      listener.remove();
+    }
+    this._listeners = [];
+    this._panorama = null;
+    if (this._panoramaContainer) {
+      this._panoramaContainer.remove();
+      this._panoramaContainer = null;
+    }
+  }
+
+  /**
+   * Clean up the panorama.
+   */
+  destroy(): void {
+    this._renderId++;
+    this.removePanorama();
+    super.destroy();
+  }
+
+  /**
+   * Get the current view state reported by the panorama.
+   */
+  getViewState(): ViewState | null {
+    if (this._panorama) {
+      const pov = this._panorama.getPov();
+      return { heading: pov.heading, pitch: pov.pitch, zoom: this._panorama.getZoom() };
+    }
+    return { heading: this._heading, pitch: this._pitch, zoom: this._zoom };
+  }
+
+  /**
+   * Set the view heading without reloading the panorama.
+   *
+   * @param heading - The heading (0-360)
+   */
+  setHeading(heading: number): void {
+    this._heading = heading;
+    if (this._panorama) {
+      // The pov_changed listener emits the heading change
+      this._panorama.setPov({ heading, pitch: this._pitch });
+    } else {
+      this.emitHeadingChange(heading);
+    }
+  }
+
+  /**
+   * Set the view pitch without reloading the panorama.
+   *
+   * @param pitch - The pitch (-90 to 90)
+   */
+  setPitch(pitch: number): void {
+    this._pitch = pitch;
+    this._panorama?.setPov({ heading: this._heading, pitch });
+  }
+
+  /**
+   * Set the panorama zoom level.
+   *
+   * @param zoom - The zoom level
+   */
+  setZoom(zoom: number): void {
+    this._zoom = zoom;
+    this._panorama?.setZoom(zoom);
+  }
+}
@@ -1,9 +1,36 @@
 import { LngLat, type LngLatLike } from 'maplibre-gl';
 import { BaseProvider } from './BaseProvider';
-import type { ImageryResult, ViewState, ProviderType } from '../core/types';
+import type { ImageryResult, ViewState, ProviderType, CoverageLayers } from '../core/types';
 import { GOOGLE_API } from '../core/constants';
+import { StreetViewError, QuotaExceededError, AuthError, NetworkError } from '../core/errors';
 import { toLngLat } from '../utils/geo';
-import { buildUrl, fetchJson, type GoogleStreetViewMetadata } from '../utils/api';
+import { buildUrl, type GoogleStreetViewMetadata } from '../utils/api';
+
+/**
+ * Options for the Google Street View provider.
+ */
+export interface GoogleStreetViewProviderOptions {
+  /**
+   * Signs Google URLs on your server. Receives a URL without the `key` parameter
+   * and resolves to the URL to load, with `key` and `signature` added server-side.
+   * The Embed API does not check signatures, so the iframe URL still exposes the key:
+   * signing only protects metadata requests, and the key must be referrer-restricted.
+   */
+  signUrl?: (url: string) => Promise<string>;
+
+  /**
+   * Proxy endpoint for metadata lookups, called with the `location` and `radius`
+   * parameters. The proxy adds the key and forwards the request to Google.
+   */
+  metadataUrl?: string;
+
+  /**
+   * Raster tile URL template (`{x}`, `{y}`, `{z}`) of a Street View coverage layer you
+   * are licensed to use. Google has no public coverage tiles, so there is no default
+   * and no coverage overlay without it.
+   */
+  coverageTilesUrl?: string;
+}
 
 /**
  * Google Street View provider using the Embed API.
@@ -12,28 +39,54 @@ import { buildUrl, fetchJson, type GoogleStreetViewMetadata } from '../utils/api
 export class GoogleStreetViewProvider extends BaseProvider {
   readonly name: ProviderType = 'google';
   readonly displayName = 'Google';
+  readonly icon = `
+    <svg viewBox="0 0 24 24" fill="currentColor">
+      <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/>
+    </svg>
+  `;
 
-  private _apiKey: string;
+  protected _apiKey: string;
+  protected _signUrl: ((url: string) => Promise<string>) | null;
+  protected _metadataUrl: string | null;
+  protected _coverageTilesUrl: string | null;
   private _iframe: HTMLIFrameElement | null = null;
-  private _currentImagery: ImageryResult | null = null;
-  private _heading = 0;
-  private _pitch = 0;
+  private _iframeUpdateId = 0;
+  protected _currentImagery: ImageryResult | null = null;
+  protected _heading = 0;
+  protected _pitch = 0;
 
   /**
    * Creates a new Google Street View provider.
    *
-   * @param apiKey - Google Maps API key
+   * @param apiKey - Google Maps API key, may be empty when URLs are signed server-side
+   * @param options - Provider options
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: GoogleStreetViewProviderOptions = {}) {
     super();
     this._apiKey = apiKey;
+    this._signUrl = options.signUrl ?? null;
+    this._metadataUrl = options.metadataUrl ?? null;
+    this._coverageTilesUrl = options.coverageTilesUrl ?? null;
   }
 
   /**
-   * Check if the API key is configured.
+   * Check if the API key or a URL signing callback is configured.
    */
   isConfigured(): boolean {
-    return Boolean(this._apiKey);
+    return Boolean(this._apiKey || this._signUrl);
+  }
+
+  /**
+   * Set the API key and URL signing callback, e.g. after a key rotation.
+   * The embedded view reloads with the new credentials.
+   *
+   * @param apiKey - Google Maps API key, may be empty when URLs are signed server-side
+   * @param signUrl - Callback signing URLs on your server, or null to use the key
+   */
+  setCredentials(apiKey: string, signUrl: ((url: string) => Promise<string>) | null = this._signUrl): void {
+    this._apiKey = apiKey;
+    this._signUrl = signUrl;
+    this.updateIframeSrc();
   }
 
   /**
@@ -42,25 +95,44 @@ export class GoogleStreetViewProvider extends BaseProvider {
    *
    * @param lngLat - The location to query
    * @param radius - Search radius in meters (default: 50)
+   * @param signal - Optional signal to abort the request
    * @returns The imagery result or null if no coverage
    */
-  async queryImagery(lngLat: LngLatLike, radius = 50): Promise<ImageryResult | null> {
+  async queryImagery(lngLat: LngLatLike, radius = 50, signal?: AbortSignal): Promise<ImageryResult | null> {
     if (!this.isConfigured()) {
       return null;
     }
 
     const point = toLngLat(lngLat);
 
-    try {
-      const url = buildUrl(GOOGLE_API.METADATA_URL, {
-        location: `${point.lat},${point.lng}`,
-        radius: radius,
-        key: this._apiKey,
-      });
+    return this.cachedQuery(
+      point,
+      radius,
+      (requestSignal) => this.requestImagery(point, radius, requestSignal),
+      signal
+    );
+  }
 
-      const metadata = await fetchJson<GoogleStreetViewMetadata>(url);
+  /**
+   * Request Street View metadata for a location.
+   */
+  private async requestImagery(point: LngLat, radius: number, signal?: AbortSignal): Promise<ImageryResult | null> {
+    const params = {
+      location: `${point.lat},${point.lng}`,
+      radius: radius,
+    };
+    const url = this._metadataUrl
+      ? buildUrl(this._metadataUrl, params)
+      : await this.buildAuthorizedUrl(GOOGLE_API.METADATA_URL, params);
+    signal?.throwIfAborted();
+
+    const metadata = await this.request<GoogleStreetViewMetadata>(url, { signal });
+    const { status } = metadata;
+    const message = metadata.error_message ?? `Google Street View metadata status: ${status}`;
 
-      if (metadata.status === 'OK' && metadata.location && metadata.pano_id) {
+    switch (status) {
+      case 'OK':
+        if (!metadata.location || !metadata.pano_id) return null;
         return {
           id: metadata.pano_id,
           location: new LngLat(metadata.location.lng, metadata.location.lat),
@@ -68,13 +140,36 @@ export class GoogleStreetViewProvider extends BaseProvider {
           capturedAt: metadata.date ? new Date(metadata.date) : undefined,
           isPano: true,
         };
-      }
+      case 'ZERO_RESULTS':
+      case 'NOT_FOUND':
+        return null;
+      case 'OVER_QUERY_LIMIT':
+        throw new QuotaExceededError(message, { status });
+      case 'REQUEST_DENIED':
+        throw new AuthError(message, { status });
+      case 'UNKNOWN_ERROR':
+        // Google suggests retrying, the failure is on the server side
+        throw new NetworkError(message, { status });
+      default:
+        throw new StreetViewError(message, { status });
+    }
+  }
 
-      return null;
-    } catch (error) {
-      console.error('Google Street View query failed:', error);
-      return null;
+  /**
+   * Build a URL carrying the API key, or signed by the `signUrl` callback if one is set.
+   *
+   * @param baseUrl - The endpoint URL
+   * @param params - Query parameters, without the key
+   * @returns The URL to request
+   */
+  protected async buildAuthorizedUrl(
+    baseUrl: string,
+    params: Record<string, string | number | boolean>
+  ): Promise<string> {
+    if (this._signUrl) {
+      return this._signUrl(buildUrl(baseUrl, params));
     }
+    return buildUrl(baseUrl, { ...params, key: this._apiKey });
   }
 
   /**
@@ -83,18 +178,40 @@ export class GoogleStreetViewProvider extends BaseProvider {
    *
    * @param lngLat - The target location
    * @param maxRadius - Maximum search radius in meters (default: 100)
+   * @param signal - Optional signal to abort the search
    * @returns The nearest imagery or null
    */
-  async findNearestImagery(lngLat: LngLatLike, maxRadius = 100): Promise<ImageryResult | null> {
-    const radii = [50, 100, 200, 500].filter(r => r <= maxRadius || r === 50);
+  async findNearestImagery(
+    lngLat: LngLatLike,
+    maxRadius = 100,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null> {
+    return this.searchRadii(lngLat, [50, 100, 200, 500], maxRadius, signal);
+  }
 
-    for (const radius of radii) {
-      if (radius > maxRadius) break;
-      const result = await this.queryImagery(lngLat, radius);
-      if (result) return result;
-    }
+  /**
+   * Get the Street View coverage raster tiles, if a `coverageTilesUrl` was given.
+   */
+  getCoverageLayers(): CoverageLayers | null {
+    if (!this._coverageTilesUrl) return null;
 
-    return null;
+    return {
+      sources: {
+        coverage: {
+          type: 'raster',
+          tiles: [this._coverageTilesUrl],
+          tileSize: 256,
+        },
+      },
+      layers: [
+        {
+          id: 'coverage',
+          type: 'raster',
+          source: 'coverage',
+          paint: { 'raster-opacity': 0.8 },
+        },
+      ],
+    };
   }
 
   /**
@@ -102,10 +219,15 @@ export class GoogleStreetViewProvider extends BaseProvider {
    *
    * @param container - The container element
    * @param imagery - The imagery to display
+   * @param heading - Optional heading to face, set here so the embed only loads once
    */
-  render(container: HTMLElement, imagery: ImageryResult): void {
+  render(container: HTMLElement, imagery: ImageryResult, heading?: number): void {
     this._container = container;
     this._currentImagery = imagery;
+    if (heading !== undefined) {
+      this._heading = heading;
+      this.emitHeadingChange(heading);
+    }
 
     // Remove existing iframe
     if (this._iframe) {
@@ -131,37 +253,36 @@ export class GoogleStreetViewProvider extends BaseProvider {
    * Update the iframe source with current heading/pitch.
    */
   private updateIframeSrc(): void {
-    if (!this._iframe || !this._currentImagery) return;
+    const iframe = this._iframe;
+    if (!iframe || !this._currentImagery) return;
 
-    const params: Record<string, string | number> = {
-      key: this._apiKey,
-      location: `${this._currentImagery.location.lat},${this._currentImagery.location.lng}`,
-    };
-
-    if (this._heading !== 0) {
-      params.heading = this._heading;
-    }
-
-    if (this._pitch !== 0) {
-      params.pitch = this._pitch;
+    if (!this._signUrl) {
+      iframe.src = this.generateEmbedUrl(this._currentImagery.location, this._heading, this._pitch);
+      return;
     }
 
-    const url = buildUrl(GOOGLE_API.EMBED_URL, params);
-    this._iframe.src = url;
+    const updateId = ++this._iframeUpdateId;
+    this.buildAuthorizedUrl(
+      GOOGLE_API.EMBED_URL,
+      this.getEmbedParams(this._currentImagery.location, this._heading, this._pitch)
+    )
+      .then((url) => {
+        // Ignore if a newer view was requested or the iframe was replaced
+        if (updateId === this._iframeUpdateId && iframe === this._iframe) {
+          iframe.src = url;
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to sign Google Street View URL:', error);
+      });
   }
 
   /**
-   * Generate an embed URL for a location.
-   *
-   * @param location - The location
-   * @param heading - View heading
-   * @param pitch - View pitch
-   * @returns The embed URL
+   * Get the embed URL parameters for a view, without the key.
    */
-  generateEmbedUrl(location: LngLatLike, heading = 0, pitch = 0): string {
+  private getEmbedParams(location: LngLatLike, heading: number, pitch: number): Record<string, string | number> {
     const point = toLngLat(location);
     const params: Record<string, string | number> = {
-      key: this._apiKey,
       location: `${point.lat},${point.lng}`,
     };
 
@@ -173,7 +294,31 @@ export class GoogleStreetViewProvider extends BaseProvider {
       params.pitch = pitch;
     }
 
-    return buildUrl(GOOGLE_API.EMBED_URL, params);
+    return params;
+  }
+
+  /**
+   * Generate an embed URL for a location.
+   *
+   * @param location - The location
+   * @param heading - View heading
+   * @param pitch - View pitch
+   * @returns The embed URL
+   */
+  generateEmbedUrl(location: LngLatLike, heading = 0, pitch = 0): string {
+    return buildUrl(GOOGLE_API.EMBED_URL, { key: this._apiKey, ...this.getEmbedParams(location, heading, pitch) });
+  }
+
+  /**
+   * Generate an embed URL for a location, signed by the `signUrl` callback if one is set.
+   *
+   * @param location - The location
+   * @param heading - View heading
+   * @param pitch - View pitch
+   * @returns The embed URL
+   */
+  generateSignedEmbedUrl(location: LngLatLike, heading = 0, pitch = 0): Promise<string> {
+    return this.buildAuthorizedUrl(GOOGLE_API.EMBED_URL, this.getEmbedParams(location, heading, pitch));
   }
 
   /**
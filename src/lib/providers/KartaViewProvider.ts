@@ -0,0 +1,359 @@
+import { LngLat, type LngLatLike } from 'maplibre-gl';
+import { BaseProvider } from './BaseProvider';
+import type { ImageryResult, ViewState, ProviderType } from '../core/types';
+import { KARTAVIEW_API } from '../core/constants';
+import { PhotoViewer } from '../components/PhotoViewer';
+import { toLngLat, findClosestPoint } from '../utils/geo';
+import {
+  isAbortError,
+  type KartaViewNearbyPhotosResponse,
+  type KartaViewNearbyPhoto,
+  type KartaViewSequencePhotosResponse,
+  type KartaViewSequencePhoto,
+} from '../utils/api';
+
+/**
+ * Options for the KartaView provider.
+ */
+export interface KartaViewProviderOptions {
+  /** API base URL. Default: 'https://api.openstreetcam.org' */
+  baseUrl?: string;
+}
+
+/**
+ * KartaView (formerly OpenStreetCam) provider.
+ * Displays sequence photos with previous/next navigation. No API key is required.
+ */
+export class KartaViewProvider extends BaseProvider {
+  readonly name: ProviderType = 'kartaview';
+  readonly displayName = 'KartaView';
+  readonly icon = `
+    <svg viewBox="0 0 24 24" fill="currentColor">
+      <path d="M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20zm0 4 5 10H7l5-10z"/>
+    </svg>
+  `;
+
+  private _baseUrl: string;
+  private _photoViewer: PhotoViewer | null = null;
+  private _sequence: ImageryResult[] = [];
+  private _currentIndex = -1;
+  private _currentImagery: ImageryResult | null = null;
+  private _sequenceController: AbortController | null = null;
+
+  /**
+   * Creates a new KartaView provider.
+   *
+   * @param options - Provider options
+   */
+  constructor(options: KartaViewProviderOptions = {}) {
+    super();
+    this._baseUrl = (options.baseUrl ?? KARTAVIEW_API.BASE_URL).replace(/\/$/, '');
+  }
+
+  /**
+   * KartaView is public, so the provider only needs an API base URL.
+   */
+  isConfigured(): boolean {
+    return Boolean(this._baseUrl);
+  }
+
+  /**
+   * Query for KartaView photos near a location.
+   *
+   * @param lngLat - The location to query
+   * @param radius - Search radius in meters (default: 50)
+   * @param signal - Optional signal to abort the request
+   * @returns The closest imagery result or null
+   */
+  async queryImagery(lngLat: LngLatLike, radius = 50, signal?: AbortSignal): Promise<ImageryResult | null> {
+    if (!this.isConfigured()) {
+      return null;
+    }
+
+    const point = toLngLat(lngLat);
+
+    return this.cachedQuery(
+      point,
+      radius,
+      (requestSignal) => this.requestImagery(point, radius, requestSignal),
+      signal
+    );
+  }
+
+  /**
+   * Request nearby KartaView photos.
+   */
+  private async requestImagery(point: LngLat, radius: number, signal?: AbortSignal): Promise<ImageryResult | null> {
+    const body = new URLSearchParams({
+      lat: String(point.lat),
+      lng: String(point.lng),
+      radius: String(radius),
+    });
+
+    const response = await this.request<KartaViewNearbyPhotosResponse>(
+      `${this._baseUrl}${KARTAVIEW_API.NEARBY_PHOTOS_ENDPOINT}`,
+      { method: 'POST', body, signal }
+    );
+
+    const photos = response.currentPageItems ?? [];
+    if (photos.length === 0) {
+      return null;
+    }
+
+    const imageryResults = photos
+      .map(photo => this.nearbyPhotoToImagery(photo))
+      .filter(imagery => this.matchesFilters(imagery));
+    return findClosestPoint(point, imageryResults);
+  }
+
+  /**
+   * Find nearest KartaView imagery within a maximum radius.
+   * Progressively searches with increasing radii.
+   *
+   * @param lngLat - The target location
+   * @param maxRadius - Maximum search radius in meters (default: 100)
+   * @param signal - Optional signal to abort the search
+   * @returns The nearest imagery or null
+   */
+  async findNearestImagery(
+    lngLat: LngLatLike,
+    maxRadius = 100,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null> {
+    return this.searchRadii(lngLat, [50, 100, 250, 500], maxRadius, signal);
+  }
+
+  /**
+   * Convert a nearby photo from the 1.0 API to ImageryResult.
+   */
+  private nearbyPhotoToImagery(photo: KartaViewNearbyPhoto): ImageryResult {
+    const path = photo.lth_name || photo.th_name || photo.name;
+    return {
+      id: String(photo.id),
+      location: new LngLat(Number(photo.lng), Number(photo.lat)),
+      provider: this.name,
+      thumbnailUrl: path ? this.resolveImageUrl(path) : undefined,
+      capturedAt: photo.shot_date ? new Date(photo.shot_date) : undefined,
+      heading: photo.heading !== undefined ? Number(photo.heading) : undefined,
+      isPano: false,
+      sequenceId: String(photo.sequence_id),
+    };
+  }
+
+  /**
+   * Convert a sequence photo from the 2.0 API to ImageryResult.
+   */
+  private sequencePhotoToImagery(photo: KartaViewSequencePhoto): ImageryResult {
+    const path = photo.fileurlLTh || photo.fileurlTh || photo.fileurl;
+    return {
+      id: String(photo.id),
+      location: new LngLat(Number(photo.lng), Number(photo.lat)),
+      provider: this.name,
+      thumbnailUrl: path ? this.resolveImageUrl(path) : undefined,
+      capturedAt: photo.shotDate ? new Date(photo.shotDate) : undefined,
+      heading: photo.heading !== undefined ? Number(photo.heading) : undefined,
+      isPano: photo.projection === 'SPHERE',
+      sequenceId: String(photo.sequenceId),
+    };
+  }
+
+  /**
+   * Resolve a storage path returned by the API into an absolute URL.
+   */
+  private resolveImageUrl(path: string): string {
+    if (/^https?:\/\//.test(path)) {
+      return path;
+    }
+    return `${this._baseUrl}/${path.replace(/^\//, '')}`;
+  }
+
+  /**
+   * Fetch all photos of a sequence, ordered by sequence index.
+   * Long sequences are fetched page by page.
+   *
+   * @param sequenceId - The KartaView sequence ID
+   * @param signal - Optional signal to abort the requests
+   * @returns The sequence photos as imagery results
+   */
+  async getSequence(sequenceId: string, signal?: AbortSignal): Promise<ImageryResult[]> {
+    const pageSize = KARTAVIEW_API.SEQUENCE_PAGE_SIZE;
+    const photos: KartaViewSequencePhoto[] = [];
+
+    for (let page = 1; ; page++) {
+      const params = new URLSearchParams({ page: String(page), itemsPerPage: String(pageSize) });
+      const url = `${this._baseUrl}${KARTAVIEW_API.SEQUENCE_ENDPOINT}/${encodeURIComponent(sequenceId)}/photos?${params}`;
+      const response = await this.request<KartaViewSequencePhotosResponse>(url, { signal });
+      const data = response.result?.data ?? [];
+      photos.push(...data);
+
+      if (data.length < pageSize || response.result?.hasMoreData === false) break;
+    }
+
+    return photos
+      .sort((a, b) => Number(a.sequenceIndex) - Number(b.sequenceIndex))
+      .map(photo => this.sequencePhotoToImagery(photo));
+  }
+
+  /**
+   * Render the photo viewer in a container.
+   *
+   * @param container - The container element
+   * @param imagery - The imagery to display
+   */
+  render(container: HTMLElement, imagery: ImageryResult): void {
+    this.removeViewer();
+    this.abortSequence();
+
+    this._container = container;
+    this._currentImagery = imagery;
+    this._sequence = [imagery];
+    this._currentIndex = 0;
+
+    this._photoViewer = new PhotoViewer({
+      onPrevious: () => this.previous(),
+      onNext: () => this.next(),
+    });
+    container.appendChild(this._photoViewer.getElement());
+    this.showCurrent();
+
+    if (imagery.heading !== undefined) {
+      this.emitHeadingChange(imagery.heading);
+    }
+
+    // Load the surrounding sequence to enable navigation
+    if (imagery.sequenceId) {
+      const controller = new AbortController();
+      this._sequenceController = controller;
+
+      this.getSequence(imagery.sequenceId, controller.signal)
+        .then((sequence) => {
+          // Ignore if another image has been rendered in the meantime
+          if (controller.signal.aborted || this._currentImagery !== imagery) return;
+
+          const index = sequence.findIndex(item => item.id === imagery.id);
+          if (index >= 0) {
+            this._sequence = sequence;
+            this._currentIndex = index;
+            this.updateNavigation();
+          }
+        })
+        .catch((error) => {
+          // The single photo stays displayed without navigation
+          if (!isAbortError(error)) {
+            console.error('KartaView sequence query failed:', error);
+          }
+        })
+        .finally(() => {
+          if (this._sequenceController === controller) {
+            this._sequenceController = null;
+          }
+        });
+    }
+  }
+
+  /**
+   * Shows the photo at the current sequence index.
+   */
+  private showCurrent(): void {
+    const imagery = this._sequence[this._currentIndex];
+    if (!this._photoViewer || !imagery) return;
+
+    if (imagery.thumbnailUrl) {
+      this._photoViewer.setImage(imagery.thumbnailUrl, `KartaView photo ${imagery.id}`);
+    }
+    this.updateNavigation();
+  }
+
+  /**
+   * Updates the enabled state of the navigation buttons.
+   */
+  private updateNavigation(): void {
+    this._photoViewer?.setNavigation(
+      this._currentIndex > 0,
+      this._currentIndex < this._sequence.length - 1
+    );
+  }
+
+  /**
+   * Move along the current sequence by a number of photos.
+   *
+   * @param step - Number of photos to move (negative moves backwards)
+   */
+  navigate(step: number): void {
+    const index = this._currentIndex + step;
+    if (index < 0 || index >= this._sequence.length) return;
+
+    this._currentIndex = index;
+    this._currentImagery = this._sequence[index];
+    this.showCurrent();
+
+    this.emitLocationChange(this._currentImagery.location);
+    if (this._currentImagery.heading !== undefined) {
+      this.emitHeadingChange(this._currentImagery.heading);
+    }
+  }
+
+  /**
+   * Show the next photo in the sequence.
+   */
+  next(): void {
+    this.navigate(1);
+  }
+
+  /**
+   * Show the previous photo in the sequence.
+   */
+  previous(): void {
+    this.navigate(-1);
+  }
+
+  /**
+   * Gets the currently displayed imagery.
+   */
+  getCurrentImagery(): ImageryResult | null {
+    return this._currentImagery;
+  }
+
+  /**
+   * Removes the photo viewer element.
+   */
+  private removeViewer(): void {
+    if (this._photoViewer) {
+      this._photoViewer.destroy();
+      this._photoViewer = null;
+    }
+  }
+
+  /**
+   * Aborts the pending sequence request.
+   */
+  private abortSequence(): void {
+    this._sequenceController?.abort();
+    this._sequenceController = null;
+  }
+
+  /**
+   * Clean up the photo viewer.
+   */
+  destroy(): void {
+    this.removeViewer();
+    this.abortSequence();
+    this._container = null;
+    this._currentImagery = null;
+    this._sequence = [];
+    this._currentIndex = -1;
+  }
+
+  /**
+   * Get the current view state.
+   * Flat photos always face the capture heading.
+   */
+  getViewState(): ViewState | null {
+    if (!this._currentImagery) return null;
+
+    return {
+      heading: this._currentImagery.heading ?? this._currentHeading,
+      pitch: 0,
+    };
+  }
+}
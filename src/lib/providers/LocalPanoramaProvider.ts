@@ -0,0 +1,350 @@
+import { LngLat, type LngLatLike, type GeoJSONSourceSpecification } from 'maplibre-gl';
+import { BaseProvider } from './BaseProvider';
+import type { ImageryResult, ViewState, ProviderType, CoverageLayers } from '../core/types';
+import { PanoramaViewer } from '../components/PanoramaViewer';
+import { toLngLat, calculateDistance, findClosestPoint } from '../utils/geo';
+
+/**
+ * Properties of a panorama point in the catalog.
+ */
+export interface PanoramaCatalogProperties {
+  /** URL of the equirectangular image, relative URLs resolve against the catalog URL */
+  image_url: string;
+  /** Compass heading at the center of the image */
+  heading?: number;
+  /** Capture date as ISO string or timestamp */
+  captured_at?: string | number;
+  /** Optional identifier, used when the feature has no id */
+  id?: string | number;
+}
+
+/**
+ * A panorama point in the catalog.
+ */
+export interface PanoramaCatalogFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: {
+    type: 'Point';
+    coordinates: [number, number];
+  } | null;
+  properties: PanoramaCatalogProperties;
+}
+
+/**
+ * GeoJSON FeatureCollection of panorama points.
+ */
+export interface PanoramaCatalog {
+  type: 'FeatureCollection';
+  features: PanoramaCatalogFeature[];
+}
+
+/**
+ * Options for the local panorama provider.
+ */
+export interface LocalPanoramaProviderOptions {
+  /** The catalog, or a URL to load it from */
+  catalog: PanoramaCatalog | string;
+
+  /** Provider name. Default: 'local' */
+  name?: ProviderType;
+
+  /** Display name for UI. Default: 'Panoramas' */
+  displayName?: string;
+}
+
+/**
+ * Provider for self-hosted equirectangular panoramas described by a GeoJSON catalog.
+ * Lookups run entirely in the browser, no third-party service is involved.
+ */
+export class LocalPanoramaProvider extends BaseProvider {
+  readonly name: ProviderType;
+  readonly displayName: string;
+  readonly icon = `
+    <svg viewBox="0 0 24 24" fill="currentColor">
+      <path d="M21 4H3c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h18c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zM5 17l3.5-4.5 2.5 3 3.5-4.5L19 17H5z"/>
+    </svg>
+  `;
+
+  private _catalogSource: PanoramaCatalog | string;
+  private _catalogPromise: Promise<ImageryResult[]> | null = null;
+  private _viewer: PanoramaViewer | null = null;
+  private _currentImagery: ImageryResult | null = null;
+
+  /**
+   * Creates a new local panorama provider.
+   *
+   * @param options - Provider options
+   */
+  constructor(options: LocalPanoramaProviderOptions) {
+    super();
+    this._catalogSource = options.catalog;
+    this.name = options.name ?? 'local';
+    this.displayName = options.displayName ?? 'Panoramas';
+  }
+
+  /**
+   * Create a provider for the same catalog, e.g. to show two panoramas side by side.
+   * The catalog is only loaded once.
+   */
+  clone(): LocalPanoramaProvider {
+    const clone = new LocalPanoramaProvider({
+      catalog: this._catalogSource,
+      name: this.name,
+      displayName: this.displayName,
+    });
+    clone._catalogPromise = this._catalogPromise;
+    return clone;
+  }
+
+  /**
+   * Check if a catalog has been provided.
+   */
+  isConfigured(): boolean {
+    return Boolean(this._catalogSource);
+  }
+
+  /**
+   * Replaces the catalog. A URL is loaded lazily on the next query.
+   *
+   * @param catalog - The catalog or a URL to load it from
+   */
+  setCatalog(catalog: PanoramaCatalog | string): void {
+    this._catalogSource = catalog;
+    this._catalogPromise = null;
+  }
+
+  /**
+   * Gets all panoramas in the catalog, loading it if necessary.
+   */
+  getPanoramas(): Promise<ImageryResult[]> {
+    if (!this._catalogPromise) {
+      this._catalogPromise = this.loadCatalog().catch((error) => {
+        // Allow a later query to retry loading
+        this._catalogPromise = null;
+        throw error;
+      });
+    }
+    return this._catalogPromise;
+  }
+
+  /**
+   * Loads the catalog and converts its features to imagery results.
+   */
+  private async loadCatalog(): Promise<ImageryResult[]> {
+    const source = this._catalogSource;
+    const catalog = typeof source === 'string' ? await this.request<PanoramaCatalog>(source) : source;
+    const baseUrl = typeof source === 'string' ? new URL(source, document.baseURI).toString() : undefined;
+
+    return (catalog.features ?? [])
+      .filter((feature): feature is PanoramaCatalogFeature & { geometry: NonNullable<PanoramaCatalogFeature['geometry']> } =>
+        Boolean(feature.geometry && feature.properties?.image_url)
+      )
+      .map((feature, index) => this.featureToImagery(feature, index, baseUrl));
+  }
+
+  /**
+   * Convert a catalog feature to ImageryResult.
+   */
+  private featureToImagery(
+    feature: PanoramaCatalogFeature & { geometry: NonNullable<PanoramaCatalogFeature['geometry']> },
+    index: number,
+    baseUrl?: string
+  ): ImageryResult {
+    const [lng, lat] = feature.geometry.coordinates;
+    const { image_url, heading, captured_at, id } = feature.properties;
+    return {
+      id: String(feature.id ?? id ?? index),
+      location: new LngLat(lng, lat),
+      provider: this.name,
+      imageUrl: baseUrl ? new URL(image_url, baseUrl).toString() : image_url,
+      capturedAt: captured_at !== undefined ? new Date(captured_at) : undefined,
+      heading: heading !== undefined ? Number(heading) : undefined,
+      isPano: true,
+    };
+  }
+
+  /**
+   * Query for the closest catalog panorama within a radius.
+   *
+   * @param lngLat - The location to query
+   * @param radius - Search radius in meters (default: 50)
+   * @param signal - Optional signal to abort the request
+   * @returns The closest imagery result or null
+   */
+  async queryImagery(lngLat: LngLatLike, radius = 50, signal?: AbortSignal): Promise<ImageryResult | null> {
+    if (!this.isConfigured()) {
+      return null;
+    }
+
+    const point = toLngLat(lngLat);
+
+    // The catalog load is shared between queries, so only stop waiting for it
+    const panoramas = await this.getPanoramas();
+    signal?.throwIfAborted();
+    return findClosestPoint(point, this.findNearby(point, panoramas, radius));
+  }
+
+  /**
+   * List the catalog panoramas within a radius, e.g. captured on different dates.
+   *
+   * @param lngLat - The location to query
+   * @param radius - Search radius in meters (default: 50)
+   * @param signal - Optional signal to abort the request
+   * @returns The panoramas found, possibly empty
+   */
+  async queryHistory(lngLat: LngLatLike, radius = 50, signal?: AbortSignal): Promise<ImageryResult[]> {
+    if (!this.isConfigured()) {
+      return [];
+    }
+
+    const panoramas = await this.getPanoramas();
+    signal?.throwIfAborted();
+    return this.findNearby(toLngLat(lngLat), panoramas, radius);
+  }
+
+  /**
+   * Get the panoramas within a radius that match the filters.
+   */
+  private findNearby(point: LngLat, panoramas: ImageryResult[], radius: number): ImageryResult[] {
+    return panoramas.filter(item => calculateDistance(point, item.location) <= radius && this.matchesFilters(item));
+  }
+
+  /**
+   * Find the nearest catalog panorama within a maximum radius.
+   * The catalog is held in memory, so a single lookup covers the whole radius.
+   *
+   * @param lngLat - The target location
+   * @param maxRadius - Maximum search radius in meters (default: 100)
+   * @param signal - Optional signal to abort the search
+   * @returns The nearest imagery or null
+   */
+  async findNearestImagery(
+    lngLat: LngLatLike,
+    maxRadius = 100,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null> {
+    return this.queryImagery(lngLat, maxRadius, signal);
+  }
+
+  /**
+   * Get the catalog points as a GeoJSON coverage layer.
+   */
+  getCoverageLayers(): CoverageLayers | null {
+    if (!this.isConfigured()) return null;
+
+    return {
+      sources: {
+        coverage: {
+          type: 'geojson',
+          // MapLibre accepts both inline GeoJSON and a URL here
+          data: this._catalogSource as GeoJSONSourceSpecification['data'],
+        },
+      },
+      layers: [
+        {
+          id: 'panoramas',
+          type: 'circle',
+          source: 'coverage',
+          paint: {
+            'circle-color': '#7b1fa2',
+            'circle-radius': 5,
+            'circle-stroke-color': '#ffffff',
+            'circle-stroke-width': 1,
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Render the panorama viewer in a container.
+   *
+   * @param container - The container element
+   * @param imagery - The imagery to display
+   */
+  render(container: HTMLElement, imagery: ImageryResult): void {
+    this.removeViewer();
+
+    this._container = container;
+    this._currentImagery = imagery;
+
+    this._viewer = new PanoramaViewer({
+      onViewChange: (heading) => this.emitHeadingChange(heading),
+    });
+    container.appendChild(this._viewer.getElement());
+
+    if (imagery.imageUrl) {
+      this._viewer.setImage(imagery.imageUrl, imagery.heading ?? 0);
+    }
+    this._viewer.setHeading(imagery.heading ?? 0);
+    this.emitHeadingChange(imagery.heading ?? 0);
+  }
+
+  /**
+   * Removes the panorama viewer.
+   */
+  private removeViewer(): void {
+    this._viewer?.destroy();
+    this._viewer = null;
+  }
+
+  /**
+   * Clean up the viewer.
+   */
+  destroy(): void {
+    this.removeViewer();
+    this._container = null;
+    this._currentImagery = null;
+  }
+
+  /**
+   * Get the current view state from the panorama viewer.
+   */
+  getViewState(): ViewState | null {
+    if (!this._viewer) return null;
+
+    return {
+      heading: this._viewer.getHeading(),
+      pitch: this._viewer.getPitch(),
+      zoom: this._viewer.getZoom(),
+      fov: this._viewer.getFieldOfView(),
+    };
+  }
+
+  /**
+   * Set the view heading.
+   *
+   * @param heading - The heading (0-360)
+   */
+  setHeading(heading: number): void {
+    if (!this._viewer) return;
+    this._viewer.setHeading(heading);
+    this.emitHeadingChange(this._viewer.getHeading());
+  }
+
+  /**
+   * Set the view pitch.
+   *
+   * @param pitch - The pitch (-90 to 90)
+   */
+  setPitch(pitch: number): void {
+    this._viewer?.setPitch(pitch);
+  }
+
+  /**
+   * Set the zoom level.
+   *
+   * @param zoom - The zoom level
+   */
+  setZoom(zoom: number): void {
+    this._viewer?.setZoom(zoom);
+  }
+
+  /**
+   * Gets the currently displayed imagery.
+   */
+  getCurrentImagery(): ImageryResult | null {
+    return this._currentImagery;
+  }
+}
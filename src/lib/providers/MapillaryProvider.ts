@@ -1,10 +1,37 @@
 import { LngLat, type LngLatLike } from 'maplibre-gl';
 import { Viewer as MapillaryViewer } from 'mapillary-js';
 import { BaseProvider } from './BaseProvider';
-import type { ImageryResult, ViewState, ProviderType } from '../core/types';
+import { PhotoViewer } from '../components/PhotoViewer';
+import type { ImageryResult, ViewState, ProviderType, CoverageLayers } from '../core/types';
 import { MAPILLARY_API, MAPILLARY_IMAGE_FIELDS } from '../core/constants';
 import { toLngLat, createBbox, bboxToString, findClosestPoint } from '../utils/geo';
-import { buildUrl, fetchJson, type MapillaryImageResponse, type MapillaryImage } from '../utils/api';
+import { getDateRangeBounds } from '../utils/dates';
+import { getFiltersKey } from '../utils/filters';
+import { clamp, normalizeHeading } from '../utils/helpers';
+import { StreetViewError, AuthError, QuotaExceededError } from '../core/errors';
+import {
+  buildUrl,
+  type MapillaryImageResponse,
+  type MapillaryImage,
+  type MapillaryErrorResponse,
+} from '../utils/api';
+
+/** Graph API error codes for invalid or expired access tokens */
+const MAPILLARY_AUTH_ERROR_CODES = [102, 190];
+
+/** Graph API error codes for rate limiting */
+const MAPILLARY_RATE_LIMIT_ERROR_CODES = [4, 17, 32, 613];
+
+/**
+ * Options for the Mapillary provider.
+ */
+export interface MapillaryProviderOptions {
+  /**
+   * Fetches a fresh access token, for short-lived user tokens. Called lazily before
+   * the first request and again whenever a request is rejected as unauthorized.
+   */
+  getAccessToken?: () => Promise<string>;
+}
 
 /**
  * Mapillary provider using the MapillaryJS viewer.
@@ -13,26 +40,105 @@ import { buildUrl, fetchJson, type MapillaryImageResponse, type MapillaryImage }
 export class MapillaryProvider extends BaseProvider {
   readonly name: ProviderType = 'mapillary';
   readonly displayName = 'Mapillary';
+  readonly icon = `
+    <svg viewBox="0 0 24 24" fill="currentColor">
+      <circle cx="12" cy="12" r="10"/>
+      <circle cx="12" cy="12" r="4" fill="white"/>
+    </svg>
+  `;
 
   private _accessToken: string;
+  private _getAccessToken: (() => Promise<string>) | null;
+  private _tokenRequest: Promise<string> | null = null;
   private _viewer: MapillaryViewer | null = null;
   private _viewerContainer: HTMLElement | null = null;
+  private _photoViewer: PhotoViewer | null = null;
+  private _renderId = 0;
+  // Images of the latest search, so the timeline does not search again for the imagery shown
+  private _lastSearch: { key: string; results: ImageryResult[] } | null = null;
+  // Last known tilt and zoom, as reading them from the viewer is async
+  private _pitch = 0;
+  private _zoom = 0;
 
   /**
    * Creates a new Mapillary provider.
    *
-   * @param accessToken - Mapillary access token
+   * @param accessToken - Mapillary access token, may be empty when `getAccessToken` is set
+   * @param options - Provider options
    */
-  constructor(accessToken: string) {
+  constructor(accessToken: string, options: MapillaryProviderOptions = {}) {
     super();
     this._accessToken = accessToken;
+    this._getAccessToken = options.getAccessToken ?? null;
   }
 
   /**
-   * Check if the access token is configured.
+   * Check if an access token or a callback to fetch one is configured.
    */
   isConfigured(): boolean {
-    return Boolean(this._accessToken);
+    return Boolean(this._accessToken || this._getAccessToken);
+  }
+
+  /**
+   * Set the access token, e.g. after the user signed in again.
+   * The live viewer switches to the new token.
+   *
+   * @param accessToken - Mapillary access token
+   */
+  setAccessToken(accessToken: string): void {
+    if (accessToken === this._accessToken) return;
+
+    this._accessToken = accessToken;
+    this._viewer?.setAccessToken(accessToken).catch((error) => {
+      console.error('Failed to update Mapillary access token:', error);
+    });
+    // The coverage tile URL carries the token
+    this.emitCoverageChange();
+  }
+
+  /**
+   * Create a provider with the same access token and callback, e.g. to show two
+   * images side by side. The control sets its cache, filters and request policy.
+   */
+  clone(): MapillaryProvider {
+    return new MapillaryProvider(this._accessToken, { getAccessToken: this._getAccessToken ?? undefined });
+  }
+
+  /**
+   * Set the callback used to fetch fresh access tokens.
+   *
+   * @param getAccessToken - Fetches a token, or null to only use the token set directly
+   */
+  setAccessTokenCallback(getAccessToken: (() => Promise<string>) | null): void {
+    this._getAccessToken = getAccessToken;
+    this._tokenRequest = null;
+  }
+
+  /**
+   * Get the access token, fetching one through `getAccessToken` if there is none yet.
+   * Concurrent refreshes share a single callback invocation.
+   *
+   * @param refresh - Fetch a new token even if one is set, e.g. after a 401
+   * @returns The access token
+   */
+  private getToken(refresh = false): Promise<string> {
+    const getAccessToken = this._getAccessToken;
+    if (!getAccessToken || (this._accessToken && !refresh && !this._tokenRequest)) {
+      return Promise.resolve(this._accessToken);
+    }
+
+    if (!this._tokenRequest) {
+      const request = getAccessToken()
+        .then((token) => {
+          if (this._tokenRequest === request) this.setAccessToken(token);
+          return token;
+        })
+        .finally(() => {
+          if (this._tokenRequest === request) this._tokenRequest = null;
+        });
+      this._tokenRequest = request;
+    }
+    return this._tokenRequest;
   }
 
   /**
@@ -40,42 +146,145 @@ export class MapillaryProvider extends BaseProvider {
    *
    * @param lngLat - The location to query
    * @param radius - Search radius in meters (default: 50)
+   * @param signal - Optional signal to abort the request
    * @returns The closest imagery result or null
    */
-  async queryImagery(lngLat: LngLatLike, radius = 50): Promise<ImageryResult | null> {
+  async queryImagery(lngLat: LngLatLike, radius = 50, signal?: AbortSignal): Promise<ImageryResult | null> {
     if (!this.isConfigured()) {
       return null;
     }
 
     const point = toLngLat(lngLat);
+
+    return this.cachedQuery(
+      point,
+      radius,
+      (requestSignal) => this.requestImagery(point, radius, requestSignal),
+      signal
+    );
+  }
+
+  /**
+   * List the Mapillary images within a bounding box around a location,
+   * e.g. captured on different dates.
+   *
+   * @param lngLat - The location to query
+   * @param radius - Search radius in meters (default: 50)
+   * @param signal - Optional signal to abort the request
+   * @returns The images found, possibly empty
+   */
+  async queryHistory(lngLat: LngLatLike, radius = 50, signal?: AbortSignal): Promise<ImageryResult[]> {
+    if (!this.isConfigured()) {
+      return [];
+    }
+
+    const point = toLngLat(lngLat);
+    const key = this.getSearchKey(point, radius);
+    if (this._cache && this._lastSearch?.key === key) {
+      return [...this._lastSearch.results];
+    }
+    return this.searchImagery(point, radius, signal);
+  }
+
+  /**
+   * Key of a search, combining the bounding box and the filters.
+   */
+  private getSearchKey(point: LngLat, radius: number): string {
+    return `${bboxToString(createBbox(point, radius))}:${getFiltersKey(this._filters)}`;
+  }
+
+  /**
+   * Request the Mapillary image closest to a location.
+   */
+  private async requestImagery(point: LngLat, radius: number, signal?: AbortSignal): Promise<ImageryResult | null> {
+    const imageryResults = await this.searchImagery(point, radius, signal);
+    return findClosestPoint(point, imageryResults);
+  }
+
+  /**
+   * Request Mapillary images within a bounding box around a location.
+   * A request rejected as unauthorized is retried once with a refreshed token.
+   */
+  private async searchImagery(point: LngLat, radius: number, signal?: AbortSignal): Promise<ImageryResult[]> {
     const bbox = createBbox(point, radius);
 
-    try {
+    const search = async (accessToken: string) => {
       const url = buildUrl(`${MAPILLARY_API.GRAPH_URL}${MAPILLARY_API.IMAGES_ENDPOINT}`, {
-        access_token: this._accessToken,
+        access_token: accessToken,
         bbox: bboxToString(bbox),
         fields: MAPILLARY_IMAGE_FIELDS,
         limit: 100,
+        ...this.getFilterParams(),
+      });
+
+      return this.request<MapillaryImageResponse>(url, { signal }).catch((error) => {
+        throw this.mapGraphError(error);
       });
+    };
 
-      const response = await fetchJson<MapillaryImageResponse>(url);
+    const accessToken = await this.getToken();
+    signal?.throwIfAborted();
 
-      if (!response.data || response.data.length === 0) {
-        return null;
-      }
+    const response = await search(accessToken).catch(async (error) => {
+      if (!(error instanceof AuthError) || !this._getAccessToken) throw error;
 
-      // Convert to imagery results and find closest
-      const imageryResults = response.data
-        .filter((img): img is MapillaryImage & { computed_geometry: NonNullable<MapillaryImage['computed_geometry']> } =>
-          Boolean(img.computed_geometry)
-        )
-        .map(img => this.mapillaryToImagery(img));
+      const refreshed = await this.getToken(true);
+      signal?.throwIfAborted();
+      return search(refreshed);
+    });
 
-      return findClosestPoint(point, imageryResults);
-    } catch (error) {
-      console.error('Mapillary query failed:', error);
-      return null;
+    const results = (response.data ?? [])
+      .filter((img): img is MapillaryImage & { computed_geometry: NonNullable<MapillaryImage['computed_geometry']> } =>
+        Boolean(img.computed_geometry)
+      )
+      .map(img => this.mapillaryToImagery(img))
+      .filter(imagery => this.matchesFilters(imagery));
+
+    if (this._cache) {
+      this._lastSearch = { key: this.getSearchKey(point, radius), results };
+    }
+    return results;
+  }
+
+  /**
+   * Get the Graph API search parameters for the filters.
+   * The quality score has no search parameter and is only checked on the results.
+   */
+  private getFilterParams(): Record<string, string | boolean> {
+    const { panoOnly, excludePano, creatorId, organizationId } = this._filters;
+    const bounds = getDateRangeBounds({ start: this._filters.capturedAfter, end: this._filters.capturedBefore });
+    const params: Record<string, string | boolean> = {};
+
+    if (bounds && Number.isFinite(bounds.start)) {
+      params.start_captured_at = new Date(bounds.start).toISOString();
+    }
+    if (bounds && Number.isFinite(bounds.end)) {
+      params.end_captured_at = new Date(bounds.end).toISOString();
     }
+    if (panoOnly || excludePano) {
+      params.is_pano = Boolean(panoOnly);
+    }
+    if (creatorId) {
+      params.creator_id = creatorId;
+    }
+    if (organizationId) {
+      params.organization_id = organizationId;
+    }
+    return params;
+  }
+
+  /**
+   * Check if imagery matches the filters, including its creator and quality score.
+   * Images without a creator or score fail the respective filter.
+   *
+   * @param imagery - The imagery to check
+   * @returns True if the imagery matches the filters
+   */
+  protected matchesFilters(imagery: ImageryResult): boolean {
+    const { creatorId, minQualityScore } = this._filters;
+    if (creatorId && imagery.creatorId !== creatorId) return false;
+    if (minQualityScore !== undefined && (imagery.qualityScore ?? -Infinity) < minQualityScore) return false;
+    return super.matchesFilters(imagery);
   }
 
   /**
@@ -84,19 +293,39 @@ export class MapillaryProvider extends BaseProvider {
    *
    * @param lngLat - The target location
    * @param maxRadius - Maximum search radius in meters (default: 100)
+   * @param signal - Optional signal to abort the search
    * @returns The nearest imagery or null
    */
-  async findNearestImagery(lngLat: LngLatLike, maxRadius = 100): Promise<ImageryResult | null> {
+  async findNearestImagery(
+    lngLat: LngLatLike,
+    maxRadius = 100,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null> {
     // Mapillary bbox can be larger, so use fewer iterations
-    const radii = [50, 100, 250, 500].filter(r => r <= maxRadius || r === 50);
+    return this.searchRadii(lngLat, [50, 100, 250, 500], maxRadius, signal);
+  }
 
-    for (const radius of radii) {
-      if (radius > maxRadius) break;
-      const result = await this.queryImagery(lngLat, radius);
-      if (result) return result;
-    }
+  /**
+   * Refines an HTTP error using the Graph API error body.
+   * Invalid or expired tokens are reported as OAuth errors with HTTP 400,
+   * rate limits with dedicated error codes.
+   */
+  private mapGraphError(error: unknown): unknown {
+    if (!(error instanceof StreetViewError) || error instanceof AuthError) return error;
+
+    const graphError = (error.details as MapillaryErrorResponse | undefined)?.error;
+    if (!graphError) return error;
 
-    return null;
+    const message = graphError.message ?? error.message;
+    const options = { status: error.status, details: error.details, cause: error };
+
+    if (graphError.type === 'OAuthException' || MAPILLARY_AUTH_ERROR_CODES.includes(graphError.code ?? -1)) {
+      return new AuthError(message, options);
+    }
+    if (MAPILLARY_RATE_LIMIT_ERROR_CODES.includes(graphError.code ?? -1)) {
+      return new QuotaExceededError(message, options);
+    }
+    return error;
   }
 
   /**
@@ -112,6 +341,58 @@ export class MapillaryProvider extends BaseProvider {
       capturedAt: image.captured_at ? new Date(image.captured_at) : undefined,
       heading: image.compass_angle,
       isPano: image.is_pano,
+      creatorId: image.creator?.id,
+      qualityScore: image.quality_score,
+    };
+  }
+
+  /**
+   * Get the Mapillary coverage vector tiles.
+   * Sequences are drawn as lines, individual images as points from zoom 14.
+   */
+  getCoverageLayers(): CoverageLayers | null {
+    if (!this.isConfigured()) return null;
+
+    // Only a token callback so far: fetch a token, setAccessToken() then asks for the layers again
+    if (!this._accessToken) {
+      this.getToken().catch((error) => {
+        console.error('Failed to get Mapillary access token:', error);
+      });
+      return null;
+    }
+
+    return {
+      sources: {
+        coverage: {
+          type: 'vector',
+          tiles: [`${MAPILLARY_API.COVERAGE_TILES_URL}?access_token=${encodeURIComponent(this._accessToken)}`],
+          minzoom: 6,
+          maxzoom: 14,
+        },
+      },
+      layers: [
+        {
+          id: 'sequences',
+          type: 'line',
+          source: 'coverage',
+          'source-layer': 'sequence',
+          layout: { 'line-cap': 'round', 'line-join': 'round' },
+          paint: { 'line-color': '#05cb63', 'line-width': 2, 'line-opacity': 0.7 },
+        },
+        {
+          id: 'images',
+          type: 'circle',
+          source: 'coverage',
+          'source-layer': 'image',
+          minzoom: 14,
+          paint: {
+            'circle-color': '#05cb63',
+            'circle-radius': 3,
+            'circle-stroke-color': '#ffffff',
+            'circle-stroke-width': 1,
+          },
+        },
+      ],
     };
   }
 
@@ -122,10 +403,20 @@ export class MapillaryProvider extends BaseProvider {
    * @param imagery - The imagery to display
    */
   render(container: HTMLElement, imagery: ImageryResult): void {
+    // Clean up existing viewer, keeping the subscribers of the next one
+    this.removeViewer();
     this._container = container;
 
-    // Clean up existing viewer
-    this.destroy();
+    // MapillaryJS needs the network, so offline results show the stored thumbnail
+    if (imagery.stale && imagery.thumbnailUrl) {
+      this._photoViewer = new PhotoViewer({ showNavigation: false });
+      container.appendChild(this._photoViewer.getElement());
+      this._photoViewer.setImage(imagery.thumbnailUrl, `Mapillary image ${imagery.id}`);
+      if (imagery.heading !== undefined) {
+        this.emitHeadingChange(imagery.heading);
+      }
+      return;
+    }
 
     // Create viewer container
     this._viewerContainer = document.createElement('div');
@@ -134,18 +425,60 @@ export class MapillaryProvider extends BaseProvider {
     this._viewerContainer.style.height = '100%';
     container.appendChild(this._viewerContainer);
 
+    if (this._accessToken) {
+      this.createViewer(this._viewerContainer, imagery);
+      return;
+    }
+
+    // Fetch a token first when none has been requested yet
+    const renderId = ++this._renderId;
+    const viewerContainer = this._viewerContainer;
+    this.getToken()
+      .then(() => {
+        // Ignore if another image has been rendered or the viewer was destroyed
+        if (renderId !== this._renderId || viewerContainer !== this._viewerContainer) return;
+        this.createViewer(viewerContainer, imagery);
+      })
+      .catch((error) => {
+        console.error('Failed to get Mapillary access token:', error);
+      });
+  }
+
+  /**
+   * Create the MapillaryJS viewer for an image.
+   */
+  private createViewer(viewerContainer: HTMLElement, imagery: ImageryResult): void {
     // Initialize MapillaryJS viewer
     this._viewer = new MapillaryViewer({
       accessToken: this._accessToken,
-      container: this._viewerContainer,
+      container: viewerContainer,
       imageId: imagery.id,
     });
+    this._pitch = 0;
+    this._zoom = 0;
 
     // Subscribe to bearing changes (when user rotates the view)
     this._viewer.on('bearing', (event) => {
       this.emitHeadingChange(event.bearing);
     });
 
+    // Track tilt and zoom when the user drags or scrolls the view
+    const viewer = this._viewer;
+    viewer.on('pov', () => {
+      viewer.getPointOfView().then((pov) => {
+        if (viewer === this._viewer) this._pitch = pov.tilt;
+      }).catch(() => {
+        // Keep the last known tilt
+      });
+    });
+    viewer.on('fov', () => {
+      viewer.getZoom().then((zoom) => {
+        if (viewer === this._viewer) this._zoom = zoom;
+      }).catch(() => {
+        // Keep the last known zoom
+      });
+    });
+
     // Subscribe to image changes (when user navigates to a different image)
     this._viewer.on('image', (event) => {
       const image = event.image;
@@ -190,9 +523,9 @@ export class MapillaryProvider extends BaseProvider {
   }
 
   /**
-   * Clean up the MapillaryJS viewer.
+   * Removes the MapillaryJS viewer and the photo viewer.
    */
-  destroy(): void {
+  private removeViewer(): void {
     if (this._viewer) {
       this._viewer.remove();
       this._viewer = null;
@@ -201,6 +534,17 @@ export class MapillaryProvider extends BaseProvider {
       this._viewerContainer.remove();
       this._viewerContainer = null;
     }
+    if (this._photoViewer) {
+      this._photoViewer.destroy();
+      this._photoViewer = null;
+    }
+  }
+
+  /**
+   * Clean up the MapillaryJS viewer.
+   */
+  destroy(): void {
+    this.removeViewer();
     this._container = null;
     this._headingCallbacks.clear();
   }
@@ -210,28 +554,74 @@ export class MapillaryProvider extends BaseProvider {
    * Note: This is synchronous but may return stale data.
    */
   getViewState(): ViewState | null {
-    if (!this._viewer) return null;
+    if (!this._viewer && !this._photoViewer) return null;
 
-    // Return cached heading since getPointOfView is async
+    // Return cached values since getPointOfView is async
     return {
       heading: this._currentHeading,
-      pitch: 0,
-      zoom: 1,
+      pitch: this._pitch,
+      zoom: this._zoom,
     };
   }
 
   /**
-   * Set the view bearing/heading.
+   * Set the view bearing/heading. Only spherical images can be turned.
    *
    * @param heading - The heading (0-360)
    */
   async setHeading(heading: number): Promise<void> {
+    await this.pointTo(heading, undefined);
+  }
+
+  /**
+   * Set the view pitch. Only spherical images can be tilted.
+   *
+   * @param pitch - The pitch (-90 to 90)
+   */
+  async setPitch(pitch: number): Promise<void> {
+    if (this._viewer) this._pitch = clamp(pitch, -90, 90);
+    await this.pointTo(undefined, pitch);
+  }
+
+  /**
+   * Set the MapillaryJS zoom level.
+   *
+   * @param zoom - The zoom level (0-3)
+   */
+  setZoom(zoom: number): void {
     if (!this._viewer) return;
 
+    this._zoom = clamp(zoom, 0, 3);
+    this._viewer.setZoom(zoom);
+  }
+
+  /**
+   * Turn the view of a spherical image. MapillaryJS positions the view by image
+   * coordinates, where the full width covers 360° and the full height 180°, so the
+   * change is applied relative to the current point of view.
+   */
+  private async pointTo(heading: number | undefined, pitch: number | undefined): Promise<void> {
+    const viewer = this._viewer;
+    if (!viewer) return;
+
     try {
-      await this._viewer.setCenter([heading, 0]);
+      const [image, pov, [x, y]] = await Promise.all([
+        viewer.getImage(),
+        viewer.getPointOfView(),
+        viewer.getCenter(),
+      ]);
+      if (viewer !== this._viewer) return;
+      if (image.cameraType !== 'spherical') {
+        // Flat images cannot be tilted
+        this._pitch = pov.tilt;
+        return;
+      }
+
+      const dx = heading === undefined ? 0 : (normalizeHeading(heading - pov.bearing + 180) - 180) / 360;
+      const dy = pitch === undefined ? 0 : (pov.tilt - pitch) / 180;
+      viewer.setCenter([normalizeHeading((x + dx) * 360) / 360, clamp(y + dy, 0, 1)]);
     } catch (error) {
-      console.error('Failed to set heading:', error);
+      console.error('Failed to set view:', error);
     }
   }
 
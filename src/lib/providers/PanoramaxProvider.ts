@@ -0,0 +1,300 @@
+import { LngLat, type LngLatLike } from 'maplibre-gl';
+import { BaseProvider } from './BaseProvider';
+import type { ImageryResult, ViewState, ProviderType, CoverageLayers } from '../core/types';
+import { PANORAMAX_API } from '../core/constants';
+import { PhotoViewer } from '../components/PhotoViewer';
+import { PanoramaViewer } from '../components/PanoramaViewer';
+import { toLngLat, createBbox, bboxToString, findClosestPoint } from '../utils/geo';
+import { buildUrl, type PanoramaxSearchResponse, type PanoramaxItem } from '../utils/api';
+import { getDateRangeBounds } from '../utils/dates';
+
+/**
+ * Options for the Panoramax provider.
+ */
+export interface PanoramaxProviderOptions {
+  /** Base URL of the Panoramax instance, e.g. 'https://panoramax.ign.fr' */
+  baseUrl: string;
+
+  /** Provider name, to register several instances side by side. Default: 'panoramax' */
+  name?: ProviderType;
+
+  /** Display name for UI. Default: 'Panoramax' */
+  displayName?: string;
+}
+
+/**
+ * Panoramax provider for federated, self-hostable street-level imagery.
+ * Queries the instance's STAC search API and displays both 360° and flat pictures.
+ */
+export class PanoramaxProvider extends BaseProvider {
+  readonly name: ProviderType;
+  readonly displayName: string;
+  readonly icon = `
+    <svg viewBox="0 0 24 24" fill="currentColor">
+      <path d="M12 4C6.5 4 2 6.2 2 9v6c0 2.8 4.5 5 10 5s10-2.2 10-5V9c0-2.8-4.5-5-10-5zm0 2c4.6 0 8 1.7 8 3s-3.4 3-8 3-8-1.7-8-3 3.4-3 8-3z"/>
+    </svg>
+  `;
+
+  private _baseUrl: string;
+  private _photoViewer: PhotoViewer | null = null;
+  private _panoramaViewer: PanoramaViewer | null = null;
+  private _currentImagery: ImageryResult | null = null;
+
+  /**
+   * Creates a new Panoramax provider.
+   *
+   * @param options - Provider options
+   */
+  constructor(options: PanoramaxProviderOptions) {
+    super();
+    this._baseUrl = options.baseUrl.replace(/\/$/, '');
+    this.name = options.name ?? 'panoramax';
+    this.displayName = options.displayName ?? 'Panoramax';
+  }
+
+  /**
+   * Check if the instance URL is configured.
+   */
+  isConfigured(): boolean {
+    return Boolean(this._baseUrl);
+  }
+
+  /**
+   * Query for Panoramax pictures near a location.
+   *
+   * @param lngLat - The location to query
+   * @param radius - Search radius in meters (default: 50)
+   * @param signal - Optional signal to abort the request
+   * @returns The closest imagery result or null
+   */
+  async queryImagery(lngLat: LngLatLike, radius = 50, signal?: AbortSignal): Promise<ImageryResult | null> {
+    if (!this.isConfigured()) {
+      return null;
+    }
+
+    const point = toLngLat(lngLat);
+
+    return this.cachedQuery(
+      point,
+      radius,
+      (requestSignal) => this.requestImagery(point, radius, requestSignal),
+      signal
+    );
+  }
+
+  /**
+   * Search the Panoramax instance for pictures around a location.
+   */
+  private async requestImagery(point: LngLat, radius: number, signal?: AbortSignal): Promise<ImageryResult | null> {
+    const bbox = createBbox(point, radius);
+
+    const url = buildUrl(`${this._baseUrl}${PANORAMAX_API.SEARCH_ENDPOINT}`, {
+      bbox: bboxToString(bbox),
+      limit: 100,
+      ...this.getFilterParams(),
+    });
+
+    const response = await this.request<PanoramaxSearchResponse>(url, { signal });
+
+    if (!response.features || response.features.length === 0) {
+      return null;
+    }
+
+    const imageryResults = response.features
+      .filter((item): item is PanoramaxItem & { geometry: NonNullable<PanoramaxItem['geometry']> } =>
+        Boolean(item.geometry)
+      )
+      .map(item => this.itemToImagery(item))
+      .filter(imagery => this.matchesFilters(imagery));
+
+    return findClosestPoint(point, imageryResults);
+  }
+
+  /**
+   * Get the STAC search parameters for the filters.
+   * Capture dates are searched server-side, so the result limit is not used up by
+   * pictures that would be filtered out. The panorama filters are only checked on the results.
+   */
+  private getFilterParams(): Record<string, string> {
+    const bounds = getDateRangeBounds({ start: this._filters.capturedAfter, end: this._filters.capturedBefore });
+    if (!bounds) return {};
+
+    // STAC datetime intervals mark open ends with '..'
+    const format = (time: number) => (Number.isFinite(time) ? new Date(time).toISOString() : '..');
+    return { datetime: `${format(bounds.start)}/${format(bounds.end)}` };
+  }
+
+  /**
+   * Find nearest Panoramax imagery within a maximum radius.
+   * Progressively searches with increasing radii.
+   *
+   * @param lngLat - The target location
+   * @param maxRadius - Maximum search radius in meters (default: 100)
+   * @param signal - Optional signal to abort the search
+   * @returns The nearest imagery or null
+   */
+  async findNearestImagery(
+    lngLat: LngLatLike,
+    maxRadius = 100,
+    signal?: AbortSignal
+  ): Promise<ImageryResult | null> {
+    return this.searchRadii(lngLat, [50, 100, 250, 500], maxRadius, signal);
+  }
+
+  /**
+   * Convert a STAC item to ImageryResult.
+   */
+  private itemToImagery(item: PanoramaxItem & { geometry: NonNullable<PanoramaxItem['geometry']> }): ImageryResult {
+    const [lng, lat] = item.geometry.coordinates;
+    const { properties, assets = {} } = item;
+    return {
+      id: item.id,
+      location: new LngLat(lng, lat),
+      provider: this.name,
+      thumbnailUrl: assets.thumb?.href,
+      imageUrl: assets.hd?.href ?? assets.sd?.href,
+      capturedAt: properties.datetime ? new Date(properties.datetime) : undefined,
+      heading: properties['view:azimuth'],
+      isPano: properties['pers:interior_orientation']?.field_of_view === 360,
+      sequenceId: item.collection,
+    };
+  }
+
+  /**
+   * Get the instance's coverage vector tiles.
+   * Sequences are drawn as lines, pictures as points from zoom 15.
+   */
+  getCoverageLayers(): CoverageLayers | null {
+    if (!this.isConfigured()) return null;
+
+    return {
+      sources: {
+        coverage: {
+          type: 'vector',
+          tiles: [`${this._baseUrl}${PANORAMAX_API.COVERAGE_TILES_ENDPOINT}`],
+          minzoom: 0,
+          maxzoom: 15,
+        },
+      },
+      layers: [
+        {
+          id: 'sequences',
+          type: 'line',
+          source: 'coverage',
+          'source-layer': 'sequences',
+          paint: { 'line-color': '#ff6f00', 'line-width': 2, 'line-opacity': 0.7 },
+        },
+        {
+          id: 'pictures',
+          type: 'circle',
+          source: 'coverage',
+          'source-layer': 'pictures',
+          minzoom: 15,
+          paint: { 'circle-color': '#ff6f00', 'circle-radius': 3 },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Render the picture in a container.
+   * 360° pictures use the panorama viewer, flat pictures a plain photo viewer.
+   *
+   * @param container - The container element
+   * @param imagery - The imagery to display
+   */
+  render(container: HTMLElement, imagery: ImageryResult): void {
+    this.removeViewers();
+
+    this._container = container;
+    this._currentImagery = imagery;
+
+    const url = imagery.imageUrl ?? imagery.thumbnailUrl;
+    if (!url) return;
+
+    if (imagery.isPano) {
+      this._panoramaViewer = new PanoramaViewer({
+        onViewChange: (heading) => this.emitHeadingChange(heading),
+      });
+      container.appendChild(this._panoramaViewer.getElement());
+      this._panoramaViewer.setImage(url, imagery.heading ?? 0);
+      this._panoramaViewer.setHeading(imagery.heading ?? 0);
+    } else {
+      this._photoViewer = new PhotoViewer({ showNavigation: false });
+      container.appendChild(this._photoViewer.getElement());
+      this._photoViewer.setImage(url, `Panoramax picture ${imagery.id}`);
+    }
+
+    if (imagery.heading !== undefined) {
+      this.emitHeadingChange(imagery.heading);
+    }
+  }
+
+  /**
+   * Removes the viewer elements.
+   */
+  private removeViewers(): void {
+    this._photoViewer?.destroy();
+    this._photoViewer = null;
+    this._panoramaViewer?.destroy();
+    this._panoramaViewer = null;
+  }
+
+  /**
+   * Clean up the viewers.
+   */
+  destroy(): void {
+    this.removeViewers();
+    this._container = null;
+    this._currentImagery = null;
+  }
+
+  /**
+   * Get the current view state.
+   */
+  getViewState(): ViewState | null {
+    if (this._panoramaViewer) {
+      return {
+        heading: this._panoramaViewer.getHeading(),
+        pitch: this._panoramaViewer.getPitch(),
+        zoom: this._panoramaViewer.getZoom(),
+        fov: this._panoramaViewer.getFieldOfView(),
+      };
+    }
+    if (!this._currentImagery) return null;
+
+    return {
+      heading: this._currentImagery.heading ?? this._currentHeading,
+      pitch: 0,
+    };
+  }
+
+  /**
+   * Set the view heading. Flat pictures keep their direction.
+   *
+   * @param heading - The heading (0-360)
+   */
+  setHeading(heading: number): void {
+    if (!this._panoramaViewer) return;
+    this._panoramaViewer.setHeading(heading);
+    this.emitHeadingChange(this._panoramaViewer.getHeading());
+  }
+
+  /**
+   * Set the view pitch.
+   *
+   * @param pitch - The pitch (-90 to 90)
+   */
+  setPitch(pitch: number): void {
+    this._panoramaViewer?.setPitch(pitch);
+  }
+
+  /**
+   * Set the zoom level.
+   *
+   * @param zoom - The zoom level
+   */
+  setZoom(zoom: number): void {
+    this._panoramaViewer?.setZoom(zoom);
+  }
+}
@@ -1,4 +1,18 @@
 // Provider exports
 export { BaseProvider } from './BaseProvider';
 export { GoogleStreetViewProvider } from './GoogleStreetViewProvider';
+export type { GoogleStreetViewProviderOptions } from './GoogleStreetViewProvider';
+export { GoogleMapsJsProvider } from './GoogleMapsJsProvider';
 export { MapillaryProvider } from './MapillaryProvider';
+export type { MapillaryProviderOptions } from './MapillaryProvider';
+export { KartaViewProvider } from './KartaViewProvider';
+export type { KartaViewProviderOptions } from './KartaViewProvider';
+export { PanoramaxProvider } from './PanoramaxProvider';
+export type { PanoramaxProviderOptions } from './PanoramaxProvider';
+export { LocalPanoramaProvider } from './LocalPanoramaProvider';
+export type {
+  LocalPanoramaProviderOptions,
+  PanoramaCatalog,
+  PanoramaCatalogFeature,
+  PanoramaCatalogProperties,
+} from './LocalPanoramaProvider';
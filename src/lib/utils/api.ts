@@ -1,29 +1,162 @@
+import type { RetryOptions, Transport } from '../core/types';
+import { DEFAULT_RETRY_OPTIONS } from '../core/constants';
+import { NetworkError, QuotaExceededError, errorFromResponse } from '../core/errors';
+import { sleep } from './helpers';
+import type { TokenBucket } from './rateLimit';
+
+/**
+ * Options for fetchJson.
+ */
+export interface FetchJsonOptions extends RequestInit {
+  /** Retry rate limited (429) and network or server (5xx) failures. Default: no retries */
+  retry?: RetryOptions | null;
+
+  /** Rate limiter to take a token from before each attempt */
+  rateLimiter?: TokenBucket | null;
+
+  /** Function sending the request. Default: `fetch` */
+  transport?: Transport | null;
+}
+
 /**
  * Makes a fetch request with error handling.
+ * Failures are thrown as StreetViewError subclasses, aborts as the original AbortError.
+ * With `retry`, failed attempts are repeated after a jittered exponential backoff,
+ * or after the delay asked for by a Retry-After header.
  *
  * @param url - The URL to fetch
- * @param options - Optional fetch options
+ * @param options - Optional fetch, retry, rate limit and transport options, pass `signal` to make the request abortable
  * @returns The response data
  */
-export async function fetchJson<T>(url: string, options?: RequestInit): Promise<T> {
-  const response = await fetch(url, options);
+export async function fetchJson<T>(url: string, options: FetchJsonOptions = {}): Promise<T> {
+  return fetchWithPolicy(url, options, (response) => response.json() as Promise<T>);
+}
+
+/**
+ * Fetches binary data, e.g. a thumbnail, with the same error handling, retries
+ * and rate limiting as fetchJson.
+ *
+ * @param url - The URL to fetch
+ * @param options - Optional fetch, retry, rate limit and transport options, pass `signal` to make the request abortable
+ * @returns The response body
+ */
+export async function fetchBlob(url: string, options: FetchJsonOptions = {}): Promise<Blob> {
+  return fetchWithPolicy(url, options, (response) => response.blob());
+}
+
+/**
+ * Sends a request with retries and rate limiting, and reads the response body.
+ */
+async function fetchWithPolicy<T>(
+  url: string,
+  options: FetchJsonOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const { retry, rateLimiter, transport, ...init } = options;
+  const retries = retry?.retries ?? (retry ? DEFAULT_RETRY_OPTIONS.retries : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    await rateLimiter?.acquire(init.signal ?? undefined);
+
+    try {
+      return await fetchOnce(url, init, transport ?? fetch, read);
+    } catch (error) {
+      const delay = attempt < retries ? getRetryDelay(error, attempt, retry ?? {}) : null;
+      if (delay === null) throw error;
+      await sleep(delay, init.signal ?? undefined);
+    }
+  }
+}
+
+/**
+ * Makes a single request.
+ */
+async function fetchOnce<T>(
+  url: string,
+  init: RequestInit,
+  transport: Transport,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await transport(url, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError('Network request failed', { cause: error });
+  }
 
   if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
+    // Error bodies often explain the failure, e.g. Graph API OAuth errors
+    const details = await Promise.resolve()
+      .then(() => response.json())
+      .catch(() => undefined);
+    throw errorFromResponse(response, details);
   }
 
-  return response.json() as Promise<T>;
+  return read(response);
+}
+
+/**
+ * Gets the delay before retrying a failed attempt.
+ *
+ * @param error - The error of the failed attempt
+ * @param attempt - Number of the failed attempt, starting at 0
+ * @param options - Retry options
+ * @returns The delay in milliseconds, or null if the error should not be retried
+ */
+export function getRetryDelay(error: unknown, attempt: number, options: RetryOptions = {}): number | null {
+  if (!(error instanceof QuotaExceededError || error instanceof NetworkError)) {
+    return null;
+  }
+  // Nothing gets through while the browser is offline, fail fast instead
+  if (error instanceof NetworkError && typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return null;
+  }
+
+  const baseDelay = options.baseDelay ?? DEFAULT_RETRY_OPTIONS.baseDelay;
+  const maxDelay = options.maxDelay ?? DEFAULT_RETRY_OPTIONS.maxDelay;
+
+  if (error instanceof QuotaExceededError && error.retryAfter !== undefined) {
+    const retryAfter = error.retryAfter * 1000;
+    return retryAfter <= maxDelay ? retryAfter : null;
+  }
+
+  // Full jitter keeps clients that failed together from retrying together
+  return Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt);
+}
+
+/**
+ * Checks if an error was caused by aborting a request.
+ *
+ * @param error - The caught error
+ * @returns True if the error is an abort error
+ */
+export function isAbortError(error: unknown): boolean {
+  // DOMException does not extend Error in every environment
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+/**
+ * Converts headers in any of the forms fetch accepts to a plain object.
+ *
+ * @param headers - The headers
+ * @returns The headers as name-value pairs
+ */
+export function headersToObject(headers?: HeadersInit): Record<string, string> {
+  if (!headers) return {};
+  return Object.fromEntries(new Headers(headers).entries());
 }
 
 /**
  * Builds a URL with query parameters.
+ * Relative base URLs, e.g. of a proxy on the same origin, are resolved against the document.
  *
  * @param baseUrl - The base URL
  * @param params - Query parameters
  * @returns The full URL with query string
  */
 export function buildUrl(baseUrl: string, params: Record<string, string | number | boolean>): string {
-  const url = new URL(baseUrl);
+  const url = new URL(baseUrl, typeof document !== 'undefined' ? document.baseURI : undefined);
 
   for (const [key, value] of Object.entries(params)) {
     if (value !== undefined && value !== null && value !== '') {
@@ -52,6 +185,23 @@ export interface MapillaryImage {
   captured_at?: number;
   compass_angle?: number;
   is_pano?: boolean;
+  creator?: {
+    id: string;
+    username?: string;
+  };
+  quality_score?: number;
+}
+
+/**
+ * Mapillary Graph API error response.
+ */
+export interface MapillaryErrorResponse {
+  error?: {
+    message?: string;
+    type?: string;
+    code?: number;
+    error_subcode?: number;
+  };
 }
 
 /**
@@ -66,4 +216,75 @@ export interface GoogleStreetViewMetadata {
     lng: number;
   };
   pano_id?: string;
+  error_message?: string;
+}
+
+/**
+ * KartaView nearby photos response (legacy 1.0 API).
+ */
+export interface KartaViewNearbyPhotosResponse {
+  currentPageItems?: KartaViewNearbyPhoto[];
+  totalFilteredItems?: number[];
+}
+
+export interface KartaViewNearbyPhoto {
+  id: string;
+  sequence_id: string;
+  sequence_index: string;
+  lat: string;
+  lng: string;
+  heading?: string;
+  name?: string;
+  lth_name?: string;
+  th_name?: string;
+  shot_date?: string;
+}
+
+/**
+ * KartaView sequence photos response (2.0 API).
+ */
+export interface KartaViewSequencePhotosResponse {
+  result?: {
+    data: KartaViewSequencePhoto[];
+    hasMoreData?: boolean;
+  };
+}
+
+export interface KartaViewSequencePhoto {
+  id: string;
+  sequenceId: string;
+  sequenceIndex: string;
+  lat: string;
+  lng: string;
+  heading?: string;
+  fileurl?: string;
+  fileurlLTh?: string;
+  fileurlTh?: string;
+  shotDate?: string;
+  projection?: string;
+}
+
+/**
+ * Panoramax STAC search response.
+ */
+export interface PanoramaxSearchResponse {
+  type: 'FeatureCollection';
+  features: PanoramaxItem[];
+}
+
+export interface PanoramaxItem {
+  id: string;
+  collection?: string;
+  geometry: {
+    type: 'Point';
+    coordinates: [number, number];
+  } | null;
+  properties: {
+    datetime?: string;
+    'view:azimuth'?: number;
+    'pers:interior_orientation'?: {
+      field_of_view?: number;
+    };
+  };
+  assets?: Record<string, { href: string; type?: string } | undefined>;
 }
@@ -0,0 +1,306 @@
+import type { LngLatLike } from 'maplibre-gl';
+import type {
+  ImageryCache,
+  ImageryCacheOptions,
+  ImageryCacheStats,
+  ImageryResult,
+  ProviderType,
+  ThumbnailLoader,
+} from '../core/types';
+import { DEFAULT_CACHE_OPTIONS } from '../core/constants';
+import { toLngLat } from './geo';
+import { NetworkError } from '../core/errors';
+
+interface MemoryCacheEntry {
+  value: ImageryResult | null;
+  expires: number;
+}
+
+interface InFlightQuery {
+  key: string;
+  promise: Promise<ImageryResult | null>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * In-memory imagery cache with least-recently-used eviction and a time to live.
+ */
+export class MemoryImageryCache implements ImageryCache {
+  private _entries: Map<string, MemoryCacheEntry> = new Map();
+  private _maxEntries: number;
+  private _ttl: number;
+
+  /**
+   * Creates a new in-memory cache.
+   *
+   * @param options - Cache size and time to live
+   */
+  constructor(options: Pick<ImageryCacheOptions, 'maxEntries' | 'ttl'> = {}) {
+    this._maxEntries = options.maxEntries ?? DEFAULT_CACHE_OPTIONS.maxEntries;
+    this._ttl = options.ttl ?? DEFAULT_CACHE_OPTIONS.ttl;
+  }
+
+  /**
+   * Gets a lookup and marks it as recently used.
+   *
+   * @param key - The cache key
+   * @returns The lookup, or undefined if missing or expired
+   */
+  get(key: string): ImageryResult | null | undefined {
+    const entry = this._entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expires <= Date.now()) {
+      this._entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to move the entry to the most recently used end
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Stores a lookup, evicting the least recently used ones when full.
+   *
+   * @param key - The cache key
+   * @param value - The imagery, or null when there is none
+   */
+  set(key: string, value: ImageryResult | null): void {
+    this._entries.delete(key);
+    this._entries.set(key, { value, expires: Date.now() + this._ttl });
+
+    while (this._entries.size > this._maxEntries) {
+      const oldest = this._entries.keys().next().value as string;
+      this._entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Removes all lookups.
+   */
+  clear(): void {
+    this._entries.clear();
+  }
+
+  /**
+   * Number of stored lookups, including expired ones not yet evicted.
+   */
+  get size(): number {
+    return this._entries.size;
+  }
+}
+
+/**
+ * Caches imagery queries across providers.
+ * Keys combine the provider, the rounded location and the radius, and identical
+ * queries in flight share a single request.
+ */
+export class ImageryQueryCache {
+  private _store: ImageryCache;
+  private _precision: number;
+  private _inFlight: Map<string, InFlightQuery> = new Map();
+  private _thumbnailLoaders: Map<ProviderType, ThumbnailLoader> = new Map();
+  private _hits = 0;
+  private _misses = 0;
+  private _deduplicated = 0;
+  private _stale = 0;
+
+  /**
+   * Creates a new query cache.
+   *
+   * @param store - Storage for the lookups. Default: a MemoryImageryCache
+   * @param options - Cache options
+   */
+  constructor(store?: ImageryCache, options: ImageryCacheOptions = {}) {
+    this._store = store ?? new MemoryImageryCache(options);
+    this._precision = options.precision ?? DEFAULT_CACHE_OPTIONS.precision;
+  }
+
+  /**
+   * Builds the cache key for a query.
+   *
+   * @param provider - The provider name
+   * @param lngLat - The queried location
+   * @param radius - The search radius in meters
+   * @param variant - Optional query settings that change the result, e.g. filters
+   * @returns The cache key
+   */
+  getKey(provider: ProviderType, lngLat: LngLatLike, radius: number, variant = ''): string {
+    const { lng, lat } = toLngLat(lngLat);
+    const key = `${provider}:${lat.toFixed(this._precision)},${lng.toFixed(this._precision)}:${radius}`;
+    return variant ? `${key}:${variant}` : key;
+  }
+
+  /**
+   * Sets how thumbnails of a provider's imagery are downloaded by stores keeping them.
+   *
+   * @param provider - The provider name
+   * @param load - Downloads a thumbnail, or null to use `fetch`
+   */
+  setThumbnailLoader(provider: ProviderType, load: ThumbnailLoader | null): void {
+    if (load) {
+      this._thumbnailLoaders.set(provider, load);
+    } else {
+      this._thumbnailLoaders.delete(provider);
+    }
+  }
+
+  /**
+   * Runs a query through the cache.
+   * Failed queries are not cached. The shared request is only aborted once
+   * every caller waiting for it has aborted.
+   *
+   * @param provider - The provider name
+   * @param lngLat - The queried location
+   * @param radius - The search radius in meters
+   * @param load - Performs the request when the lookup is not cached
+   * @param signal - Optional signal to abort waiting for the result
+   * @param variant - Optional query settings that change the result, e.g. filters
+   * @returns The imagery, or null when there is none
+   */
+  async query(
+    provider: ProviderType,
+    lngLat: LngLatLike,
+    radius: number,
+    load: (signal: AbortSignal) => Promise<ImageryResult | null>,
+    signal?: AbortSignal,
+    variant?: string
+  ): Promise<ImageryResult | null> {
+    signal?.throwIfAborted();
+    const key = this.getKey(provider, lngLat, radius, variant);
+
+    const cached = await this._store.get(key);
+    if (cached !== undefined) {
+      this._hits++;
+      return cached;
+    }
+    signal?.throwIfAborted();
+
+    let inFlight = this._inFlight.get(key);
+    if (inFlight) {
+      this._deduplicated++;
+    } else {
+      this._misses++;
+      inFlight = this.startQuery(provider, key, load);
+    }
+
+    try {
+      return await this.waitFor(inFlight, signal);
+    } catch (error) {
+      if (signal?.aborted || !(error instanceof NetworkError)) throw error;
+
+      // Fall back to previously stored imagery while the provider cannot be reached
+      const stale = await this.findStale(provider, lngLat, radius);
+      if (stale === undefined) throw error;
+
+      this._stale++;
+      return stale && { ...stale, stale: true };
+    }
+  }
+
+  /**
+   * Looks up stored imagery for a failed query, if the store supports it.
+   */
+  private async findStale(
+    provider: ProviderType,
+    lngLat: LngLatLike,
+    radius: number
+  ): Promise<ImageryResult | null | undefined> {
+    if (!this._store.findStale) return undefined;
+
+    try {
+      return await this._store.findStale(provider, lngLat, radius);
+    } catch (error) {
+      console.error('Offline imagery lookup failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Starts a shared request and stores its result when it succeeds.
+   */
+  private startQuery(
+    provider: ProviderType,
+    key: string,
+    load: (signal: AbortSignal) => Promise<ImageryResult | null>
+  ): InFlightQuery {
+    const controller = new AbortController();
+    const loadThumbnail = this._thumbnailLoaders.get(provider);
+    const promise = load(controller.signal)
+      .then((value) => {
+        // Persistent stores may be slow, so do not hold back the result
+        const stored = this._store.set(key, value, loadThumbnail && ((url) => loadThumbnail(url, controller.signal)));
+        Promise.resolve(stored).catch((error) => {
+          console.error('Failed to cache imagery:', error);
+        });
+        return value;
+      })
+      .finally(() => {
+        if (this._inFlight.get(key) === inFlight) {
+          this._inFlight.delete(key);
+        }
+      });
+
+    const inFlight: InFlightQuery = { key, promise, controller, waiters: 0 };
+    this._inFlight.set(key, inFlight);
+    return inFlight;
+  }
+
+  /**
+   * Waits for a shared request on behalf of one caller.
+   */
+  private waitFor(inFlight: InFlightQuery, signal?: AbortSignal): Promise<ImageryResult | null> {
+    inFlight.waiters++;
+
+    if (!signal) {
+      return inFlight.promise;
+    }
+
+    return new Promise<ImageryResult | null>((resolve, reject) => {
+      const onAbort = () => {
+        inFlight.waiters--;
+        if (inFlight.waiters === 0) {
+          // Nobody is waiting anymore, later queries start a fresh request
+          if (this._inFlight.get(inFlight.key) === inFlight) {
+            this._inFlight.delete(inFlight.key);
+          }
+          inFlight.controller.abort();
+        }
+        reject(signal.reason);
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      inFlight.promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  }
+
+  /**
+   * Removes all cached lookups and resets the statistics.
+   * Requests in flight are not affected.
+   */
+  async clear(): Promise<void> {
+    await this._store.clear();
+    this._hits = 0;
+    this._misses = 0;
+    this._deduplicated = 0;
+    this._stale = 0;
+  }
+
+  /**
+   * Gets the cache statistics.
+   */
+  getStats(): ImageryCacheStats {
+    return {
+      hits: this._hits,
+      misses: this._misses,
+      deduplicated: this._deduplicated,
+      stale: this._stale,
+      size: this._store.size ?? 0,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import type { DateRange } from '../core/types';
+
+/** Date-only ISO 8601 strings, e.g. '2020-12-31' */
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a date. Date-only strings are local calendar days, like the days of
+ * `toDateKey`, instead of the UTC midnight `new Date()` makes of them.
+ *
+ * @param value - The date, or a string to parse
+ * @returns The date, invalid if the string cannot be parsed
+ */
+export function parseDate(value: Date | string): Date {
+  if (typeof value === 'string' && DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  return new Date(value);
+}
+
+/**
+ * Converts a date range to timestamps.
+ * Open ends are unbounded, and an end given as a date-only string includes that whole day.
+ *
+ * @param range - The date range
+ * @returns The first and last included timestamp, or null if there is no range
+ */
+export function getDateRangeBounds(range: DateRange | null | undefined): { start: number; end: number } | null {
+  if (!range || (range.start === undefined && range.end === undefined)) return null;
+
+  const start = range.start !== undefined ? parseDate(range.start).getTime() : -Infinity;
+  let end = Infinity;
+  if (range.end !== undefined) {
+    const date = parseDate(range.end);
+    // A date-only end lasts until the next local midnight, not always 24 hours later
+    end = typeof range.end === 'string' && DATE_ONLY.test(range.end)
+      ? new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime() - 1
+      : date.getTime();
+  }
+  return { start, end };
+}
+
+/**
+ * Checks if a capture date lies within a date range.
+ * Imagery without a capture date only passes when there is no range.
+ *
+ * @param capturedAt - The capture date
+ * @param range - The date range
+ * @returns True if the date is within the range
+ */
+export function isInDateRange(capturedAt: Date | undefined, range: DateRange | null | undefined): boolean {
+  const bounds = getDateRangeBounds(range);
+  if (!bounds) return true;
+  if (!capturedAt) return false;
+
+  const time = capturedAt.getTime();
+  return time >= bounds.start && time <= bounds.end;
+}
+
+/**
+ * Formats the local calendar day of a date, e.g. for grouping imagery by date.
+ *
+ * @param date - The date
+ * @returns The date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,33 @@
+import type { ImageryFilters, ImageryResult } from '../core/types';
+import { isInDateRange } from './dates';
+
+/**
+ * Checks imagery against the capture date and panorama filters, which every
+ * provider can apply to its results. Imagery without a capture date fails date filters.
+ *
+ * @param imagery - The imagery to check
+ * @param filters - The filters
+ * @returns True if the imagery matches the filters
+ */
+export function matchesFilters(imagery: ImageryResult, filters: ImageryFilters): boolean {
+  if (!isInDateRange(imagery.capturedAt, { start: filters.capturedAfter, end: filters.capturedBefore })) {
+    return false;
+  }
+  if (filters.panoOnly && imagery.isPano !== true) return false;
+  if (filters.excludePano && imagery.isPano === true) return false;
+  return true;
+}
+
+/**
+ * Serializes filters in a stable order, e.g. for cache keys.
+ *
+ * @param filters - The filters
+ * @returns The active filters as a query string, empty without filters
+ */
+export function getFiltersKey(filters: ImageryFilters): string {
+  return Object.entries(filters)
+    .filter(([, value]) => value !== undefined && value !== false)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value instanceof Date ? value.toISOString() : String(value)}`)
+    .join('&');
+}
@@ -54,6 +54,33 @@ export function createBbox(center: LngLatLike, radiusMeters: number): BoundingBo
   };
 }
 
+/**
+ * Creates a grid of points covering a bounding box.
+ *
+ * @param bbox - The bounding box
+ * @param spacingMeters - Distance between neighbouring points in meters
+ * @returns The grid points, row by row from the south-west corner
+ */
+export function createGrid(bbox: BoundingBox, spacingMeters: number): LngLat[] {
+  const earthRadius = 6371000;
+  const centerLat = (bbox.minLat + bbox.maxLat) / 2;
+
+  const latStep = (spacingMeters / earthRadius) * (180 / Math.PI);
+  const lngStep = (spacingMeters / (earthRadius * Math.cos((centerLat * Math.PI) / 180))) * (180 / Math.PI);
+
+  // Small epsilon so floating point error does not drop the last row or column
+  const rows = Math.floor((bbox.maxLat - bbox.minLat) / latStep + 1e-9) + 1;
+  const cols = Math.floor((bbox.maxLng - bbox.minLng) / lngStep + 1e-9) + 1;
+
+  const points: LngLat[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      points.push(new LngLat(bbox.minLng + col * lngStep, bbox.minLat + row * latStep));
+    }
+  }
+  return points;
+}
+
 /**
  * Converts a bounding box to a string for API queries.
  *
@@ -115,6 +142,72 @@ export function calculateBearing(from: LngLatLike, to: LngLatLike): number {
   return bearing;
 }
 
+/**
+ * Calculates the point at a given distance and bearing from an origin.
+ *
+ * @param origin - The starting point
+ * @param distance - The distance in meters
+ * @param bearing - The bearing in degrees (0-360)
+ * @returns The destination point
+ */
+export function destinationPoint(origin: LngLatLike, distance: number, bearing: number): LngLat {
+  const p = toLngLat(origin);
+
+  const R = 6371000; // Earth's radius in meters
+  const angular = distance / R;
+  const theta = (bearing * Math.PI) / 180;
+  const lat1 = (p.lat * Math.PI) / 180;
+  const lng1 = (p.lng * Math.PI) / 180;
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return new LngLat((((lng2 * 180) / Math.PI + 540) % 360) - 180, (lat2 * 180) / Math.PI);
+}
+
+/**
+ * Samples points at a regular distance along a line, from its first to its last point.
+ *
+ * @param coordinates - The points of the line
+ * @param interval - The distance between samples in meters
+ * @returns The samples, always including both ends
+ */
+export function sampleLine(coordinates: LngLatLike[], interval: number): LngLat[] {
+  const points = coordinates.map(toLngLat);
+  if (points.length < 2 || interval <= 0) return points;
+
+  const samples = [points[0]];
+  // Distance still to walk from the start of a segment to the next sample
+  let offset = interval;
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const length = calculateDistance(from, to);
+    const bearing = calculateBearing(from, to);
+
+    while (offset <= length) {
+      samples.push(destinationPoint(from, offset, bearing));
+      offset += interval;
+    }
+    offset -= length;
+  }
+
+  // Add the end unless the last sample is on it already
+  const end = points[points.length - 1];
+  if (calculateDistance(samples[samples.length - 1], end) >= 1) {
+    samples.push(end);
+  }
+  return samples;
+}
+
 /**
  * Finds the closest point from an array of points.
  *
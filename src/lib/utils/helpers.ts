@@ -68,6 +68,32 @@ export function throttle<T extends (...args: Parameters<T>) => void>(
   };
 }
 
+/**
+ * Waits for a delay.
+ *
+ * @param ms - The delay in milliseconds
+ * @param signal - Optional signal to stop waiting
+ * @returns A promise that resolves after the delay, or rejects with the abort reason
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Converts a class name object to a string.
  *
@@ -96,6 +122,28 @@ export function normalizeHeading(heading: number): number {
   return normalized || 0;
 }
 
+/**
+ * Gets the smallest angle between two headings.
+ *
+ * @param a - The first heading
+ * @param b - The second heading
+ * @returns The difference in degrees (0-180)
+ */
+export function headingDifference(a: number, b: number): number {
+  return Math.abs(normalizeHeading(a - b + 180) - 180);
+}
+
+/**
+ * Estimates the horizontal field of view for a panorama zoom level.
+ * Follows the Street View convention where each zoom level halves the field of view.
+ *
+ * @param zoom - The viewer zoom level
+ * @returns The field of view in degrees
+ */
+export function zoomToFieldOfView(zoom: number): number {
+  return clamp(180 / Math.pow(2, zoom), 1, 180);
+}
+
 /**
  * Creates a simple DOM element with optional attributes and children.
  *
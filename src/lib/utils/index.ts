@@ -6,7 +6,10 @@ export {
   throttle,
   classNames,
   normalizeHeading,
+  headingDifference,
+  zoomToFieldOfView,
   createElement,
+  sleep,
 } from './helpers';
 
 // Geospatial utilities
@@ -16,9 +19,38 @@ export {
   bboxToString,
   calculateDistance,
   calculateBearing,
+  destinationPoint,
+  createGrid,
   findClosestPoint,
+  sampleLine,
 } from './geo';
 
+// Date utilities
+export { getDateRangeBounds, isInDateRange, parseDate, toDateKey } from './dates';
+
+// Filter utilities
+export { matchesFilters, getFiltersKey } from './filters';
+
 // API utilities
-export { fetchJson, buildUrl } from './api';
-export type { MapillaryImageResponse, MapillaryImage, GoogleStreetViewMetadata } from './api';
+export { fetchJson, fetchBlob, buildUrl, isAbortError, getRetryDelay, headersToObject } from './api';
+export type {
+  FetchJsonOptions,
+  MapillaryImageResponse,
+  MapillaryImage,
+  MapillaryErrorResponse,
+  GoogleStreetViewMetadata,
+  KartaViewNearbyPhotosResponse,
+  KartaViewNearbyPhoto,
+  KartaViewSequencePhotosResponse,
+  KartaViewSequencePhoto,
+  PanoramaxSearchResponse,
+  PanoramaxItem,
+} from './api';
+
+// Cache utilities
+export { MemoryImageryCache, ImageryQueryCache } from './cache';
+export { IndexedDBImageryCache } from './indexeddb';
+export type { IndexedDBImageryCacheOptions } from './indexeddb';
+
+// Rate limiting
+export { TokenBucket } from './rateLimit';
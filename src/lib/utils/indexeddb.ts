@@ -0,0 +1,269 @@
+import { LngLat, type LngLatLike } from 'maplibre-gl';
+import type { ImageryCache, ImageryResult, ProviderType, ThumbnailLoader } from '../core/types';
+import { OFFLINE_CACHE_OPTIONS } from '../core/constants';
+import { toLngLat, calculateDistance, findClosestPoint } from './geo';
+import { fetchBlob } from './api';
+
+/**
+ * Options for the IndexedDB imagery cache.
+ */
+export interface IndexedDBImageryCacheOptions {
+  /** Database name. Default: 'maplibre-gl-streetview' */
+  dbName?: string;
+
+  /** Time in milliseconds a lookup is served without a request. Default: 86400000 (1 day) */
+  ttl?: number;
+
+  /** Also store imagery thumbnails for offline display. Default: true */
+  thumbnails?: boolean;
+}
+
+/**
+ * A stored lookup. Locations are kept as plain coordinates since
+ * IndexedDB does not preserve class instances.
+ */
+interface StoredImagery extends Omit<ImageryResult, 'location' | 'stale'> {
+  location: [number, number];
+}
+
+interface LookupRecord {
+  key: string;
+  value: StoredImagery | null;
+  storedAt: number;
+}
+
+interface ImageryRecord {
+  id: string;
+  provider: ProviderType;
+  value: StoredImagery;
+  storedAt: number;
+}
+
+interface ThumbnailRecord {
+  url: string;
+  blob: Blob;
+}
+
+const DB_VERSION = 1;
+const LOOKUPS_STORE = 'lookups';
+const IMAGERY_STORE = 'imagery';
+const THUMBNAILS_STORE = 'thumbnails';
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persistent imagery cache backed by IndexedDB, for use with poor connectivity.
+ * Besides lookups, every imagery result found is kept so that a failed query can
+ * fall back to the closest stored imagery. Thumbnails are stored as blobs and
+ * served through object URLs.
+ */
+export class IndexedDBImageryCache implements ImageryCache {
+  private _dbName: string;
+  private _ttl: number;
+  private _thumbnails: boolean;
+  private _db: Promise<IDBDatabase> | null = null;
+  private _objectUrls: Map<string, string> = new Map();
+
+  /**
+   * Creates a new IndexedDB cache. The database is opened on first use.
+   *
+   * @param options - Cache options
+   */
+  constructor(options: IndexedDBImageryCacheOptions = {}) {
+    this._dbName = options.dbName ?? OFFLINE_CACHE_OPTIONS.dbName;
+    this._ttl = options.ttl ?? OFFLINE_CACHE_OPTIONS.ttl;
+    this._thumbnails = options.thumbnails ?? OFFLINE_CACHE_OPTIONS.thumbnails;
+  }
+
+  /**
+   * Checks if IndexedDB is available in this environment.
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Opens the database, creating the object stores if needed.
+   */
+  private openDb(): Promise<IDBDatabase> {
+    if (!this._db) {
+      const request = indexedDB.open(this._dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(LOOKUPS_STORE, { keyPath: 'key' });
+        db.createObjectStore(IMAGERY_STORE, { keyPath: 'id' }).createIndex('provider', 'provider');
+        db.createObjectStore(THUMBNAILS_STORE, { keyPath: 'url' });
+      };
+      this._db = promisify(request).catch((error) => {
+        // Allow a later call to retry opening
+        this._db = null;
+        throw error;
+      });
+    }
+    return this._db;
+  }
+
+  /**
+   * Gets an object store in a new transaction.
+   */
+  private async getStore(name: string, mode: IDBTransactionMode = 'readonly'): Promise<IDBObjectStore> {
+    const db = await this.openDb();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  /**
+   * Gets a lookup that is still within the time to live.
+   *
+   * @param key - The cache key
+   * @returns The lookup, or undefined if missing or expired
+   */
+  async get(key: string): Promise<ImageryResult | null | undefined> {
+    const store = await this.getStore(LOOKUPS_STORE);
+    const record = await promisify<LookupRecord | undefined>(store.get(key));
+    if (!record || record.storedAt + this._ttl <= Date.now()) {
+      return undefined;
+    }
+    return record.value && this.deserialize(record.value);
+  }
+
+  /**
+   * Stores a lookup, and the imagery and its thumbnail if one was found.
+   *
+   * @param key - The cache key
+   * @param value - The imagery, or null when there is none
+   * @param loadThumbnail - Downloads the thumbnail through the provider. Default: `fetch`
+   */
+  async set(key: string, value: ImageryResult | null, loadThumbnail?: ThumbnailLoader): Promise<void> {
+    const storedAt = Date.now();
+    const stored = value && this.serialize(value);
+
+    const lookups = await this.getStore(LOOKUPS_STORE, 'readwrite');
+    await promisify(lookups.put({ key, value: stored, storedAt } satisfies LookupRecord));
+
+    if (!value || !stored) return;
+
+    const imagery = await this.getStore(IMAGERY_STORE, 'readwrite');
+    await promisify(
+      imagery.put({ id: `${value.provider}:${value.id}`, provider: value.provider, value: stored, storedAt } satisfies ImageryRecord)
+    );
+
+    if (this._thumbnails && value.thumbnailUrl) {
+      await this.storeThumbnail(value.thumbnailUrl, loadThumbnail);
+    }
+  }
+
+  /**
+   * Finds the closest stored imagery of a provider within a radius, regardless of age.
+   *
+   * @param provider - The provider name
+   * @param lngLat - The queried location
+   * @param radius - The search radius in meters
+   * @returns The closest imagery, or undefined if none is stored nearby
+   */
+  async findStale(provider: ProviderType, lngLat: LngLatLike, radius: number): Promise<ImageryResult | undefined> {
+    const point = toLngLat(lngLat);
+    const store = await this.getStore(IMAGERY_STORE);
+    const records = await promisify<ImageryRecord[]>(store.index('provider').getAll(provider));
+
+    const nearby = records
+      .map(record => this.deserialize(record.value))
+      .filter(item => calculateDistance(point, item.location) <= radius);
+    const closest = findClosestPoint(point, nearby);
+    if (!closest) return undefined;
+
+    const thumbnailUrl = closest.thumbnailUrl && (await this.getThumbnailUrl(closest.thumbnailUrl));
+    return thumbnailUrl ? { ...closest, thumbnailUrl } : closest;
+  }
+
+  /**
+   * Gets an object URL for a stored thumbnail.
+   *
+   * @param url - The original thumbnail URL
+   * @returns An object URL, or undefined if the thumbnail is not stored
+   */
+  async getThumbnailUrl(url: string): Promise<string | undefined> {
+    const existing = this._objectUrls.get(url);
+    if (existing) return existing;
+
+    const store = await this.getStore(THUMBNAILS_STORE);
+    const record = await promisify<ThumbnailRecord | undefined>(store.get(url));
+    if (!record) return undefined;
+
+    const objectUrl = URL.createObjectURL(record.blob);
+    this._objectUrls.set(url, objectUrl);
+    return objectUrl;
+  }
+
+  /**
+   * Downloads and stores a thumbnail unless it is already stored.
+   */
+  private async storeThumbnail(
+    url: string,
+    loadThumbnail: ThumbnailLoader = (thumbnailUrl) => fetchBlob(thumbnailUrl)
+  ): Promise<void> {
+    try {
+      const existing = await promisify((await this.getStore(THUMBNAILS_STORE)).count(url));
+      if (existing > 0) return;
+
+      const blob = await loadThumbnail(url);
+
+      const store = await this.getStore(THUMBNAILS_STORE, 'readwrite');
+      await promisify(store.put({ url, blob } satisfies ThumbnailRecord));
+    } catch (error) {
+      console.error('Failed to store thumbnail:', error);
+    }
+  }
+
+  /**
+   * Removes all lookups, imagery and thumbnails.
+   */
+  async clear(): Promise<void> {
+    const db = await this.openDb();
+    const names = [LOOKUPS_STORE, IMAGERY_STORE, THUMBNAILS_STORE];
+    const transaction = db.transaction(names, 'readwrite');
+    await Promise.all(names.map(name => promisify(transaction.objectStore(name).clear())));
+
+    for (const objectUrl of this._objectUrls.values()) {
+      URL.revokeObjectURL(objectUrl);
+    }
+    this._objectUrls.clear();
+  }
+
+  /**
+   * Closes the database and releases thumbnail object URLs.
+   */
+  async close(): Promise<void> {
+    const db = this._db;
+    this._db = null;
+    (await db)?.close();
+
+    for (const objectUrl of this._objectUrls.values()) {
+      URL.revokeObjectURL(objectUrl);
+    }
+    this._objectUrls.clear();
+  }
+
+  /**
+   * Converts imagery to a storable record.
+   */
+  private serialize(imagery: ImageryResult): StoredImagery {
+    const { location, stale, ...rest } = imagery;
+    return { ...rest, location: [location.lng, location.lat] };
+  }
+
+  /**
+   * Restores imagery from a stored record.
+   */
+  private deserialize(stored: StoredImagery): ImageryResult {
+    const [lng, lat] = stored.location;
+    return { ...stored, location: new LngLat(lng, lat) };
+  }
+}
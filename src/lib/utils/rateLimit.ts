@@ -0,0 +1,78 @@
+import type { RateLimitOptions } from '../core/types';
+import { DEFAULT_RATE_LIMIT_OPTIONS } from '../core/constants';
+import { sleep } from './helpers';
+
+/**
+ * Token bucket rate limiter.
+ * Holds up to `burst` tokens, refilled at `requestsPerSecond`. Each request takes
+ * a token, and waits for the next one when the bucket is empty. Waiting requests
+ * reserve their token up front, so they are let through in call order.
+ */
+export class TokenBucket {
+  private _capacity: number;
+  private _rate: number;
+  private _tokens: number;
+  private _updatedAt: number;
+
+  /**
+   * Creates a new token bucket, initially full.
+   *
+   * @param options - Rate and burst size
+   */
+  constructor(options: RateLimitOptions = {}) {
+    this._capacity = Math.max(1, options.burst ?? DEFAULT_RATE_LIMIT_OPTIONS.burst);
+    this._rate = (options.requestsPerSecond ?? DEFAULT_RATE_LIMIT_OPTIONS.requestsPerSecond) / 1000;
+    this._tokens = this._capacity;
+    this._updatedAt = Date.now();
+  }
+
+  /**
+   * Takes a token, waiting until one is available.
+   *
+   * @param signal - Optional signal to stop waiting, the token is then returned
+   * @returns A promise that resolves once the request may be sent
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.refill();
+
+    this._tokens -= 1;
+    if (this._tokens >= 0) return;
+
+    try {
+      await sleep(-this._tokens / this._rate, signal);
+    } catch (error) {
+      this._tokens += 1;
+      throw error;
+    }
+  }
+
+  /**
+   * Takes a token if one is available right away.
+   *
+   * @returns True if a token was taken
+   */
+  tryAcquire(): boolean {
+    this.refill();
+    if (this._tokens < 1) return false;
+    this._tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Number of tokens currently available, negative while requests are waiting.
+   */
+  get available(): number {
+    this.refill();
+    return this._tokens;
+  }
+
+  /**
+   * Adds the tokens earned since the last update.
+   */
+  private refill(): void {
+    const now = Date.now();
+    this._tokens = Math.min(this._capacity, this._tokens + (now - this._updatedAt) * this._rate);
+    this._updatedAt = now;
+  }
+}
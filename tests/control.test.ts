@@ -0,0 +1,1353 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Map as MapLibreMap, LngLatLike } from 'maplibre-gl';
+import { LngLat, Marker } from 'maplibre-gl';
+import { Viewer as MapillaryViewer } from 'mapillary-js';
+import { StreetViewControl } from '../src/lib/core/StreetViewControl';
+import { BaseProvider } from '../src/lib/providers/BaseProvider';
+import { StreetViewMarker } from '../src/lib/components/Marker';
+import { KartaViewProvider } from '../src/lib/providers/KartaViewProvider';
+import { GoogleMapsJsProvider } from '../src/lib/providers/GoogleMapsJsProvider';
+import { GoogleStreetViewProvider } from '../src/lib/providers/GoogleStreetViewProvider';
+import { AuthError } from '../src/lib/core/errors';
+import { MapillaryProvider } from '../src/lib/providers/MapillaryProvider';
+import { toLngLat } from '../src/lib/utils/geo';
+import { MemoryImageryCache } from '../src/lib/utils/cache';
+import { MARKER_DRAG_OPTIONS } from '../src/lib/core/constants';
+import type { ImageryResult, ViewState } from '../src/lib/core/types';
+
+class TestProvider extends BaseProvider {
+  readonly name: string;
+  readonly displayName: string;
+  render = vi.fn();
+
+  constructor(name: string, private _configured = true) {
+    super();
+    this.name = name;
+    this.displayName = name.toUpperCase();
+  }
+
+  isConfigured(): boolean {
+    return this._configured;
+  }
+
+  async queryImagery(lngLat: LngLatLike): Promise<ImageryResult | null> {
+    const { lng, lat } = toLngLat(lngLat);
+    return { id: `${this.name}-1`, location: new LngLat(lng, lat), provider: this.name };
+  }
+
+  async findNearestImagery(): Promise<ImageryResult | null> {
+    return null;
+  }
+
+  destroy(): void {}
+
+  getViewState(): ViewState | null {
+    return null;
+  }
+}
+
+/**
+ * Calls the handler a MapillaryJS viewer registered for an event.
+ */
+function emitMapillaryEvent(index: number, name: string, event: unknown): void {
+  const viewer = vi.mocked(MapillaryViewer).mock.results[index].value;
+  const call = vi.mocked(viewer.on).mock.calls.find(([event]: [string]) => event === name);
+  call![1](event);
+}
+
+function createMockMap(): MapLibreMap {
+  const container = document.createElement('div');
+  const sources = new Map<string, unknown>();
+  const layers = new Map<string, { id: string; source?: string }>();
+  return {
+    getContainer: () => container,
+    on: vi.fn(),
+    off: vi.fn(),
+    once: vi.fn(),
+    isStyleLoaded: () => true,
+    addSource: vi.fn((id: string, source: unknown) => sources.set(id, source)),
+    getSource: (id: string) => sources.get(id),
+    removeSource: vi.fn((id: string) => sources.delete(id)),
+    addLayer: vi.fn((layer: { id: string }) => layers.set(layer.id, layer)),
+    getLayer: (id: string) => layers.get(id),
+    removeLayer: vi.fn((id: string) => layers.delete(id)),
+  } as unknown as MapLibreMap;
+}
+
+describe('StreetViewControl', () => {
+  describe('provider registry', () => {
+    it('registers providers passed in options', () => {
+      const control = new StreetViewControl({ providers: [new TestProvider('custom')] });
+
+      expect(control.getAvailableProviders()).toEqual(['custom']);
+      expect(control.getProvider('custom')?.displayName).toBe('CUSTOM');
+    });
+
+    it('keeps built-in providers before custom ones', () => {
+      const control = new StreetViewControl({
+        googleApiKey: 'key',
+        mapillaryAccessToken: 'token',
+      });
+      control.registerProvider(new TestProvider('custom'));
+
+      expect(control.getAvailableProviders()).toEqual(['google', 'mapillary', 'custom']);
+    });
+
+    it('excludes unconfigured providers from available providers', () => {
+      const control = new StreetViewControl({ providers: [new TestProvider('custom', false)] });
+
+      expect(control.getProviders()).toHaveLength(1);
+      expect(control.getAvailableProviders()).toEqual([]);
+      expect(control.getCurrentProvider()).toBe(null);
+    });
+
+    it('replaces a provider registered under the same name', () => {
+      const first = new TestProvider('custom');
+      const second = new TestProvider('custom');
+      const destroy = vi.spyOn(first, 'destroy');
+      const control = new StreetViewControl({ providers: [first] });
+
+      control.registerProvider(second);
+
+      expect(destroy).toHaveBeenCalled();
+      expect(control.getProvider('custom')).toBe(second);
+    });
+
+    it('shows the current location with a provider replacing the displayed one', async () => {
+      const first = new TestProvider('custom');
+      const second = new TestProvider('custom');
+      const control = new StreetViewControl({ providers: [first], defaultProvider: 'custom' });
+      control.onAdd(createMockMap());
+      await control.showStreetView([1, 2]);
+
+      control.registerProvider(second);
+
+      await vi.waitFor(() => expect(second.render).toHaveBeenCalled());
+      expect(control.getState().imagery?.location).toEqual(expect.objectContaining({ lng: 1, lat: 2 }));
+      control.onRemove();
+    });
+
+    it('clears the state when the replacing provider cannot show imagery', async () => {
+      const control = new StreetViewControl({ providers: [new TestProvider('custom')], defaultProvider: 'custom' });
+      control.onAdd(createMockMap());
+      await control.showStreetView([1, 2]);
+
+      control.registerProvider(new TestProvider('custom', false));
+
+      expect(control.getState()).toMatchObject({ location: null, imagery: null, loading: false });
+      control.onRemove();
+    });
+
+    it('falls back to the first available provider when added to a map', () => {
+      const control = new StreetViewControl({ providers: [new TestProvider('custom')] });
+      control.onAdd(createMockMap());
+
+      expect(control.getState().activeProvider).toBe('custom');
+      expect(control.getCurrentProvider()?.name).toBe('custom');
+      control.onRemove();
+    });
+
+    it('renders a tab for each registered provider', () => {
+      const control = new StreetViewControl({
+        googleApiKey: 'key',
+        providers: [new TestProvider('custom')],
+      });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      const tabs = map.getContainer().querySelectorAll<HTMLButtonElement>('.streetview-provider-tab');
+      expect(Array.from(tabs).map((tab) => tab.dataset.provider)).toEqual(['google', 'custom']);
+      control.onRemove();
+    });
+
+    it('renders imagery from a custom provider and emits events', async () => {
+      const provider = new TestProvider('custom');
+      const control = new StreetViewControl({ providers: [provider], showMarker: false });
+      const onLoad = vi.fn();
+      control.onAdd(createMockMap());
+      control.on('load', onLoad);
+
+      await control.showStreetView([1, 2]);
+
+      expect(provider.render).toHaveBeenCalled();
+      expect(onLoad).toHaveBeenCalledTimes(1);
+      expect(onLoad.mock.calls[0][0].state.imagery.provider).toBe('custom');
+      control.onRemove();
+    });
+  });
+
+  describe('coverage layers', () => {
+    class CoverageProvider extends TestProvider {
+      getCoverageLayers() {
+        return {
+          sources: { tiles: { type: 'vector' as const, tiles: [`https://${this.name}/{z}/{x}/{y}`] } },
+          layers: [{ id: 'lines', type: 'line' as const, source: 'tiles', 'source-layer': 'seq' }],
+        };
+      }
+    }
+
+    it('adds coverage only while the panel is expanded', () => {
+      const control = new StreetViewControl({ providers: [new CoverageProvider('a')], showCoverage: true });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      expect(map.addLayer).not.toHaveBeenCalled();
+
+      control.expand();
+      const layer = vi.mocked(map.addLayer).mock.calls[0][0] as { id: string; source: string };
+      expect(layer.source).toBe(`${control.getId()}-coverage-tiles`);
+      expect(map.getLayer(layer.id)).toBeDefined();
+
+      control.collapse();
+      expect(map.getLayer(layer.id)).toBeUndefined();
+      expect(map.getSource(layer.source)).toBeUndefined();
+      control.onRemove();
+    });
+
+    it('switches coverage with the active provider', () => {
+      const control = new StreetViewControl({
+        providers: [new CoverageProvider('a'), new CoverageProvider('b')],
+        defaultProvider: 'a',
+        showCoverage: true,
+      });
+      const map = createMockMap();
+      control.onAdd(map);
+      control.expand();
+
+      control.setProvider('b');
+
+      const source = vi.mocked(map.addSource).mock.calls[1][1] as { tiles: string[] };
+      expect(source.tiles[0]).toBe('https://b/{z}/{x}/{y}');
+      expect(map.removeSource).toHaveBeenCalledTimes(1);
+      control.onRemove();
+    });
+
+    it('can be toggled at runtime', () => {
+      const control = new StreetViewControl({ providers: [new CoverageProvider('a')] });
+      const map = createMockMap();
+      control.onAdd(map);
+      control.expand();
+
+      expect(map.addLayer).not.toHaveBeenCalled();
+      control.setCoverageEnabled(true);
+      expect(control.isCoverageEnabled()).toBe(true);
+      expect(map.addLayer).toHaveBeenCalledTimes(1);
+      control.onRemove();
+    });
+
+    it('keeps coverage when unrelated options change', () => {
+      const control = new StreetViewControl({ providers: [new CoverageProvider('a')], showCoverage: true });
+      const map = createMockMap();
+      control.onAdd(map);
+      control.expand();
+
+      control.setFollowMode('center');
+      control.setFilters({ panoOnly: true });
+      control.setDateRange({ start: '2020-01-01' });
+
+      expect(map.removeSource).not.toHaveBeenCalled();
+      expect(map.addSource).toHaveBeenCalledTimes(1);
+      control.onRemove();
+    });
+
+    it('rebuilds coverage when the active provider reports a change', () => {
+      class ChangingProvider extends CoverageProvider {
+        change(): void {
+          this.emitCoverageChange();
+        }
+      }
+      const active = new ChangingProvider('a');
+      const other = new ChangingProvider('b');
+      const control = new StreetViewControl({ providers: [active, other], defaultProvider: 'a', showCoverage: true });
+      const map = createMockMap();
+      control.onAdd(map);
+      control.expand();
+
+      other.change();
+      expect(map.addSource).toHaveBeenCalledTimes(1);
+
+      active.change();
+      expect(map.removeSource).toHaveBeenCalledTimes(1);
+      expect(map.addSource).toHaveBeenCalledTimes(2);
+
+      control.onRemove();
+      active.change();
+      expect(map.addSource).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('draggable marker', () => {
+    class CoverageProvider extends TestProvider {
+      getCoverageLayers() {
+        return {
+          sources: { tiles: { type: 'vector' as const, tiles: ['https://coverage/{z}/{x}/{y}'] } },
+          layers: [{ id: 'lines', type: 'line' as const, source: 'tiles', 'source-layer': 'seq' }],
+        };
+      }
+    }
+
+    function getMarkerHandler(event: string): () => void {
+      const marker = vi.mocked(Marker).mock.results.at(-1)!.value;
+      const call = vi.mocked(marker.on).mock.calls.find(([name]: [string]) => name === event);
+      return call![1];
+    }
+
+    it('highlights coverage while dragging and shows imagery at the drop point', async () => {
+      const provider = new CoverageProvider('a');
+      const control = new StreetViewControl({
+        providers: [provider],
+        markerOptions: { draggable: true },
+      });
+      const map = createMockMap();
+      control.onAdd(map);
+      control.expand();
+      const showStreetView = vi.spyOn(control, 'showStreetView');
+
+      expect(map.addLayer).not.toHaveBeenCalled();
+      getMarkerHandler('dragstart')();
+      expect(map.addLayer).toHaveBeenCalledTimes(1);
+
+      const marker = vi.mocked(Marker).mock.results.at(-1)!.value;
+      vi.mocked(marker.getLngLat).mockReturnValue({ lng: 3, lat: 4 });
+      getMarkerHandler('dragend')();
+
+      expect(map.getLayer(`${control.getId()}-coverage-lines`)).toBeUndefined();
+      expect(showStreetView).toHaveBeenCalledWith({ lng: 3, lat: 4 });
+      await showStreetView.mock.results[0].value;
+      expect(control.getState().imagery?.provider).toBe('a');
+      control.onRemove();
+    });
+
+    it('highlights the imagery the marker snaps to for providers without coverage layers', async () => {
+      vi.useFakeTimers();
+      try {
+        const control = new StreetViewControl({ providers: [new TestProvider('a')], markerOptions: { draggable: true } });
+        const map = createMockMap();
+        control.onAdd(map);
+        control.expand();
+        const marker = vi.mocked(Marker).mock.results.at(-1)!.value;
+        control.showStreetView([1, 2]);
+        await vi.runAllTimersAsync();
+        const query = vi.spyOn(control.getProvider('a')!, 'queryImagery');
+
+        getMarkerHandler('dragstart')();
+        vi.mocked(marker.getLngLat).mockReturnValue({ lng: 3, lat: 4 });
+        getMarkerHandler('drag')();
+        getMarkerHandler('drag')();
+        await vi.advanceTimersByTimeAsync(MARKER_DRAG_OPTIONS.lookupInterval);
+
+        expect(query).toHaveBeenCalledTimes(1);
+        const circle = vi.mocked(map.addLayer).mock.calls.map(([layer]) => layer).find((layer) => layer.type === 'circle')!;
+        const data = (map.getSource(circle.source as string) as { data: GeoJSON.FeatureCollection }).data;
+        expect(data.features[1].geometry).toEqual({ type: 'Point', coordinates: [3, 4] });
+
+        getMarkerHandler('dragend')();
+        expect(map.getLayer(circle.id)).toBeUndefined();
+        control.onRemove();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('puts the marker back instead of showing imagery while collapsed', async () => {
+      const control = new StreetViewControl({ providers: [new TestProvider('a')], markerOptions: { draggable: true } });
+      control.onAdd(createMockMap());
+      control.expand();
+      await control.showStreetView([1, 2]);
+      control.collapse();
+      const showStreetView = vi.spyOn(control, 'showStreetView');
+      const marker = vi.mocked(Marker).mock.results.at(-1)!.value;
+
+      getMarkerHandler('dragstart')();
+      vi.mocked(marker.getLngLat).mockReturnValue({ lng: 3, lat: 4 });
+      getMarkerHandler('dragend')();
+
+      expect(showStreetView).not.toHaveBeenCalled();
+      expect(marker.setLngLat).toHaveBeenLastCalledWith(control.getState().location);
+      control.onRemove();
+    });
+  });
+
+  describe('marker options', () => {
+    it('applies view cone options passed to updateOptions', () => {
+      const setLength = vi.spyOn(StreetViewMarker.prototype, 'setViewConeLength');
+      const setOpacity = vi.spyOn(StreetViewMarker.prototype, 'setViewConeOpacity');
+      const setColor = vi.spyOn(StreetViewMarker.prototype, 'setViewConeColor');
+      const control = new StreetViewControl({ providers: [new TestProvider('a')], markerOptions: { showViewCone: true } });
+      control.onAdd(createMockMap());
+
+      control.updateOptions({ markerOptions: { viewConeLength: 60, viewConeOpacity: 0.5, viewConeColor: '#000000' } });
+
+      expect(setLength).toHaveBeenCalledWith(60);
+      expect(setOpacity).toHaveBeenCalledWith(0.5);
+      expect(setColor).toHaveBeenCalledWith('#000000');
+      setLength.mockRestore();
+      setOpacity.mockRestore();
+      setColor.mockRestore();
+      control.onRemove();
+    });
+  });
+
+  describe('request cancellation', () => {
+    class DeferredProvider extends TestProvider {
+      requests: { location: { lng: number; lat: number }; signal?: AbortSignal; resolve: () => void }[] = [];
+
+      queryImagery(lngLat: LngLatLike, _radius?: number, signal?: AbortSignal): Promise<ImageryResult | null> {
+        const location = toLngLat(lngLat);
+        return new Promise((resolve) => {
+          this.requests.push({
+            location,
+            signal,
+            resolve: () => resolve({ id: `${location.lng}`, location, provider: this.name }),
+          });
+        });
+      }
+    }
+
+    it('ignores a slower response superseded by a newer request', async () => {
+      const provider = new DeferredProvider('a');
+      const control = new StreetViewControl({ providers: [provider], showMarker: false });
+      const onAbort = vi.fn();
+      control.onAdd(createMockMap());
+      control.on('abort', onAbort);
+
+      const first = control.showStreetView([1, 1]);
+      const second = control.showStreetView([2, 2]);
+      expect(provider.requests[0].signal?.aborted).toBe(true);
+      expect(onAbort).toHaveBeenCalledTimes(1);
+
+      provider.requests[1].resolve();
+      await second;
+      provider.requests[0].resolve();
+      await first;
+
+      expect(control.getState().imagery?.id).toBe('2');
+      expect(provider.render).toHaveBeenCalledTimes(1);
+      control.onRemove();
+    });
+
+    it('cancels the request in flight', async () => {
+      const provider = new DeferredProvider('a');
+      const control = new StreetViewControl({ providers: [provider], showMarker: false });
+      const onAbort = vi.fn();
+      control.onAdd(createMockMap());
+      control.on('abort', onAbort);
+
+      const request = control.showStreetView([1, 1]);
+      expect(control.getState().loading).toBe(true);
+
+      control.cancel();
+      provider.requests[0].resolve();
+      await request;
+
+      expect(onAbort).toHaveBeenCalledTimes(1);
+      expect(control.getState().loading).toBe(false);
+      expect(control.getState().imagery).toBeNull();
+      expect(provider.render).not.toHaveBeenCalled();
+
+      control.cancel();
+      expect(onAbort).toHaveBeenCalledTimes(1);
+      control.onRemove();
+    });
+  });
+
+  describe('offline cache', () => {
+    it('prefetches a grid of points around a location', async () => {
+      const provider = new TestProvider('a');
+      const queryImagery = vi.spyOn(provider, 'queryImagery');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a', cache: true });
+      const onProgress = vi.fn();
+
+      const found = await control.prefetchArea([0, 0], 100, { spacing: 100, onProgress });
+
+      expect(queryImagery).toHaveBeenCalledTimes(9);
+      expect(queryImagery.mock.calls[0][1]).toBe(71);
+      expect(onProgress).toHaveBeenLastCalledWith(9, 9);
+      // TestProvider returns one image per point
+      expect(found).toBe(1);
+    });
+
+    it('rejects areas above the query limit', async () => {
+      const control = new StreetViewControl({ providers: [new TestProvider('a')], defaultProvider: 'a', cache: true });
+      await expect(control.prefetchArea([0, 0], 1000, { spacing: 100, maxPoints: 50 })).rejects.toThrow(
+        'Prefetch area needs 441 queries, the maximum is 50'
+      );
+    });
+
+    it('marks stale imagery in the viewer', async () => {
+      const provider = new TestProvider('a');
+      vi.spyOn(provider, 'queryImagery').mockResolvedValue({
+        id: 'cached',
+        location: new LngLat(0, 0),
+        provider: 'a',
+        stale: true,
+      });
+      const control = new StreetViewControl({ providers: [provider], showMarker: false });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      await control.showStreetView([0, 0]);
+
+      expect(map.getContainer().querySelector('.streetview-viewer-stale')).not.toBeNull();
+      control.onRemove();
+    });
+
+    it('shows imagery prefetched beyond 50 m while offline', async () => {
+      vi.mocked(fetch).mockRejectedValue(new TypeError('Failed to fetch'));
+      const stored = { id: 'stored', location: new LngLat(0.002, 0), provider: 'kartaview' };
+      const cache = Object.assign(new MemoryImageryCache(), {
+        findStale: async (_provider: string, _lngLat: unknown, radius: number) => (radius >= 250 ? stored : undefined),
+      });
+      const control = new StreetViewControl({
+        providers: [new KartaViewProvider()],
+        defaultProvider: 'kartaview',
+        cache,
+        maxSearchRadius: 500,
+        showMarker: false,
+      });
+      control.onAdd(createMockMap());
+
+      await control.showStreetView([0, 0]);
+
+      expect(control.getState().imagery).toMatchObject({ id: 'stored', stale: true });
+      vi.mocked(fetch).mockReset();
+      control.onRemove();
+    });
+  });
+
+  describe('request transport', () => {
+    it('sends provider requests through the transport after transformRequest', async () => {
+      const transport = vi.fn(async () => new Response(JSON.stringify({ currentPageItems: [] })));
+      const transformRequest = vi.fn((url: string) => ({
+        url: url.replace('https://api.openstreetcam.org', 'https://proxy.example.com/kartaview'),
+        headers: { Authorization: 'Bearer session' },
+      }));
+      const provider = new KartaViewProvider();
+      new StreetViewControl({ providers: [provider], transport, transformRequest, retry: false });
+
+      await provider.queryImagery([0, 0]);
+
+      expect(transformRequest).toHaveBeenCalledWith(expect.stringContaining('api.openstreetcam.org'), 'kartaview');
+      expect(fetch).not.toHaveBeenCalled();
+      const [url, init] = transport.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('https://proxy.example.com/kartaview/1.0/list/nearby-photos/');
+      expect(init.method).toBe('POST');
+      expect(init.headers).toEqual({ authorization: 'Bearer session' });
+    });
+
+    it('removes the transport and transformRequest passed as undefined', async () => {
+      vi.mocked(fetch).mockResolvedValue(new Response(JSON.stringify({ currentPageItems: [] })));
+      const transport = vi.fn(async () => new Response(JSON.stringify({ currentPageItems: [] })));
+      const transformRequest = vi.fn(() => undefined);
+      const provider = new KartaViewProvider();
+      const control = new StreetViewControl({ providers: [provider], transport, transformRequest });
+
+      control.updateOptions({ transport: undefined, transformRequest: undefined });
+      await provider.queryImagery([0, 0]);
+
+      expect(transport).not.toHaveBeenCalled();
+      expect(transformRequest).not.toHaveBeenCalled();
+      expect(fetch).toHaveBeenCalledTimes(1);
+      vi.mocked(fetch).mockReset();
+    });
+  });
+
+  describe('credentials', () => {
+    it('registers and updates built-in providers at runtime', () => {
+      const control = new StreetViewControl({ providers: [new TestProvider('a')], defaultProvider: 'a' });
+      control.onAdd(createMockMap());
+      expect(control.getAvailableProviders()).toEqual(['a']);
+
+      control.setCredentials({ mapillaryAccessToken: 'token' });
+      expect(control.getAvailableProviders()).toEqual(['a', 'mapillary']);
+
+      control.setCredentials({ mapillaryAccessToken: '' });
+      expect(control.getAvailableProviders()).toEqual(['a']);
+      control.onRemove();
+    });
+
+    it('keeps the token fetched by the callback when only the callback changes', () => {
+      const control = new StreetViewControl({ mapillaryAccessToken: 'option', defaultProvider: 'mapillary' });
+      control.onAdd(createMockMap());
+      const mapillary = control.getCurrentProvider() as MapillaryProvider;
+      mapillary.setAccessToken('fetched');
+      const setAccessToken = vi.spyOn(mapillary, 'setAccessToken');
+
+      control.setCredentials({ getMapillaryAccessToken: async () => 'next' });
+
+      expect(setAccessToken).not.toHaveBeenCalled();
+      control.onRemove();
+    });
+
+    it('uses the embed renderer when the JavaScript renderer has no API key', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const control = new StreetViewControl({ googleSignUrl: async (url) => url, googleRenderer: 'javascript' });
+
+      const google = control.getProvider('google');
+      expect(google).toBeInstanceOf(GoogleStreetViewProvider);
+      expect(google).not.toBeInstanceOf(GoogleMapsJsProvider);
+      expect(google?.isConfigured()).toBe(true);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('keeps the Google credentials a provider rejects', () => {
+      const control = new StreetViewControl({ googleApiKey: 'key', googleRenderer: 'javascript' });
+      const setCredentials = vi
+        .spyOn(GoogleMapsJsProvider.prototype, 'setCredentials')
+        .mockImplementationOnce(() => {
+          throw new AuthError('loaded with another key');
+        });
+
+      expect(() => control.setCredentials({ googleApiKey: 'other' })).toThrow(AuthError);
+      const signUrl = async (url: string) => url;
+      control.setCredentials({ googleSignUrl: signUrl });
+
+      expect(setCredentials).toHaveBeenLastCalledWith('key', signUrl);
+      setCredentials.mockRestore();
+    });
+  });
+
+  describe('runtime providers', () => {
+    it('falls back when the active provider is removed', () => {
+      const control = new StreetViewControl({
+        providers: [new TestProvider('a'), new TestProvider('b')],
+        defaultProvider: 'a',
+      });
+      const map = createMockMap();
+      control.onAdd(map);
+      const onProviderChange = vi.fn();
+      control.on('providerchange', onProviderChange);
+
+      control.removeProvider('a');
+
+      expect(control.getState().activeProvider).toBe('b');
+      expect(onProviderChange).toHaveBeenCalledTimes(1);
+      const tabs = map.getContainer().querySelectorAll('.streetview-provider-tab');
+      expect(Array.from(tabs, (tab) => (tab as HTMLElement).dataset.provider)).toEqual(['b']);
+      control.onRemove();
+    });
+
+    it('skips disabled providers and greys out their tab', () => {
+      const control = new StreetViewControl({
+        providers: [new TestProvider('a'), new TestProvider('b')],
+        defaultProvider: 'a',
+      });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      control.setProviderEnabled('a', false);
+
+      expect(control.isProviderEnabled('a')).toBe(false);
+      expect(control.getAvailableProviders()).toEqual(['b']);
+      expect(control.getState().activeProvider).toBe('b');
+      const tab = map.getContainer().querySelector<HTMLButtonElement>('[data-provider="a"]');
+      expect(tab?.disabled).toBe(true);
+
+      control.setProviderEnabled('a', true);
+      expect(control.getAvailableProviders()).toEqual(['a', 'b']);
+      control.onRemove();
+    });
+
+    it('adds providers and keys loaded after the map', () => {
+      const control = new StreetViewControl({ providers: [new TestProvider('a')], defaultProvider: 'a' });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      control.updateOptions({ mapillaryAccessToken: 'token', providers: [new TestProvider('b')], clickToView: false });
+
+      expect(control.getAvailableProviders()).toEqual(['a', 'mapillary', 'b']);
+      expect(map.off).toHaveBeenCalledWith('click', expect.any(Function));
+      control.onRemove();
+    });
+  });
+
+  describe('split mode', () => {
+    class HeadingProvider extends TestProvider {
+      setHeading = vi.fn((heading: number) => this.emitHeadingChange(heading));
+
+      turn(heading: number): void {
+        this.emitHeadingChange(heading);
+      }
+    }
+
+    it('shows two providers side by side with capture dates and distances', async () => {
+      const a = new TestProvider('a');
+      const b = new TestProvider('b');
+      const capturedAt = new Date(2020, 5, 1);
+      vi.spyOn(b, 'queryImagery').mockResolvedValue(null);
+      vi.spyOn(b, 'findNearestImagery').mockResolvedValue({
+        id: 'b-1',
+        location: new LngLat(0.0001, 0),
+        provider: 'b',
+        capturedAt,
+      });
+      const control = new StreetViewControl({ providers: [a, b], defaultProvider: 'a', splitProviders: ['a', 'b'] });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      await control.showStreetView([0, 0]);
+
+      expect(control.getSplitProviders()).toEqual(['a', 'b']);
+      expect(a.render).toHaveBeenCalledTimes(1);
+      expect(b.render).toHaveBeenCalledTimes(1);
+      const container = map.getContainer();
+      expect(container.querySelector<HTMLElement>('.streetview-provider-tabs')?.style.display).toBe('none');
+      const labels = container.querySelectorAll('.streetview-split-label');
+      expect(labels[0].textContent).toBe('A: Unknown date · 0 m');
+      expect(labels[1].textContent).toBe(`B: ${capturedAt.toLocaleDateString()} · 11 m`);
+
+      control.setSplitProviders(null);
+      expect(control.getSplitProviders()).toBeNull();
+      expect(container.querySelector<HTMLElement>('.streetview-provider-tabs')?.style.display).toBe('');
+      control.onRemove();
+    });
+
+    it('links headings once both sides report them', async () => {
+      const a = new HeadingProvider('a');
+      const b = new HeadingProvider('b');
+      const control = new StreetViewControl({ providers: [a, b], defaultProvider: 'a', splitProviders: ['a', 'b'] });
+      control.onAdd(createMockMap());
+      await control.showStreetView([0, 0]);
+
+      a.turn(90);
+      expect(b.setHeading).not.toHaveBeenCalled();
+
+      b.turn(10);
+      expect(a.setHeading).toHaveBeenCalledWith(10);
+
+      a.turn(200);
+      expect(b.setHeading).toHaveBeenCalledTimes(1);
+      expect(b.setHeading).toHaveBeenCalledWith(200);
+      expect(control.getState().heading).toBe(200);
+      control.onRemove();
+    });
+
+    it('links headings with a Mapillary side', async () => {
+      const mapillary = new MapillaryProvider('token');
+      vi.spyOn(mapillary, 'queryImagery').mockImplementation(async (lngLat) => ({
+        id: 'm-1',
+        location: toLngLat(lngLat),
+        provider: 'mapillary',
+      }));
+      const setHeading = vi.spyOn(mapillary, 'setHeading').mockResolvedValue();
+      const b = new HeadingProvider('b');
+      const control = new StreetViewControl({
+        providers: [mapillary, b],
+        defaultProvider: 'mapillary',
+        splitProviders: ['mapillary', 'b'],
+      });
+      control.onAdd(createMockMap());
+      await control.showStreetView([0, 0]);
+
+      b.turn(10);
+      emitMapillaryEvent(vi.mocked(MapillaryViewer).mock.results.length - 1, 'bearing', { bearing: 90 });
+      expect(b.setHeading).toHaveBeenCalledWith(90);
+
+      b.turn(200);
+      expect(setHeading).toHaveBeenCalledWith(200);
+      control.onRemove();
+    });
+  });
+
+  describe('timeline', () => {
+    class HistoryProvider extends TestProvider {
+      queryHistory = vi.fn(async (): Promise<ImageryResult[]> => []);
+    }
+
+    it('is off by default', async () => {
+      const provider = new HistoryProvider('a');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+      control.onAdd(createMockMap());
+
+      await control.showStreetView([0, 0]);
+
+      expect(provider.queryHistory).not.toHaveBeenCalled();
+      control.onRemove();
+    });
+
+    it('lists capture dates near the location and shows the date picked', async () => {
+      const provider = new HistoryProvider('a');
+      const current: ImageryResult = { id: 'new', location: new LngLat(0, 0), provider: 'a', capturedAt: new Date(2022, 5, 1) };
+      const old: ImageryResult = { id: 'old', location: new LngLat(0.0001, 0), provider: 'a', capturedAt: new Date(2015, 5, 1) };
+      vi.spyOn(provider, 'queryImagery').mockResolvedValue(current);
+      provider.queryHistory.mockResolvedValue([old, current]);
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a', showTimeline: true });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      await control.showStreetView([0, 0]);
+
+      const items = () => map.getContainer().querySelectorAll<HTMLButtonElement>('.streetview-timeline-item');
+      await vi.waitFor(() => expect(items()).toHaveLength(2));
+      expect(items()[1].classList.contains('active')).toBe(true);
+
+      items()[0].click();
+
+      expect(control.getState().imagery?.id).toBe('old');
+      expect(provider.render).toHaveBeenLastCalledWith(expect.any(HTMLElement), old);
+      expect(items()[0].classList.contains('active')).toBe(true);
+      control.onRemove();
+    });
+
+    it('passes the date range and filters to providers and reloads the location', async () => {
+      const provider = new TestProvider('a');
+      const setFilters = vi.spyOn(provider, 'setFilters');
+      const query = vi.spyOn(provider, 'queryImagery');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+      control.onAdd(createMockMap());
+      await control.showStreetView([0, 0]);
+
+      control.setDateRange({ start: '2020-01-01', end: '2022-12-31' });
+      control.setFilters({ capturedBefore: '2021-06-30', panoOnly: true });
+
+      expect(setFilters).toHaveBeenLastCalledWith({
+        capturedAfter: '2020-01-01',
+        capturedBefore: '2021-06-30',
+        panoOnly: true,
+      });
+      expect(control.getFilters()).toEqual({ capturedBefore: '2021-06-30', panoOnly: true });
+      expect(query).toHaveBeenCalledTimes(3);
+      control.onRemove();
+    });
+  });
+
+  describe('date comparison', () => {
+    class ComparableProvider extends TestProvider {
+      clones: ComparableProvider[] = [];
+      queryHistory = vi.fn(async (): Promise<ImageryResult[]> => []);
+      navigateToImage = vi.fn(async () => {});
+
+      clone(): ComparableProvider {
+        const clone = new ComparableProvider(this.name);
+        clone.queryHistory = this.queryHistory;
+        this.clones.push(clone);
+        return clone;
+      }
+    }
+
+    const near2015: ImageryResult = { id: 'near-2015', location: new LngLat(0.0001, 0), provider: 'a', capturedAt: new Date(2015, 5, 1, 10) };
+    const far2015: ImageryResult = { id: 'far-2015', location: new LngLat(0.0005, 0), provider: 'a', capturedAt: new Date(2015, 5, 1, 11) };
+    const near2022: ImageryResult = { id: 'near-2022', location: new LngLat(0, 0), provider: 'a', capturedAt: new Date(2022, 5, 1) };
+
+    it('shows the imagery closest to each date side by side', async () => {
+      const provider = new ComparableProvider('a');
+      provider.queryHistory.mockResolvedValue([far2015, near2022, near2015]);
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      await control.compareDates([0, 0], '2014-01-01', new Date(2023, 0, 1));
+
+      const [clone] = provider.clones;
+      expect(provider.render).toHaveBeenCalledWith(expect.any(HTMLElement), near2015);
+      expect(clone.render).toHaveBeenCalledWith(expect.any(HTMLElement), near2022);
+      expect(control.getState().imagery).toBe(near2015);
+      expect(control.getComparedDates()).toEqual([new Date(2014, 0, 1), new Date(2023, 0, 1)]);
+      const labels = map.getContainer().querySelectorAll('.streetview-split-label');
+      expect(labels[0].textContent).toBe(`A: ${near2015.capturedAt!.toLocaleDateString()} · 11 m`);
+      expect(labels[1].textContent).toBe(`A: ${near2022.capturedAt!.toLocaleDateString()} · 0 m`);
+
+      // Comparing other dates moves the viewers instead of recreating them
+      await control.compareDates([0, 0], '2022-01-01', '2015-06-01');
+      expect(clone.render).toHaveBeenCalledTimes(1);
+      expect(provider.navigateToImage).toHaveBeenCalledWith('near-2022');
+      expect(clone.navigateToImage).toHaveBeenCalledWith('near-2015');
+
+      control.stopComparingDates();
+      expect(control.getComparedDates()).toBeNull();
+      expect(map.getContainer().querySelector<HTMLElement>('.streetview-provider-tabs')?.style.display).toBe('');
+      control.onRemove();
+    });
+
+    it('searches a capture date window around each date', async () => {
+      const provider = new ComparableProvider('a');
+      const setFilters = vi.spyOn(ComparableProvider.prototype, 'setFilters');
+      provider.queryHistory.mockResolvedValue([near2015]);
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      await control.compareDates([0, 0], '2015-01-01', '2024-01-01');
+
+      const windows = setFilters.mock.calls.map(([filters]) => filters).filter((filters) => filters.capturedAfter);
+      expect(windows.map((filters) => (filters.capturedAfter as Date).getFullYear())).toEqual([2013, 2022]);
+      expect(windows.map((filters) => (filters.capturedBefore as Date).getFullYear())).toEqual([2016, 2025]);
+      expect(provider.render).toHaveBeenCalledWith(expect.any(HTMLElement), near2015);
+      expect(provider.clones[0].render).not.toHaveBeenCalled();
+      expect(map.getContainer().textContent).toContain(`No imagery near ${new Date(2024, 0, 1).toLocaleDateString()}`);
+      setFilters.mockRestore();
+      control.onRemove();
+    });
+
+    it('does not show the same image on both sides', async () => {
+      const provider = new ComparableProvider('a');
+      provider.queryHistory.mockResolvedValue([near2015]);
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+      control.onAdd(createMockMap());
+
+      await control.compareDates([0, 0], '2015-01-01', '2016-01-01');
+
+      expect(provider.render).toHaveBeenCalledWith(expect.any(HTMLElement), near2015);
+      expect(provider.clones[0].render).not.toHaveBeenCalled();
+      control.onRemove();
+    });
+
+    it('locks the headings of two Mapillary dates', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () =>
+          Promise.resolve({
+            data: [
+              { id: 'm-2015', computed_geometry: { type: 'Point', coordinates: [0, 0] }, captured_at: Date.UTC(2015, 5, 1) },
+              { id: 'm-2022', computed_geometry: { type: 'Point', coordinates: [0, 0] }, captured_at: Date.UTC(2022, 5, 1) },
+            ],
+          }),
+      } as Response);
+      const setHeading = vi.spyOn(MapillaryProvider.prototype, 'setHeading').mockResolvedValue();
+      const control = new StreetViewControl({ providers: [new MapillaryProvider('token')], defaultProvider: 'mapillary' });
+      control.onAdd(createMockMap());
+      const viewers = vi.mocked(MapillaryViewer).mock.results.length;
+
+      await control.compareDates([0, 0], '2015-01-01', '2022-01-01');
+      emitMapillaryEvent(viewers + 1, 'bearing', { bearing: 10 });
+      emitMapillaryEvent(viewers, 'bearing', { bearing: 90 });
+
+      expect(setHeading).toHaveBeenCalledWith(90);
+      setHeading.mockRestore();
+      vi.mocked(fetch).mockReset();
+      control.onRemove();
+    });
+
+    it('rejects providers without a capture history', async () => {
+      const control = new StreetViewControl({ providers: [new TestProvider('a')], defaultProvider: 'a' });
+      control.onAdd(createMockMap());
+
+      await expect(control.compareDates([0, 0], '2015-01-01', '2022-01-01')).rejects.toThrow(
+        'A cannot compare capture dates'
+      );
+      expect(control.getComparedDates()).toBeNull();
+      control.onRemove();
+    });
+  });
+
+  describe('follow mode', () => {
+    class WalkingProvider extends TestProvider {
+      walk(lng: number, lat: number): void {
+        this.emitLocationChange(new LngLat(lng, lat));
+      }
+
+      turn(heading: number): void {
+        this.emitHeadingChange(heading);
+      }
+    }
+
+    function createFollowMap(): MapLibreMap & { easeTo: ReturnType<typeof vi.fn>; rotateTo: ReturnType<typeof vi.fn> } {
+      const map = Object.assign(createMockMap(), {
+        easeTo: vi.fn(),
+        rotateTo: vi.fn(),
+        // One pixel per 0.001 degrees from the top-left corner
+        project: vi.fn(({ lng, lat }: { lng: number; lat: number }) => ({ x: lng * 1000, y: lat * 1000 })),
+      });
+      Object.defineProperty(map.getContainer(), 'clientWidth', { value: 100 });
+      Object.defineProperty(map.getContainer(), 'clientHeight', { value: 100 });
+      return map;
+    }
+
+    function getMoveHandler(map: MapLibreMap): (e: { originalEvent?: Event }) => void {
+      const call = vi.mocked(map.on).mock.calls.find(([type]) => type === 'movestart');
+      return call![1] as unknown as (e: { originalEvent?: Event }) => void;
+    }
+
+    it('centers the map on the viewer location and suspends after manual moves', async () => {
+      const provider = new WalkingProvider('a');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a', followMode: 'center' });
+      const map = createFollowMap();
+      control.onAdd(map);
+      await control.showStreetView([0, 0]);
+
+      provider.walk(0.01, 0.02);
+      expect(map.easeTo).toHaveBeenCalledWith({ center: new LngLat(0.01, 0.02), duration: 500 });
+
+      getMoveHandler(map)({});
+      provider.walk(0.02, 0.02);
+      expect(map.easeTo).toHaveBeenCalledTimes(2);
+
+      getMoveHandler(map)({ originalEvent: new MouseEvent('mousedown') });
+      provider.walk(0.03, 0.02);
+      expect(map.easeTo).toHaveBeenCalledTimes(2);
+      control.onRemove();
+    });
+
+    it('pans near the edges in bounds mode and rotates in bearing mode', async () => {
+      const provider = new WalkingProvider('a');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a', followMode: 'bounds' });
+      const map = createFollowMap();
+      control.onAdd(map);
+      await control.showStreetView([0.05, 0.05]);
+
+      provider.walk(0.06, 0.05);
+      expect(map.easeTo).not.toHaveBeenCalled();
+      provider.walk(0.09, 0.05);
+      expect(map.easeTo).toHaveBeenCalledTimes(1);
+
+      provider.turn(90);
+      expect(map.rotateTo).not.toHaveBeenCalled();
+
+      control.setFollowMode('bearing');
+      provider.turn(120);
+      expect(map.rotateTo).toHaveBeenCalledWith(120, { duration: 500 });
+      provider.walk(0.06, 0.05);
+      expect(map.easeTo).toHaveBeenLastCalledWith({ center: new LngLat(0.06, 0.05), bearing: 120, duration: 500 });
+      control.onRemove();
+    });
+
+    it('rotates the map in bearing mode during a Mapillary walk', async () => {
+      const mapillary = new MapillaryProvider('token');
+      vi.spyOn(mapillary, 'queryImagery').mockImplementation(async (lngLat) => ({
+        id: 'm-1',
+        location: toLngLat(lngLat),
+        provider: 'mapillary',
+      }));
+      const control = new StreetViewControl({ providers: [mapillary], defaultProvider: 'mapillary', followMode: 'bearing' });
+      const map = createFollowMap();
+      control.onAdd(map);
+      await control.showStreetView([0.05, 0.05]);
+      const viewer = vi.mocked(MapillaryViewer).mock.results.length - 1;
+      Object.assign(vi.mocked(MapillaryViewer).mock.results[viewer].value, {
+        getBearing: vi.fn().mockResolvedValue(180),
+      });
+
+      emitMapillaryEvent(viewer, 'bearing', { bearing: 90 });
+      expect(map.rotateTo).toHaveBeenCalledWith(90, { duration: 500 });
+
+      // Each step of the walk reports the bearing once the image is loaded
+      emitMapillaryEvent(viewer, 'image', { image: { lngLat: { lng: 0.06, lat: 0.05 } } });
+      expect(map.easeTo).toHaveBeenCalledWith({ center: new LngLat(0.06, 0.05), bearing: 90, duration: 500 });
+      await vi.waitFor(() => expect(map.rotateTo).toHaveBeenLastCalledWith(180, { duration: 500 }));
+      control.onRemove();
+    });
+  });
+
+  describe('view control', () => {
+    class TurningProvider extends TestProvider {
+      private _heading = 0;
+      private _pitch = 0;
+      setHeading = vi.fn((heading: number) => {
+        this._heading = heading;
+        this.emitHeadingChange(heading);
+      });
+      setPitch = vi.fn((pitch: number) => {
+        this._pitch = pitch;
+      });
+      setZoom = vi.fn();
+
+      getViewState(): ViewState | null {
+        return { heading: this._heading, pitch: this._pitch };
+      }
+    }
+
+    function createViewMap(): MapLibreMap & { setBearing: ReturnType<typeof vi.fn> } {
+      let bearing = 0;
+      return Object.assign(createMockMap(), {
+        getBearing: () => bearing,
+        getPitch: () => 60,
+        setBearing: vi.fn((value: number) => {
+          bearing = value;
+        }),
+      });
+    }
+
+    function getMapHandler(map: MapLibreMap, type: string): () => void {
+      const call = vi.mocked(map.on).mock.calls.find(([event]) => event === type);
+      return call![1] as unknown as () => void;
+    }
+
+    it('turns, tilts and zooms the viewer', async () => {
+      const provider = new TurningProvider('a');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+      control.onAdd(createViewMap());
+      await control.showStreetView([0, 0]);
+
+      control.setHeading(-90).setPitch(120).setZoom(2);
+
+      expect(provider.setHeading).toHaveBeenCalledWith(270);
+      expect(provider.setPitch).toHaveBeenCalledWith(90);
+      expect(provider.setZoom).toHaveBeenCalledWith(2);
+      expect(control.getState()).toMatchObject({ heading: 270, pitch: 90 });
+
+      control.setHeading(270);
+      expect(provider.setHeading).toHaveBeenCalledTimes(1);
+      control.onRemove();
+    });
+
+    it('syncs the viewer with the map bearing and pitch both ways', async () => {
+      const provider = new TurningProvider('a');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a', syncMapView: true });
+      const map = createViewMap();
+      control.onAdd(map);
+      await control.showStreetView([0, 0]);
+
+      expect(map.on).not.toHaveBeenCalledWith('rotate', expect.anything());
+      map.setBearing(45);
+      getMapHandler(map, 'rotateend')();
+      getMapHandler(map, 'pitchend')();
+      expect(provider.setHeading).toHaveBeenCalledWith(45);
+      expect(provider.setPitch).toHaveBeenCalledWith(30);
+      expect(map.setBearing).toHaveBeenCalledTimes(1);
+
+      provider.setHeading(100);
+      expect(map.setBearing).toHaveBeenLastCalledWith(100);
+
+      // The bearing echoed by the map does not turn the viewer again
+      getMapHandler(map, 'rotateend')();
+      getMapHandler(map, 'pitchend')();
+      expect(provider.setHeading).toHaveBeenCalledTimes(2);
+      expect(provider.setPitch).toHaveBeenCalledTimes(1);
+
+      control.setSyncMapView(false);
+      map.setBearing(10);
+      getMapHandler(map, 'rotateend')();
+      expect(provider.setHeading).toHaveBeenCalledTimes(2);
+      control.onRemove();
+    });
+
+    it('turns the map with a Mapillary viewer', async () => {
+      const mapillary = new MapillaryProvider('token');
+      vi.spyOn(mapillary, 'queryImagery').mockImplementation(async (lngLat) => ({
+        id: 'm-1',
+        location: toLngLat(lngLat),
+        provider: 'mapillary',
+      }));
+      const control = new StreetViewControl({ providers: [mapillary], defaultProvider: 'mapillary', syncMapView: true });
+      const map = createViewMap();
+      control.onAdd(map);
+      await control.showStreetView([0, 0]);
+
+      emitMapillaryEvent(vi.mocked(MapillaryViewer).mock.results.length - 1, 'bearing', { bearing: 120 });
+
+      expect(map.setBearing).toHaveBeenCalledWith(120);
+      expect(control.getState().heading).toBe(120);
+      control.onRemove();
+    });
+
+    it('turns the viewer to the map view when sync is enabled', async () => {
+      const provider = new TurningProvider('a');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+      const map = createViewMap();
+      control.onAdd(map);
+      await control.showStreetView([0, 0]);
+      map.setBearing(200);
+
+      control.setSyncMapView(true);
+
+      expect(provider.setHeading).toHaveBeenCalledWith(200);
+      expect(provider.setPitch).toHaveBeenCalledWith(30);
+      control.onRemove();
+    });
+  });
+
+  describe('route drive-through', () => {
+    const route: GeoJSON.Feature<GeoJSON.LineString> = {
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'LineString', coordinates: [[0, 0], [0, 0.0009]] },
+    };
+
+    class RouteProvider extends TestProvider {
+      setHeading = vi.fn();
+      findNearestImagery = vi.fn(async (lngLat: LngLatLike): Promise<ImageryResult | null> => {
+        const { lng, lat } = toLngLat(lngLat);
+        return { id: `step-${lat.toFixed(4)}`, location: new LngLat(lng, lat), provider: this.name };
+      });
+    }
+
+    it('steps through the imagery along the route and emits progress', async () => {
+      vi.useFakeTimers();
+      try {
+        const provider = new RouteProvider('a');
+        const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+        const map = createMockMap();
+        control.onAdd(map);
+        const progress = vi.fn();
+        const end = vi.fn();
+        control.on('routeprogress', (event) => progress(event.route));
+        control.on('routeend', end);
+
+        await control.startRoute(route, { interval: 50, stepDuration: 1000 });
+
+        expect(provider.findNearestImagery).toHaveBeenCalledTimes(1);
+        expect(provider.setHeading).toHaveBeenCalledWith(0);
+        expect(progress).toHaveBeenLastCalledWith(
+          expect.objectContaining({ step: 0, total: 3, playing: true, speed: 1 })
+        );
+        const container = map.getContainer();
+        expect(container.querySelector<HTMLElement>('.streetview-route-controls')?.style.display).toBe('');
+        expect(container.querySelector('.streetview-route-step')?.textContent).toBe('1 / 3');
+
+        control.setRouteSpeed(2);
+        await vi.advanceTimersByTimeAsync(500);
+        expect(control.getRouteProgress()).toMatchObject({ step: 1, imagery: { id: 'step-0.0004' } });
+
+        await vi.advanceTimersByTimeAsync(500);
+        expect(control.getRouteProgress()).toMatchObject({ step: 2, playing: false });
+        expect(provider.render).toHaveBeenCalledTimes(3);
+        expect(end).toHaveBeenCalledTimes(1);
+
+        control.seekRoute(0);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(control.getRouteProgress()?.step).toBe(0);
+        expect(progress).toHaveBeenCalledTimes(4);
+
+        control.stopRoute();
+        expect(control.getRouteProgress()).toBeNull();
+        expect(container.querySelector<HTMLElement>('.streetview-route-controls')?.style.display).toBe('none');
+        control.onRemove();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('emits routeend once when a finished route is stopped', async () => {
+      const provider = new RouteProvider('a');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+      control.onAdd(createMockMap());
+      const end = vi.fn();
+      control.on('routeend', end);
+
+      await control.startRoute([[0, 0]]);
+      expect(end).toHaveBeenCalledTimes(1);
+
+      control.stopRoute();
+      expect(end).toHaveBeenCalledTimes(1);
+      control.onRemove();
+    });
+
+    it('renders each step facing the heading of travel', async () => {
+      class HeadedProvider extends RouteProvider {
+        private _heading = 0;
+        render = vi.fn((_container: HTMLElement, _imagery: ImageryResult, heading?: number) => {
+          this._heading = heading ?? this._heading;
+        });
+
+        getViewState(): ViewState | null {
+          return { heading: this._heading, pitch: 0 };
+        }
+      }
+      const provider = new HeadedProvider('a');
+      const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+      control.onAdd(createMockMap());
+
+      await control.startRoute([[0, 0], [0.0009, 0]], { interval: 50, autoplay: false });
+
+      expect(provider.render).toHaveBeenCalledWith(expect.any(HTMLElement), expect.anything(), 90);
+      expect(provider.setHeading).not.toHaveBeenCalled();
+      control.onRemove();
+    });
+
+    it('pauses when another location is picked', async () => {
+      vi.useFakeTimers();
+      try {
+        const provider = new RouteProvider('a');
+        const control = new StreetViewControl({ providers: [provider], defaultProvider: 'a' });
+        control.onAdd(createMockMap());
+
+        await control.startRoute([[0, 0], [0, 0.0009]], { interval: 50 });
+        await control.showStreetView([1, 1]);
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(control.getRouteProgress()).toMatchObject({ step: 0, playing: false });
+        expect(provider.findNearestImagery).toHaveBeenCalledTimes(1);
+        control.onRemove();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('provider fallback', () => {
+    function imageryAt(provider: string, lng: number, capturedAt?: string): ImageryResult {
+      return {
+        id: `${provider}-1`,
+        location: new LngLat(lng, 0),
+        provider,
+        capturedAt: capturedAt ? new Date(capturedAt) : undefined,
+      };
+    }
+
+    it('shows imagery of the next provider in the fallback order', async () => {
+      const a = new TestProvider('a');
+      const b = new TestProvider('b');
+      const c = new TestProvider('c');
+      vi.spyOn(a, 'queryImagery').mockResolvedValue(null);
+      const queryC = vi.spyOn(c, 'queryImagery');
+      const control = new StreetViewControl({
+        providers: [a, b, c],
+        defaultProvider: 'a',
+        fallbackOrder: ['c', 'b'],
+      });
+      const map = createMockMap();
+      control.onAdd(map);
+      const onProviderChange = vi.fn();
+      control.on('providerchange', onProviderChange);
+
+      await control.showStreetView([0, 0]);
+
+      expect(control.getState().activeProvider).toBe('c');
+      expect(control.getState().imagery?.provider).toBe('c');
+      expect(queryC).toHaveBeenCalledTimes(1);
+      expect(onProviderChange).toHaveBeenCalledTimes(1);
+      const tab = map.getContainer().querySelector('[data-provider="c"]');
+      expect(tab?.classList.contains('active')).toBe(true);
+      expect(map.getContainer().querySelector('.streetview-viewer-notice')?.textContent).toBe(
+        'No A imagery here, showing C'
+      );
+      control.onRemove();
+    });
+
+    it('reports missing coverage of every provider tried', async () => {
+      const a = new TestProvider('a');
+      const b = new TestProvider('b');
+      vi.spyOn(a, 'queryImagery').mockResolvedValue(null);
+      vi.spyOn(b, 'queryImagery').mockResolvedValue(null);
+      const control = new StreetViewControl({ providers: [a, b], defaultProvider: 'a', fallbackOrder: ['b'] });
+      control.onAdd(createMockMap());
+
+      await control.showStreetView([0, 0]);
+
+      expect(control.getState().activeProvider).toBe('a');
+      expect(control.getState().error).toBe('No A or B imagery within 100 m');
+      control.onRemove();
+    });
+
+    it('queries providers in parallel and picks the newest imagery', async () => {
+      const a = new TestProvider('a');
+      const b = new TestProvider('b');
+      vi.spyOn(a, 'queryImagery').mockResolvedValue(imageryAt('a', 0, '2015-06-01'));
+      vi.spyOn(b, 'queryImagery').mockResolvedValue(imageryAt('b', 0.0005, '2023-06-01'));
+      const control = new StreetViewControl({
+        providers: [a, b],
+        defaultProvider: 'a',
+        fallbackOrder: ['b'],
+        fallbackMode: 'parallel',
+        fallbackStrategy: 'newest',
+      });
+      const map = createMockMap();
+      control.onAdd(map);
+
+      await control.showStreetView([0, 0]);
+
+      expect(control.getState().imagery?.id).toBe('b-1');
+      expect(map.getContainer().querySelector('.streetview-viewer-notice')?.textContent).toBe(
+        'Showing B, the newest imagery found'
+      );
+
+      control.updateOptions({ fallbackStrategy: 'closest' });
+      control.setProvider('a');
+      await control.showStreetView([0, 0]);
+      expect(control.getState().imagery?.id).toBe('a-1');
+      control.onRemove();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import { StreetViewMarker } from '../src/lib/components/Marker';
+import { calculateDistance } from '../src/lib/utils/geo';
+
+type ConeFeature = GeoJSON.Feature<GeoJSON.Polygon>;
+
+function createMockMap() {
+  const sources = new Map<string, { data: ConeFeature; setData: (data: ConeFeature) => void }>();
+  const layers = new Map<string, { id: string; paint?: Record<string, unknown> }>();
+  const map = {
+    addSource: vi.fn((id: string, spec: { data: ConeFeature }) => {
+      const source = {
+        data: spec.data,
+        setData: (data: ConeFeature) => {
+          source.data = data;
+        },
+      };
+      sources.set(id, source);
+    }),
+    getSource: (id: string) => sources.get(id),
+    removeSource: vi.fn((id: string) => sources.delete(id)),
+    addLayer: vi.fn((layer: { id: string }) => layers.set(layer.id, layer)),
+    getLayer: (id: string) => layers.get(id),
+    removeLayer: vi.fn((id: string) => layers.delete(id)),
+    setPaintProperty: vi.fn((id: string, property: string, value: unknown) => {
+      const layer = layers.get(id)!;
+      layer.paint = { ...layer.paint, [property]: value };
+    }),
+  };
+  return { map: map as unknown as MapLibreMap, sources, layers };
+}
+
+function getCone(sources: ReturnType<typeof createMockMap>['sources']): GeoJSON.Position[] {
+  const [source] = [...sources.values()];
+  return source.data.geometry.coordinates[0];
+}
+
+describe('StreetViewMarker', () => {
+  describe('view cone', () => {
+    it('is not drawn by default', () => {
+      const { map, sources } = createMockMap();
+      new StreetViewMarker().addTo(map, [0, 0]);
+      expect(sources.size).toBe(0);
+    });
+
+    it('draws a fill layer with the configured style', () => {
+      const { map, layers } = createMockMap();
+      new StreetViewMarker({
+        showViewCone: true,
+        viewConeColor: '#ff0000',
+        viewConeOpacity: 0.5,
+      }).addTo(map, [0, 0]);
+
+      const [layer] = [...layers.values()];
+      expect(layer.paint).toEqual({ 'fill-color': '#ff0000', 'fill-opacity': 0.5 });
+    });
+
+    it('follows the heading and field of view', () => {
+      const { map, sources } = createMockMap();
+      const marker = new StreetViewMarker({ showViewCone: true, viewConeLength: 100 });
+      marker.addTo(map, [0, 0]).setHeading(90).setFieldOfView(60);
+
+      const ring = getCone(sources);
+      const first = ring[1];
+      const last = ring[ring.length - 2];
+      // Edges at 60° and 120°, both east of the marker
+      expect(first[0]).toBeGreaterThan(0);
+      expect(first[1]).toBeGreaterThan(0);
+      expect(last[1]).toBeLessThan(0);
+      expect(calculateDistance([0, 0], first as [number, number])).toBeCloseTo(100, 0);
+    });
+
+    it('shortens when looking up or down', () => {
+      const { map, sources } = createMockMap();
+      const marker = new StreetViewMarker({ showViewCone: true, viewConeLength: 100 });
+      marker.addTo(map, [0, 0]).setPitch(60);
+
+      const edge = getCone(sources)[1] as [number, number];
+      expect(calculateDistance([0, 0], edge)).toBeCloseTo(50, 0);
+    });
+
+    it('applies length, opacity and color changes to the drawn cone', () => {
+      const { map, sources, layers } = createMockMap();
+      const marker = new StreetViewMarker({ showViewCone: true, viewConeLength: 100 }).addTo(map, [0, 0]);
+
+      marker.setViewConeLength(50).setViewConeOpacity(0.6).setViewConeColor('#00ff00');
+
+      expect(calculateDistance([0, 0], getCone(sources)[1] as [number, number])).toBeCloseTo(50, 0);
+      const [layer] = [...layers.values()];
+      expect(layer.paint).toMatchObject({ 'fill-opacity': 0.6, 'fill-color': '#00ff00' });
+    });
+
+    it('is removed with the marker', () => {
+      const { map, sources, layers } = createMockMap();
+      new StreetViewMarker({ showViewCone: true }).addTo(map, [0, 0]).remove();
+      expect(sources.size).toBe(0);
+      expect(layers.size).toBe(0);
+    });
+  });
+
+  describe('snap target', () => {
+    it('links the marker to the target and is removed when cleared', () => {
+      const { map, sources, layers } = createMockMap();
+      const marker = new StreetViewMarker().addTo(map, [0, 0]).setSnapTarget([1, 2]);
+
+      const [source] = [...sources.values()] as unknown as { data: GeoJSON.FeatureCollection }[];
+      expect(source.data.features.map((feature) => feature.geometry)).toEqual([
+        { type: 'LineString', coordinates: [[0, 0], [1, 2]] },
+        { type: 'Point', coordinates: [1, 2] },
+      ]);
+      expect(layers.size).toBe(2);
+
+      marker.setSnapTarget(null);
+      expect(sources.size).toBe(0);
+      expect(layers.size).toBe(0);
+    });
+  });
+});
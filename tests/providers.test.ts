@@ -1,6 +1,17 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LngLat } from 'maplibre-gl';
 import { GoogleStreetViewProvider } from '../src/lib/providers/GoogleStreetViewProvider';
+import { GoogleMapsJsProvider } from '../src/lib/providers/GoogleMapsJsProvider';
 import { MapillaryProvider } from '../src/lib/providers/MapillaryProvider';
+import { KartaViewProvider } from '../src/lib/providers/KartaViewProvider';
+import { PanoramaxProvider } from '../src/lib/providers/PanoramaxProvider';
+import { LocalPanoramaProvider, type PanoramaCatalog } from '../src/lib/providers/LocalPanoramaProvider';
+import { ImageryQueryCache, MemoryImageryCache } from '../src/lib/utils/cache';
+import { AuthError, NetworkError, QuotaExceededError } from '../src/lib/core/errors';
+
+function mockFetchResponse(data: unknown) {
+  return { ok: true, status: 200, json: () => Promise.resolve(data) } as Response;
+}
 
 describe('GoogleStreetViewProvider', () => {
   describe('isConfigured', () => {
@@ -53,6 +64,109 @@ describe('GoogleStreetViewProvider', () => {
     });
   });
 
+  describe('render', () => {
+    it('loads the embed facing the heading passed in', () => {
+      const provider = new GoogleStreetViewProvider('key');
+      const container = document.createElement('div');
+
+      provider.render(container, { id: 'pano', location: new LngLat(0, 0), provider: 'google' }, 90);
+
+      expect(container.querySelector('iframe')?.src).toContain('heading=90');
+      expect(provider.getViewState()?.heading).toBe(90);
+    });
+  });
+
+  describe('server-side signing', () => {
+    beforeEach(() => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue(mockFetchResponse({ status: 'ZERO_RESULTS' }));
+    });
+
+    it('is configured without a key when URLs are signed', () => {
+      const provider = new GoogleStreetViewProvider('', { signUrl: async (url) => url });
+      expect(provider.isConfigured()).toBe(true);
+    });
+
+    it('signs metadata and embed URLs without exposing the key', async () => {
+      const signUrl = vi.fn(async (url: string) => `${url}&key=server&signature=abc`);
+      const provider = new GoogleStreetViewProvider('', { signUrl });
+
+      await provider.queryImagery([-122.4194, 37.7749]);
+      const metadataUrl = vi.mocked(fetch).mock.calls[0][0] as string;
+      expect(signUrl.mock.calls[0][0]).not.toContain('key=');
+      expect(metadataUrl).toContain('signature=abc');
+
+      const embedUrl = await provider.generateSignedEmbedUrl({ lng: 0, lat: 0 }, 90);
+      expect(embedUrl).toContain('heading=90');
+      expect(embedUrl).toContain('signature=abc');
+    });
+
+    it('sends metadata lookups to the proxy endpoint', async () => {
+      const provider = new GoogleStreetViewProvider('', {
+        signUrl: async (url) => url,
+        metadataUrl: 'https://proxy.example.com/streetview/metadata',
+      });
+
+      await provider.queryImagery([-122.4194, 37.7749], 50);
+
+      const url = new URL(vi.mocked(fetch).mock.calls[0][0] as string);
+      expect(url.origin + url.pathname).toBe('https://proxy.example.com/streetview/metadata');
+      expect(url.searchParams.get('radius')).toBe('50');
+      expect(url.searchParams.has('key')).toBe(false);
+    });
+  });
+
+  describe('metadata errors', () => {
+    beforeEach(() => {
+      vi.mocked(fetch).mockReset();
+    });
+
+    it('resolves to null without coverage', async () => {
+      vi.mocked(fetch).mockResolvedValue(mockFetchResponse({ status: 'ZERO_RESULTS' }));
+      const provider = new GoogleStreetViewProvider('key');
+
+      await expect(provider.queryImagery([0, 0])).resolves.toBeNull();
+    });
+
+    it('rejects with typed errors for quota and key problems', async () => {
+      const provider = new GoogleStreetViewProvider('key');
+
+      vi.mocked(fetch).mockResolvedValueOnce(mockFetchResponse({ status: 'OVER_QUERY_LIMIT' }));
+      await expect(provider.queryImagery([0, 0])).rejects.toBeInstanceOf(QuotaExceededError);
+
+      vi.mocked(fetch).mockResolvedValueOnce(
+        mockFetchResponse({ status: 'REQUEST_DENIED', error_message: 'The provided API key is invalid.' })
+      );
+      await expect(provider.queryImagery([1, 1])).rejects.toBeInstanceOf(AuthError);
+    });
+  });
+
+  describe('filters', () => {
+    it('drops panoramas captured outside the date range', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue(
+        mockFetchResponse({ status: 'OK', pano_id: 'pano', date: '2016-05', location: { lat: 0, lng: 0 } })
+      );
+      const provider = new GoogleStreetViewProvider('key');
+
+      await expect(provider.queryImagery([0, 0])).resolves.not.toBeNull();
+      provider.setFilters({ capturedAfter: '2020-01-01' });
+      await expect(provider.queryImagery([0, 0])).resolves.toBeNull();
+    });
+  });
+
+  describe('coverage', () => {
+    it('only shows coverage from a tile URL given by the caller', () => {
+      expect(new GoogleStreetViewProvider('key').getCoverageLayers()).toBeNull();
+
+      const provider = new GoogleStreetViewProvider('key', { coverageTilesUrl: 'https://tiles.example.org/{z}/{x}/{y}.png' });
+      expect(provider.getCoverageLayers()?.sources.coverage).toMatchObject({
+        type: 'raster',
+        tiles: ['https://tiles.example.org/{z}/{x}/{y}.png'],
+      });
+    });
+  });
+
   describe('destroy', () => {
     it('cleans up without error', () => {
       const provider = new GoogleStreetViewProvider('key');
@@ -61,6 +175,126 @@ describe('GoogleStreetViewProvider', () => {
   });
 });
 
+describe('GoogleMapsJsProvider', () => {
+  class FakePanorama {
+    static instances: FakePanorama[] = [];
+    listeners = new Map<string, () => void>();
+    pov = { heading: 0, pitch: 0 };
+    zoom = 1;
+    position = { lat: () => 37.7749, lng: () => -122.4194 };
+
+    constructor(public element: HTMLElement, public options: Record<string, unknown>) {
+      FakePanorama.instances.push(this);
+    }
+
+    addListener(event: string, handler: () => void) {
+      this.listeners.set(event, handler);
+      return { remove: () => this.listeners.delete(event) };
+    }
+
+    getPov() {
+      return this.pov;
+    }
+
+    setPov(pov: { heading: number; pitch: number }) {
+      this.pov = pov;
+      this.listeners.get('pov_changed')?.();
+    }
+
+    getZoom() {
+      return this.zoom;
+    }
+
+    setZoom(zoom: number) {
+      this.zoom = zoom;
+    }
+
+    getPosition() {
+      return this.position;
+    }
+  }
+
+  const imagery = { id: 'pano-1', location: { lng: -122.4194, lat: 37.7749 } as never, provider: 'google' };
+
+  beforeEach(() => {
+    FakePanorama.instances = [];
+    (window as unknown as { google: unknown }).google = { maps: { StreetViewPanorama: FakePanorama } };
+  });
+
+  afterEach(() => {
+    delete (window as unknown as { google?: unknown }).google;
+  });
+
+  it('creates a StreetViewPanorama for the pano id', async () => {
+    const provider = new GoogleMapsJsProvider('key');
+    provider.render(document.createElement('div'), imagery);
+
+    await vi.waitFor(() => expect(FakePanorama.instances).toHaveLength(1));
+    expect(FakePanorama.instances[0].options.pano).toBe('pano-1');
+  });
+
+  it('emits heading and location changes from the panorama', async () => {
+    const provider = new GoogleMapsJsProvider('key');
+    const onHeading = vi.fn();
+    const onLocation = vi.fn();
+    provider.onHeadingChange(onHeading);
+    provider.onLocationChange(onLocation);
+    provider.render(document.createElement('div'), imagery);
+    await vi.waitFor(() => expect(FakePanorama.instances).toHaveLength(1));
+
+    const panorama = FakePanorama.instances[0];
+    panorama.pov = { heading: 135, pitch: 5 };
+    panorama.listeners.get('pov_changed')?.();
+    panorama.listeners.get('position_changed')?.();
+
+    expect(onHeading).toHaveBeenCalledWith(135);
+    expect(onLocation).toHaveBeenCalledWith(expect.objectContaining({ lng: -122.4194, lat: 37.7749 }));
+    expect(provider.getViewState()).toEqual({ heading: 135, pitch: 5, zoom: 1 });
+  });
+
+  it('sets the heading without recreating the panorama', async () => {
+    const provider = new GoogleMapsJsProvider('key');
+    const onHeading = vi.fn();
+    provider.onHeadingChange(onHeading);
+    provider.render(document.createElement('div'), imagery);
+    await vi.waitFor(() => expect(FakePanorama.instances).toHaveLength(1));
+
+    provider.setHeading(90);
+
+    expect(FakePanorama.instances).toHaveLength(1);
+    expect(FakePanorama.instances[0].pov.heading).toBe(90);
+    expect(onHeading).toHaveBeenCalledWith(90);
+  });
+
+  it('removes listeners on destroy', async () => {
+    const provider = new GoogleMapsJsProvider('key');
+    provider.render(document.createElement('div'), imagery);
+    await vi.waitFor(() => expect(FakePanorama.instances).toHaveLength(1));
+
+    provider.destroy();
+
+    expect(FakePanorama.instances[0].listeners.size).toBe(0);
+  });
+
+  // Runs last: the API stays loaded with its key for the rest of the file
+  it('rejects other API keys once the API is loaded', async () => {
+    delete (window as unknown as { google?: unknown }).google;
+    const provider = new GoogleMapsJsProvider('key-a');
+    provider.render(document.createElement('div'), imagery);
+
+    const script = document.head.querySelector<HTMLScriptElement>('script[src*="maps/api/js"]')!;
+    expect(new URL(script.src).searchParams.get('key')).toBe('key-a');
+    expect(() => provider.setCredentials('key-b')).toThrow(AuthError);
+    expect(() => provider.setCredentials('key-a')).not.toThrow();
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    new GoogleMapsJsProvider('key-b').render(document.createElement('div'), imagery);
+    await vi.waitFor(() => expect(consoleError).toHaveBeenCalledWith('Failed to load Google Street View:', expect.any(AuthError)));
+    consoleError.mockRestore();
+    script.remove();
+  });
+});
+
 describe('MapillaryProvider', () => {
   describe('isConfigured', () => {
     it('returns true when access token is provided', () => {
@@ -116,4 +350,569 @@ describe('MapillaryProvider', () => {
       expect(callback).not.toHaveBeenCalled();
     });
   });
+
+  describe('abort signal', () => {
+    beforeEach(() => {
+      vi.mocked(fetch).mockReset();
+    });
+
+    it('passes the signal to fetch and rethrows aborts', async () => {
+      const controller = new AbortController();
+      vi.mocked(fetch).mockImplementation((_url, init) => {
+        expect(init?.signal).toBe(controller.signal);
+        controller.abort();
+        return Promise.reject(new DOMException('Aborted', 'AbortError'));
+      });
+      const provider = new MapillaryProvider('token');
+
+      await expect(provider.findNearestImagery([0, 0], 500, controller.signal)).rejects.toThrow('Aborted');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('access token refresh', () => {
+    beforeEach(() => {
+      vi.mocked(fetch).mockReset();
+    });
+
+    it('fetches a token lazily and refreshes it after a 401', async () => {
+      const getAccessToken = vi.fn().mockResolvedValueOnce('expired').mockResolvedValueOnce('fresh');
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({ ok: false, status: 401, json: () => Promise.resolve({}) } as Response)
+        .mockResolvedValueOnce(mockFetchResponse({ data: [] }));
+      const provider = new MapillaryProvider('', { getAccessToken });
+
+      expect(provider.isConfigured()).toBe(true);
+      expect(getAccessToken).not.toHaveBeenCalled();
+
+      await expect(provider.queryImagery([0, 0])).resolves.toBeNull();
+
+      expect(getAccessToken).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(fetch).mock.calls[0][0]).toContain('access_token=expired');
+      expect(vi.mocked(fetch).mock.calls[1][0]).toContain('access_token=fresh');
+    });
+
+    it('pushes a new token into the live viewer', () => {
+      const provider = new MapillaryProvider('old');
+      provider.render(document.createElement('div'), { id: '1', location: new LngLat(0, 0), provider: 'mapillary' });
+
+      provider.setAccessToken('new');
+
+      expect(provider.getViewer()?.setAccessToken).toHaveBeenCalledWith('new');
+      provider.destroy();
+    });
+
+    it('builds the coverage tiles once the callback returned a token', async () => {
+      const getAccessToken = vi.fn().mockResolvedValueOnce('fetched').mockResolvedValueOnce('fresh');
+      const provider = new MapillaryProvider('', { getAccessToken });
+      const onCoverageChange = vi.fn();
+      provider.onCoverageChange(onCoverageChange);
+
+      expect(provider.getCoverageLayers()).toBeNull();
+      await vi.waitFor(() => expect(onCoverageChange).toHaveBeenCalledTimes(1));
+      expect(provider.getCoverageLayers()?.sources.coverage).toMatchObject({
+        tiles: [expect.stringContaining('access_token=fetched')],
+      });
+
+      provider.setAccessToken('fresh');
+
+      expect(onCoverageChange).toHaveBeenCalledTimes(2);
+      expect(provider.getCoverageLayers()?.sources.coverage).toMatchObject({
+        tiles: [expect.stringContaining('access_token=fresh')],
+      });
+    });
+  });
+
+  describe('view control', () => {
+    function renderViewer(cameraType: string) {
+      const provider = new MapillaryProvider('token');
+      provider.render(document.createElement('div'), { id: '1', location: new LngLat(0, 0), provider: 'mapillary' });
+      const viewer = Object.assign(provider.getViewer()!, {
+        getImage: vi.fn().mockResolvedValue({ cameraType }),
+        getPointOfView: vi.fn().mockResolvedValue({ bearing: 350, tilt: 0 }),
+        getCenter: vi.fn().mockResolvedValue([0.5, 0.5]),
+        setCenter: vi.fn(),
+        setZoom: vi.fn(),
+      });
+      return { provider, viewer };
+    }
+
+    it('turns and tilts spherical images relative to the current point of view', async () => {
+      const { provider, viewer } = renderViewer('spherical');
+
+      await provider.setHeading(20);
+      expect(viewer.setCenter.mock.calls[0][0][0]).toBeCloseTo(0.5 + 30 / 360);
+      expect(viewer.setCenter.mock.calls[0][0][1]).toBe(0.5);
+
+      await provider.setPitch(45);
+      expect(viewer.setCenter).toHaveBeenLastCalledWith([0.5, 0.25]);
+      provider.destroy();
+    });
+
+    it('reports the pitch and zoom that were set', async () => {
+      const { provider, viewer } = renderViewer('spherical');
+
+      const pitched = provider.setPitch(30);
+      provider.setZoom(2);
+      expect(provider.getViewState()).toMatchObject({ pitch: 30, zoom: 2 });
+      await pitched;
+
+      expect(viewer.setZoom).toHaveBeenCalledWith(2);
+      expect(provider.getViewState()).toMatchObject({ pitch: 30, zoom: 2 });
+      provider.destroy();
+    });
+
+    it('leaves flat images as they are', async () => {
+      const { provider, viewer } = renderViewer('perspective');
+
+      await provider.setHeading(20);
+      await provider.setPitch(30);
+
+      expect(viewer.setCenter).not.toHaveBeenCalled();
+      expect(provider.getViewState()?.pitch).toBe(0);
+      provider.destroy();
+    });
+  });
+
+  describe('graph errors', () => {
+    it('maps OAuth errors to AuthError', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue({
+        ok: false,
+        status: 400,
+        json: () => Promise.resolve({ error: { message: 'Invalid OAuth access token', type: 'OAuthException', code: 190 } }),
+      } as Response);
+      const provider = new MapillaryProvider('token');
+
+      await expect(provider.queryImagery([0, 0])).rejects.toBeInstanceOf(AuthError);
+    });
+  });
+
+  describe('filters', () => {
+    const images = [
+      {
+        id: 'old',
+        computed_geometry: { type: 'Point', coordinates: [0, 0] },
+        captured_at: Date.UTC(2015, 5, 1),
+        quality_score: 0.4,
+      },
+      {
+        id: 'new',
+        computed_geometry: { type: 'Point', coordinates: [0.0002, 0] },
+        captured_at: Date.UTC(2022, 5, 1),
+        quality_score: 0.9,
+      },
+    ];
+
+    it('lists the images of all dates near a location', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue(mockFetchResponse({ data: images }));
+      const provider = new MapillaryProvider('token');
+
+      const history = await provider.queryHistory([0, 0]);
+
+      expect(history.map((imagery) => imagery.id)).toEqual(['old', 'new']);
+    });
+
+    it('filters requests and results by capture date', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue(mockFetchResponse({ data: images }));
+      const provider = new MapillaryProvider('token');
+      provider.setFilters({ capturedAfter: '2020-01-01' });
+
+      const imagery = await provider.queryImagery([0, 0]);
+
+      expect(imagery?.id).toBe('new');
+      const url = new URL(String(vi.mocked(fetch).mock.calls[0][0]));
+      expect(url.searchParams.get('start_captured_at')).toBe(new Date(2020, 0, 1).toISOString());
+      expect(url.searchParams.has('end_captured_at')).toBe(false);
+    });
+
+    it('sends panorama, creator and organization filters and checks quality scores', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue(mockFetchResponse({ data: images }));
+      const provider = new MapillaryProvider('token');
+      provider.setFilters({ excludePano: true, creatorId: 'c1', organizationId: 'o1', minQualityScore: 0.5 });
+
+      const history = await provider.queryHistory([0, 0]);
+
+      const url = new URL(String(vi.mocked(fetch).mock.calls[0][0]));
+      expect(url.searchParams.get('is_pano')).toBe('false');
+      expect(url.searchParams.get('creator_id')).toBe('c1');
+      expect(url.searchParams.get('organization_id')).toBe('o1');
+      // Neither image reports its creator, and the old one is below the quality threshold
+      expect(history).toEqual([]);
+
+      provider.setFilters({ minQualityScore: 0.5 });
+      expect((await provider.queryHistory([0, 0])).map((imagery) => imagery.id)).toEqual(['new']);
+    });
+
+    it('caches lookups per set of filters', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue(mockFetchResponse({ data: images }));
+      const provider = new MapillaryProvider('token');
+      provider.setCache(new ImageryQueryCache());
+
+      expect((await provider.queryImagery([0, 0]))?.id).toBe('old');
+      provider.setFilters({ capturedAfter: '2020-01-01' });
+      expect((await provider.queryImagery([0, 0]))?.id).toBe('new');
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cache', () => {
+    it('reuses cached lookups for the same location and radius', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue(mockFetchResponse({ data: [] }));
+      const provider = new MapillaryProvider('token');
+      provider.setCache(new ImageryQueryCache());
+
+      await provider.findNearestImagery([0, 0], 100);
+      await provider.findNearestImagery([0, 0], 100);
+
+      // One request per radius, the second search is served from the cache
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('downloads thumbnails for the cache through the transport', async () => {
+      const transport = vi.fn().mockResolvedValue({ ok: true, status: 200, blob: () => Promise.resolve(new Blob()) });
+      const cache = new ImageryQueryCache();
+      const setThumbnailLoader = vi.spyOn(cache, 'setThumbnailLoader');
+      const provider = new MapillaryProvider('token');
+      provider.setRequestPolicy({ retry: null, rateLimiter: null, transport });
+
+      provider.setCache(cache);
+      await setThumbnailLoader.mock.calls[0][1]?.('https://example.com/thumb.jpg');
+
+      expect(transport).toHaveBeenCalledWith('https://example.com/thumb.jpg', expect.any(Object));
+    });
+
+    it('lists the history from the search that found the imagery', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue(
+        mockFetchResponse({
+          data: [{ id: 'img', computed_geometry: { type: 'Point', coordinates: [0, 0] }, captured_at: 1500000000000 }],
+        })
+      );
+      const provider = new MapillaryProvider('token');
+      provider.setCache(new ImageryQueryCache());
+
+      await provider.queryImagery([0, 0]);
+      const history = await provider.queryHistory([0, 0]);
+
+      expect(history.map((imagery) => imagery.id)).toEqual(['img']);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps widening the search offline to find imagery stored further away', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockRejectedValue(new TypeError('Failed to fetch'));
+      const stored = { id: 'stored', location: new LngLat(0.002, 0), provider: 'mapillary' };
+      // The stored imagery is about 220 m away
+      const findStale = vi.fn(async (_provider: string, _lngLat: unknown, radius: number) => (radius >= 250 ? stored : undefined));
+      const provider = new MapillaryProvider('token');
+      provider.setCache(new ImageryQueryCache(Object.assign(new MemoryImageryCache(), { findStale })));
+
+      const result = await provider.findNearestImagery([0, 0], 500);
+
+      expect(findStale.mock.calls.map(([, , radius]) => radius)).toEqual([50, 100, 250]);
+      expect(result).toMatchObject({ id: 'stored', stale: true });
+      await expect(provider.findNearestImagery([0, 0], 100)).rejects.toBeInstanceOf(NetworkError);
+    });
+  });
+});
+
+describe('KartaViewProvider', () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+  });
+
+  it('is configured without credentials', () => {
+    const provider = new KartaViewProvider();
+    expect(provider.isConfigured()).toBe(true);
+    expect(provider.name).toBe('kartaview');
+    expect(provider.displayName).toBe('KartaView');
+  });
+
+  describe('queryImagery', () => {
+    it('returns the closest nearby photo', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        mockFetchResponse({
+          currentPageItems: [
+            { id: '1', sequence_id: '10', sequence_index: '0', lat: '0.001', lng: '0.001', heading: '90', lth_name: 'files/far.jpg' },
+            { id: '2', sequence_id: '10', sequence_index: '1', lat: '0.0001', lng: '0', heading: '45', lth_name: 'files/near.jpg' },
+          ],
+        })
+      );
+
+      const provider = new KartaViewProvider();
+      const result = await provider.queryImagery([0, 0], 50);
+
+      expect(result?.id).toBe('2');
+      expect(result?.heading).toBe(45);
+      expect(result?.sequenceId).toBe('10');
+      expect(result?.thumbnailUrl).toBe('https://api.openstreetcam.org/files/near.jpg');
+
+      const [url, init] = vi.mocked(fetch).mock.calls[0];
+      expect(url).toBe('https://api.openstreetcam.org/1.0/list/nearby-photos/');
+      expect(init?.method).toBe('POST');
+      expect(String(init?.body)).toContain('radius=50');
+    });
+
+    it('returns null when there are no photos', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(mockFetchResponse({ currentPageItems: [] }));
+
+      const provider = new KartaViewProvider();
+      expect(await provider.queryImagery([0, 0])).toBe(null);
+    });
+  });
+
+  describe('sequence navigation', () => {
+    it('steps through sequence photos and emits changes', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        mockFetchResponse({
+          result: {
+            data: [
+              { id: '2', sequenceId: '10', sequenceIndex: '1', lat: '0.0001', lng: '0', heading: '45', fileurlLTh: 'https://cdn/2.jpg' },
+              { id: '1', sequenceId: '10', sequenceIndex: '0', lat: '0', lng: '0', heading: '40', fileurlLTh: 'https://cdn/1.jpg' },
+            ],
+          },
+        })
+      );
+
+      const provider = new KartaViewProvider();
+      const onLocation = vi.fn();
+      const onHeading = vi.fn();
+      provider.onLocationChange(onLocation);
+      provider.onHeadingChange(onHeading);
+
+      const container = document.createElement('div');
+      provider.render(container, {
+        id: '1',
+        location: { lng: 0, lat: 0 } as never,
+        provider: 'kartaview',
+        heading: 40,
+        sequenceId: '10',
+        thumbnailUrl: 'https://cdn/1.jpg',
+      });
+
+      await vi.waitFor(() => {
+        const next = container.querySelector<HTMLButtonElement>('.streetview-photo-viewer-next');
+        expect(next?.disabled).toBe(false);
+      });
+
+      provider.next();
+
+      expect(provider.getCurrentImagery()?.id).toBe('2');
+      expect(onLocation).toHaveBeenCalledWith(expect.objectContaining({ lat: 0.0001 }));
+      expect(onHeading).toHaveBeenLastCalledWith(45);
+      expect(container.querySelector('img')?.getAttribute('src')).toBe('https://cdn/2.jpg');
+    });
+
+    it('pages through long sequences', async () => {
+      const photo = (index: number) => ({ id: String(index), sequenceId: '10', sequenceIndex: String(index), lat: '0', lng: '0' });
+      const firstPage = Array.from({ length: 1000 }, (_, index) => photo(index));
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(mockFetchResponse({ result: { data: firstPage, hasMoreData: true } }))
+        .mockResolvedValueOnce(mockFetchResponse({ result: { data: [photo(1000)], hasMoreData: false } }));
+
+      const sequence = await new KartaViewProvider().getSequence('10');
+
+      expect(sequence).toHaveLength(1001);
+      expect(sequence[1000].id).toBe('1000');
+      expect(vi.mocked(fetch).mock.calls[0][0]).toContain('page=1&itemsPerPage=1000');
+      expect(vi.mocked(fetch).mock.calls[1][0]).toContain('page=2&itemsPerPage=1000');
+    });
+
+    it('rejects sequence errors and keeps the single photo displayed', async () => {
+      vi.mocked(fetch).mockResolvedValue({ ok: false, status: 401, json: () => Promise.resolve({}) } as Response);
+      const provider = new KartaViewProvider();
+      await expect(provider.getSequence('10')).rejects.toBeInstanceOf(AuthError);
+
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const container = document.createElement('div');
+      provider.render(container, {
+        id: '1',
+        location: { lng: 0, lat: 0 } as never,
+        provider: 'kartaview',
+        sequenceId: '10',
+        thumbnailUrl: 'https://cdn/1.jpg',
+      });
+
+      await vi.waitFor(() => expect(consoleError).toHaveBeenCalled());
+      expect(container.querySelector('img')?.getAttribute('src')).toBe('https://cdn/1.jpg');
+      consoleError.mockRestore();
+    });
+
+    it('aborts the sequence request on destroy', async () => {
+      vi.mocked(fetch).mockReturnValueOnce(new Promise(() => {}));
+      const provider = new KartaViewProvider();
+      provider.render(document.createElement('div'), {
+        id: '1',
+        location: { lng: 0, lat: 0 } as never,
+        provider: 'kartaview',
+        sequenceId: '10',
+      });
+
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+      const signal = vi.mocked(fetch).mock.calls[0][1]?.signal;
+      expect(signal?.aborted).toBe(false);
+      provider.destroy();
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+});
+
+describe('PanoramaxProvider', () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+  });
+
+  it('uses configurable name and display name', () => {
+    const provider = new PanoramaxProvider({ baseUrl: 'https://pano.example.org/', name: 'city', displayName: 'City' });
+    expect(provider.name).toBe('city');
+    expect(provider.displayName).toBe('City');
+    expect(provider.isConfigured()).toBe(true);
+  });
+
+  it('queries the STAC search endpoint with a bbox', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(
+      mockFetchResponse({
+        type: 'FeatureCollection',
+        features: [
+          {
+            id: 'pic-1',
+            collection: 'seq-1',
+            geometry: { type: 'Point', coordinates: [2.0001, 48] },
+            properties: {
+              datetime: '2023-05-01T10:00:00Z',
+              'view:azimuth': 120,
+              'pers:interior_orientation': { field_of_view: 360 },
+            },
+            assets: { hd: { href: 'https://pano.example.org/hd.jpg' }, thumb: { href: 'https://pano.example.org/t.jpg' } },
+          },
+        ],
+      })
+    );
+
+    const provider = new PanoramaxProvider({ baseUrl: 'https://pano.example.org/' });
+    const result = await provider.queryImagery([2, 48], 50);
+
+    const url = new URL(String(vi.mocked(fetch).mock.calls[0][0]));
+    expect(url.origin + url.pathname).toBe('https://pano.example.org/api/search');
+    expect(url.searchParams.get('bbox')?.split(',')).toHaveLength(4);
+
+    expect(result).toMatchObject({
+      id: 'pic-1',
+      provider: 'panoramax',
+      heading: 120,
+      isPano: true,
+      imageUrl: 'https://pano.example.org/hd.jpg',
+      thumbnailUrl: 'https://pano.example.org/t.jpg',
+      sequenceId: 'seq-1',
+    });
+    expect(result?.capturedAt?.toISOString()).toBe('2023-05-01T10:00:00.000Z');
+  });
+
+  it('searches capture dates server-side', async () => {
+    vi.mocked(fetch).mockResolvedValue(mockFetchResponse({ type: 'FeatureCollection', features: [] }));
+    const provider = new PanoramaxProvider({ baseUrl: 'https://pano.example.org' });
+
+    await provider.queryImagery([2, 48]);
+    expect(new URL(String(vi.mocked(fetch).mock.calls[0][0])).searchParams.has('datetime')).toBe(false);
+
+    provider.setFilters({ capturedAfter: '2020-01-01T00:00:00Z' });
+    await provider.queryImagery([2, 48]);
+    expect(new URL(String(vi.mocked(fetch).mock.calls[1][0])).searchParams.get('datetime')).toBe(
+      '2020-01-01T00:00:00.000Z/..'
+    );
+
+    provider.setFilters({ capturedAfter: '2020-01-01', capturedBefore: '2020-12-31' });
+    await provider.queryImagery([2, 48]);
+    expect(new URL(String(vi.mocked(fetch).mock.calls[2][0])).searchParams.get('datetime')).toBe(
+      `${new Date(2020, 0, 1).toISOString()}/${new Date(2021, 0, 1, 0, 0, 0, -1).toISOString()}`
+    );
+  });
+
+  it('renders 360 pictures in the panorama viewer and flat ones in the photo viewer', () => {
+    const provider = new PanoramaxProvider({ baseUrl: 'https://pano.example.org' });
+    const container = document.createElement('div');
+    const base = { location: { lng: 0, lat: 0 } as never, provider: 'panoramax', imageUrl: 'https://x/y.jpg' };
+
+    provider.render(container, { ...base, id: 'a', isPano: true });
+    expect(container.querySelector('.streetview-panorama-viewer')).not.toBe(null);
+
+    provider.render(container, { ...base, id: 'b', isPano: false });
+    expect(container.querySelector('.streetview-panorama-viewer')).toBe(null);
+    expect(container.querySelector('.streetview-photo-viewer img')?.getAttribute('src')).toBe('https://x/y.jpg');
+  });
+});
+
+describe('LocalPanoramaProvider', () => {
+  const catalog: PanoramaCatalog = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        id: 'a',
+        geometry: { type: 'Point', coordinates: [0, 0] },
+        properties: { image_url: 'https://cdn/a.jpg', heading: 10, captured_at: '2024-01-01' },
+      },
+      {
+        type: 'Feature',
+        id: 'b',
+        geometry: { type: 'Point', coordinates: [0.0005, 0] },
+        properties: { image_url: 'https://cdn/b.jpg', heading: 20 },
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+  });
+
+  it('returns the closest panorama within the radius', async () => {
+    const provider = new LocalPanoramaProvider({ catalog });
+
+    const result = await provider.queryImagery([0.0004, 0], 50);
+    expect(result?.id).toBe('b');
+    expect(result?.imageUrl).toBe('https://cdn/b.jpg');
+    expect(result?.isPano).toBe(true);
+  });
+
+  it('returns null outside the radius and finds it with a larger one', async () => {
+    const provider = new LocalPanoramaProvider({ catalog });
+
+    expect(await provider.queryImagery([0.002, 0], 50)).toBe(null);
+    expect((await provider.findNearestImagery([0.002, 0], 200))?.id).toBe('b');
+  });
+
+  it('loads the catalog from a URL once and resolves relative image URLs', async () => {
+    vi.mocked(fetch).mockResolvedValue(
+      mockFetchResponse({
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', geometry: { type: 'Point', coordinates: [0, 0] }, properties: { image_url: 'img/a.jpg' } }],
+      })
+    );
+    const provider = new LocalPanoramaProvider({ catalog: 'https://data.example.org/panos/catalog.geojson' });
+
+    const result = await provider.queryImagery([0, 0]);
+    await provider.queryImagery([0, 0]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result?.imageUrl).toBe('https://data.example.org/panos/img/a.jpg');
+  });
+
+  it('renders the panorama viewer and emits the initial heading', () => {
+    const provider = new LocalPanoramaProvider({ catalog });
+    const onHeading = vi.fn();
+    provider.onHeadingChange(onHeading);
+
+    const container = document.createElement('div');
+    provider.render(container, { id: 'a', location: { lng: 0, lat: 0 } as never, provider: 'local', imageUrl: 'https://cdn/a.jpg', heading: 10 });
+
+    expect(container.querySelector('.streetview-panorama-viewer')).not.toBe(null);
+    expect(onHeading).toHaveBeenCalledWith(10);
+    expect(provider.getViewState()?.heading).toBe(10);
+  });
 });
@@ -25,6 +25,9 @@ vi.mock('maplibre-gl', () => ({
     setLngLat: vi.fn().mockReturnThis(),
     addTo: vi.fn().mockReturnThis(),
     remove: vi.fn().mockReturnThis(),
+    on: vi.fn().mockReturnThis(),
+    setDraggable: vi.fn().mockReturnThis(),
+    getLngLat: vi.fn().mockReturnValue({ lng: 0, lat: 0 }),
     getElement: vi.fn().mockReturnValue(document.createElement('div')),
   })),
 }));
@@ -38,6 +41,7 @@ vi.mock('mapillary-js', () => ({
     moveTo: vi.fn().mockResolvedValue(undefined),
     getPointOfView: vi.fn().mockReturnValue({ bearing: 0, tilt: 0, zoom: 1 }),
     setPointOfView: vi.fn().mockResolvedValue(undefined),
+    setAccessToken: vi.fn().mockResolvedValue(undefined),
   })),
 }));
 
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import {
   clamp,
   generateId,
@@ -6,14 +6,24 @@ import {
   classNames,
   debounce,
   throttle,
+  zoomToFieldOfView,
 } from '../src/lib/utils/helpers';
 import {
   createBbox,
   calculateDistance,
   calculateBearing,
   bboxToString,
+  destinationPoint,
+  createGrid,
+  sampleLine,
 } from '../src/lib/utils/geo';
-import { buildUrl } from '../src/lib/utils/api';
+import { getDateRangeBounds, isInDateRange, parseDate, toDateKey } from '../src/lib/utils/dates';
+import { matchesFilters, getFiltersKey } from '../src/lib/utils/filters';
+import { buildUrl, fetchJson, getRetryDelay } from '../src/lib/utils/api';
+import { TokenBucket } from '../src/lib/utils/rateLimit';
+import { MemoryImageryCache, ImageryQueryCache } from '../src/lib/utils/cache';
+import { NetworkError, AuthError, QuotaExceededError } from '../src/lib/core/errors';
+import type { ImageryResult } from '../src/lib/core/types';
 
 describe('helpers', () => {
   describe('clamp', () => {
@@ -62,6 +72,18 @@ describe('helpers', () => {
     });
   });
 
+  describe('zoomToFieldOfView', () => {
+    it('halves the field of view per zoom level', () => {
+      expect(zoomToFieldOfView(1)).toBe(90);
+      expect(zoomToFieldOfView(2)).toBe(45);
+    });
+
+    it('stays within a valid range', () => {
+      expect(zoomToFieldOfView(-2)).toBe(180);
+      expect(zoomToFieldOfView(20)).toBe(1);
+    });
+  });
+
   describe('classNames', () => {
     it('joins active class names', () => {
       const result = classNames({
@@ -120,6 +142,52 @@ describe('helpers', () => {
 });
 
 describe('geo utilities', () => {
+  describe('createGrid', () => {
+    it('covers the bounding box at the given spacing', () => {
+      const points = createGrid(createBbox([0, 0], 100), 100);
+      expect(points).toHaveLength(9);
+      expect(points[0].lng).toBeCloseTo(createBbox([0, 0], 100).minLng, 9);
+      expect(calculateDistance(points[0], points[1])).toBeCloseTo(100, 0);
+      expect(calculateDistance(points[4], [0, 0])).toBeLessThan(0.01);
+    });
+  });
+
+  describe('sampleLine', () => {
+    it('samples the line at the interval and keeps both ends', () => {
+      const end = destinationPoint([0, 0], 250, 90);
+      const points = sampleLine([[0, 0], end], 100);
+
+      expect(points).toHaveLength(4);
+      expect(calculateDistance(points[0], [0, 0])).toBe(0);
+      expect(calculateDistance(points[1], [0, 0])).toBeCloseTo(100, 0);
+      expect(calculateDistance(points[2], [0, 0])).toBeCloseTo(200, 0);
+      expect(points[3]).toEqual(end);
+    });
+
+    it('carries the distance over corners', () => {
+      const corner = destinationPoint([0, 0], 150, 0);
+      const end = destinationPoint(corner, 150, 90);
+      const points = sampleLine([[0, 0], corner, end], 100);
+
+      expect(points).toHaveLength(4);
+      expect(calculateDistance(points[2], corner)).toBeCloseTo(50, 0);
+      expect(calculateDistance(points[3], end)).toBeLessThan(0.01);
+    });
+  });
+
+  describe('destinationPoint', () => {
+    it('moves north along the meridian', () => {
+      const point = destinationPoint([0, 0], 1000, 0);
+      expect(point.lng).toBeCloseTo(0, 6);
+      expect(calculateDistance([0, 0], point)).toBeCloseTo(1000, 0);
+    });
+
+    it('keeps the requested bearing', () => {
+      const point = destinationPoint([-74.006, 40.7128], 500, 135);
+      expect(calculateBearing([-74.006, 40.7128], point)).toBeCloseTo(135, 1);
+    });
+  });
+
   describe('createBbox', () => {
     it('creates bounding box around a point', () => {
       const bbox = createBbox({ lng: 0, lat: 0 }, 100);
@@ -185,6 +253,66 @@ describe('geo utilities', () => {
   });
 });
 
+describe('date utilities', () => {
+  it('has no bounds without a range', () => {
+    expect(getDateRangeBounds(null)).toBeNull();
+    expect(getDateRangeBounds({})).toBeNull();
+    expect(isInDateRange(undefined, null)).toBe(true);
+  });
+
+  it('includes the whole end day of date-only ranges', () => {
+    const range = { start: '2020-01-01', end: '2020-12-31' };
+
+    expect(isInDateRange(new Date(2020, 11, 31, 23, 30), range)).toBe(true);
+    expect(isInDateRange(new Date(2021, 0, 1), range)).toBe(false);
+    expect(isInDateRange(new Date(2019, 11, 31, 23, 30), range)).toBe(false);
+  });
+
+  it('reads date-only strings as the local days of toDateKey', () => {
+    const capturedAt = new Date(2020, 0, 1, 0, 30);
+
+    expect(parseDate('2020-01-01')).toEqual(new Date(2020, 0, 1));
+    expect(parseDate('2020-01-01T00:00:00Z')).toEqual(new Date(Date.UTC(2020, 0, 1)));
+    expect(toDateKey(capturedAt)).toBe('2020-01-01');
+    expect(isInDateRange(capturedAt, { start: '2020-01-01', end: '2020-01-01' })).toBe(true);
+  });
+
+  it('leaves open ends unbounded and excludes undated imagery', () => {
+    const range = { start: new Date('2020-01-01T00:00:00Z') };
+
+    expect(isInDateRange(new Date('2030-01-01T00:00:00Z'), range)).toBe(true);
+    expect(isInDateRange(undefined, range)).toBe(false);
+  });
+
+  it('formats local calendar days', () => {
+    expect(toDateKey(new Date(2021, 2, 5, 23, 30))).toBe('2021-03-05');
+  });
+});
+
+describe('filter utilities', () => {
+  const imagery: ImageryResult = {
+    id: '1',
+    location: { lng: 0, lat: 0 } as ImageryResult['location'],
+    provider: 'google',
+    capturedAt: new Date('2021-05-01T00:00:00Z'),
+    isPano: true,
+  };
+
+  it('matches capture date and panorama filters', () => {
+    expect(matchesFilters(imagery, {})).toBe(true);
+    expect(matchesFilters(imagery, { capturedAfter: '2021-06-01' })).toBe(false);
+    expect(matchesFilters(imagery, { capturedBefore: '2021-05-01', panoOnly: true })).toBe(true);
+    expect(matchesFilters(imagery, { excludePano: true })).toBe(false);
+  });
+
+  it('serializes filters independent of their order', () => {
+    expect(getFiltersKey({})).toBe('');
+    expect(getFiltersKey({ panoOnly: true, capturedAfter: new Date('2020-01-01T00:00:00Z') })).toBe(
+      getFiltersKey({ capturedAfter: new Date('2020-01-01T00:00:00Z'), panoOnly: true, excludePano: false })
+    );
+  });
+});
+
 describe('api utilities', () => {
   describe('buildUrl', () => {
     it('builds URL with query parameters', () => {
@@ -209,4 +337,274 @@ describe('api utilities', () => {
       expect(url).not.toContain('empty');
     });
   });
+
+  describe('fetchJson', () => {
+    it('maps HTTP status codes to typed errors', async () => {
+      const respond = (status: number, headers: Record<string, string> = {}) =>
+        vi.mocked(fetch).mockResolvedValueOnce({
+          ok: false,
+          status,
+          headers: new Headers(headers),
+          json: () => Promise.resolve({}),
+        } as Response);
+
+      respond(401);
+      await expect(fetchJson('https://example.com')).rejects.toBeInstanceOf(AuthError);
+      respond(429, { 'Retry-After': '30' });
+      await expect(fetchJson('https://example.com')).rejects.toMatchObject({
+        name: 'QuotaExceededError',
+        retryAfter: 30,
+      });
+      respond(503);
+      await expect(fetchJson('https://example.com')).rejects.toBeInstanceOf(NetworkError);
+      respond(404);
+      await expect(fetchJson('https://example.com')).rejects.toMatchObject({ name: 'StreetViewError', status: 404 });
+    });
+
+    it('reports failed requests as network errors', async () => {
+      vi.mocked(fetch).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      await expect(fetchJson('https://example.com')).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('retries server errors and honours Retry-After', async () => {
+      vi.useFakeTimers();
+      const random = vi.spyOn(Math, 'random').mockReturnValue(1);
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({ ok: false, status: 503, json: () => Promise.resolve({}) } as Response)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'Retry-After': '2' }),
+          json: () => Promise.resolve({}),
+        } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({ ok: 1 }) } as Response);
+
+      const result = fetchJson('https://example.com', { retry: { retries: 3, baseDelay: 100 } });
+      await vi.advanceTimersByTimeAsync(100);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(result).resolves.toEqual({ ok: 1 });
+      expect(fetch).toHaveBeenCalledTimes(3);
+      random.mockRestore();
+      vi.useRealTimers();
+    });
+
+    it('does not retry client errors', async () => {
+      vi.mocked(fetch).mockReset();
+      vi.mocked(fetch).mockResolvedValue({ ok: false, status: 403, json: () => Promise.resolve({}) } as Response);
+
+      await expect(fetchJson('https://example.com', { retry: { retries: 3 } })).rejects.toBeInstanceOf(AuthError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('uses jittered exponential backoff capped at maxDelay', () => {
+      const random = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const options = { baseDelay: 100, maxDelay: 1000 };
+
+      expect(getRetryDelay(new NetworkError('down'), 0, options)).toBe(50);
+      expect(getRetryDelay(new NetworkError('down'), 2, options)).toBe(200);
+      expect(getRetryDelay(new NetworkError('down'), 10, options)).toBe(500);
+      random.mockRestore();
+    });
+
+    it('gives up when Retry-After exceeds maxDelay', () => {
+      expect(getRetryDelay(new QuotaExceededError('slow down', { retryAfter: 5 }), 0, { maxDelay: 10000 })).toBe(5000);
+      expect(getRetryDelay(new QuotaExceededError('slow down', { retryAfter: 60 }), 0, { maxDelay: 10000 })).toBeNull();
+      expect(getRetryDelay(new AuthError('denied'), 0)).toBeNull();
+    });
+
+    it('does not retry network errors while offline', () => {
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      expect(getRetryDelay(new NetworkError('down'), 0)).toBeNull();
+      expect(getRetryDelay(new QuotaExceededError('slow down', { retryAfter: 1 }), 0)).toBe(1000);
+      onLine.mockRestore();
+    });
+  });
+
+  describe('TokenBucket', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('allows a burst, then spaces requests at the rate', async () => {
+      vi.useFakeTimers();
+      const bucket = new TokenBucket({ requestsPerSecond: 2, burst: 2 });
+
+      await bucket.acquire();
+      await bucket.acquire();
+      expect(bucket.tryAcquire()).toBe(false);
+
+      const resolved = vi.fn();
+      bucket.acquire().then(resolved);
+      await vi.advanceTimersByTimeAsync(499);
+      expect(resolved).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1);
+      expect(resolved).toHaveBeenCalled();
+    });
+
+    it('returns the token when waiting is aborted', async () => {
+      vi.useFakeTimers();
+      const bucket = new TokenBucket({ requestsPerSecond: 1, burst: 1 });
+      await bucket.acquire();
+
+      const controller = new AbortController();
+      const waiting = bucket.acquire(controller.signal);
+      controller.abort();
+
+      await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+      expect(bucket.available).toBe(0);
+    });
+  });
+});
+
+describe('imagery cache', () => {
+  const imagery = (id: string): ImageryResult => ({
+    id,
+    location: { lng: 0, lat: 0 } as ImageryResult['location'],
+    provider: 'test',
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('MemoryImageryCache', () => {
+    it('evicts the least recently used entry', () => {
+      const cache = new MemoryImageryCache({ maxEntries: 2 });
+      cache.set('a', imagery('a'));
+      cache.set('b', null);
+      cache.get('a');
+      cache.set('c', imagery('c'));
+
+      expect(cache.get('a')?.id).toBe('a');
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.size).toBe(2);
+    });
+
+    it('expires entries after the time to live', () => {
+      vi.useFakeTimers();
+      const cache = new MemoryImageryCache({ ttl: 1000 });
+      cache.set('a', null);
+
+      expect(cache.get('a')).toBeNull();
+      vi.advanceTimersByTime(1001);
+      expect(cache.get('a')).toBeUndefined();
+    });
+  });
+
+  describe('ImageryQueryCache', () => {
+    it('rounds locations in keys', () => {
+      const cache = new ImageryQueryCache();
+      expect(cache.getKey('mapillary', [1.0000001, 2.0000001], 50)).toBe(
+        cache.getKey('mapillary', [1.0000004, 2], 50)
+      );
+      expect(cache.getKey('mapillary', [1, 2], 50)).not.toBe(cache.getKey('mapillary', [1, 2], 100));
+    });
+
+    it('answers repeated queries from the cache', async () => {
+      const cache = new ImageryQueryCache();
+      const load = vi.fn().mockResolvedValue(null);
+
+      await cache.query('test', [1, 2], 50, load);
+      await expect(cache.query('test', [1, 2], 50, load)).resolves.toBeNull();
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 1, deduplicated: 0, stale: 0, size: 1 });
+    });
+
+    it('shares identical queries in flight', async () => {
+      const cache = new ImageryQueryCache();
+      const load = vi.fn().mockResolvedValue(imagery('a'));
+
+      const [first, second] = await Promise.all([
+        cache.query('test', [1, 2], 50, load),
+        cache.query('test', [1, 2], 50, load),
+      ]);
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(first).toBe(second);
+      expect(cache.getStats().deduplicated).toBe(1);
+    });
+
+    it('does not cache failures', async () => {
+      const cache = new ImageryQueryCache();
+      const load = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue(null);
+
+      await expect(cache.query('test', [1, 2], 50, load)).rejects.toThrow('offline');
+      await expect(cache.query('test', [1, 2], 50, load)).resolves.toBeNull();
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('aborts the shared request only when every caller aborted', async () => {
+      const cache = new ImageryQueryCache();
+      let requestSignal: AbortSignal | undefined;
+      const load = vi.fn((signal: AbortSignal) => {
+        requestSignal = signal;
+        return new Promise<ImageryResult | null>(() => {});
+      });
+      const a = new AbortController();
+      const b = new AbortController();
+
+      const first = cache.query('test', [1, 2], 50, load, a.signal);
+      const second = cache.query('test', [1, 2], 50, load, b.signal);
+      await Promise.resolve();
+      await Promise.resolve();
+
+      a.abort();
+      await expect(first).rejects.toThrow();
+      expect(requestSignal?.aborted).toBe(false);
+
+      b.abort();
+      await expect(second).rejects.toThrow();
+      expect(requestSignal?.aborted).toBe(true);
+    });
+
+    it('falls back to stale imagery when the request fails', async () => {
+      const store = new MemoryImageryCache();
+      const findStale = vi.fn().mockResolvedValue(imagery('old'));
+      const cache = new ImageryQueryCache(Object.assign(store, { findStale }));
+
+      const result = await cache.query('test', [1, 2], 50, () => Promise.reject(new NetworkError('Network request failed')));
+
+      expect(findStale).toHaveBeenCalledWith('test', [1, 2], 50);
+      expect(result).toMatchObject({ id: 'old', stale: true });
+      expect(cache.getStats().stale).toBe(1);
+    });
+
+    it('rethrows failures without stale imagery', async () => {
+      const store = Object.assign(new MemoryImageryCache(), { findStale: vi.fn().mockResolvedValue(undefined) });
+      const cache = new ImageryQueryCache(store);
+
+      await expect(cache.query('test', [1, 2], 50, () => Promise.reject(new Error('offline')))).rejects.toThrow(
+        'offline'
+      );
+    });
+
+    it('passes the thumbnail loader of the provider to the store', async () => {
+      const store = new MemoryImageryCache();
+      const set = vi.spyOn(store, 'set');
+      const cache = new ImageryQueryCache(store);
+      const loadThumbnail = vi.fn().mockResolvedValue(new Blob());
+      cache.setThumbnailLoader('test', loadThumbnail);
+
+      await cache.query('test', [1, 2], 50, () => Promise.resolve(imagery('a')));
+      await set.mock.calls[0][2]?.('https://example.com/thumb.jpg');
+
+      expect(loadThumbnail).toHaveBeenCalledWith('https://example.com/thumb.jpg', expect.any(AbortSignal));
+    });
+
+    it('clears lookups and statistics', async () => {
+      const cache = new ImageryQueryCache();
+      await cache.query('test', [1, 2], 50, () => Promise.resolve(null));
+      await cache.clear();
+      expect(cache.getStats()).toEqual({ hits: 0, misses: 0, deduplicated: 0, stale: 0, size: 0 });
+    });
+  });
 });